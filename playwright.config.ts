@@ -1,5 +1,6 @@
 import { defineConfig } from "@playwright/test";
 import dotenv from "dotenv";
+import type { TestOptions } from "./src/fixtures/index.js";
 
 dotenv.config();
 
@@ -52,8 +53,9 @@ const reporters: Array<
   ],
 ];
 
-export default defineConfig({
+export default defineConfig<TestOptions>({
   testDir: "./src/tests",
+  globalSetup: "./src/fixtures/global-setup.ts",
   fullyParallel: true,
   forbidOnly: isCI,
   retries: isCI ? 2 : 0,
@@ -64,7 +66,6 @@ export default defineConfig({
     baseURL: process.env.BASE_URL || "http://localhost:3000",
     extraHTTPHeaders: {
       Accept: "application/json",
-      "Content-Type": "application/json",
     },
     trace: "on-first-retry",
   },
@@ -1,35 +1,127 @@
 import { APIRequestContext, APIResponse } from "@playwright/test";
+import { ApiError, isProblemContentType } from "./api-error.js";
+import type { ProblemDetails } from "./api-error.js";
+import type { AuthStrategy } from "./auth.js";
+import type { Cassette } from "./cassette.js";
+import type { ExchangeRecorder } from "./exchange-recorder.js";
+import type { ApiRequest, Middleware, NextHandler } from "./middleware.js";
+import { Paginator } from "./pagination.js";
+import type { PaginateOptions, PaginationStrategy } from "./pagination.js";
+import { RequestBody } from "./request-body.js";
+import {
+  parseBody,
+  parseCsv,
+  parseEventStream,
+  parseNdjson,
+  parseXml,
+} from "./response-parsers.js";
+import type { ServerSentEvent, XmlOptions } from "./response-parsers.js";
+import { retry, retryAttempts } from "./retry.js";
+import type { RetryAttempt, RetryPolicy } from "./retry.js";
+import {
+  SchemaValidationError,
+  validateSchema,
+  type JsonSchema,
+} from "./schema-validator.js";
 
 export interface ApiClientConfig {
   baseURL?: string;
   headers?: Record<string, string>;
   timeout?: number;
+  /** Adds credentials to every request, applied in order. */
+  auth?: AuthStrategy | AuthStrategy[];
+  /** Retries transient failures. Off unless given. */
+  retry?: RetryPolicy;
+  /** Records every request and response sent, e.g. for report attachments. */
+  recorder?: ExchangeRecorder;
+  /** Records responses to, or replays them from, a cassette file. */
+  cassette?: Cassette;
 }
 
 export interface RequestOptions {
   headers?: Record<string, string>;
-  params?: Record<string, string>;
+  /** Query parameters. An array value repeats the parameter. */
+  params?: Record<string, string | string[]>;
   timeout?: number;
+  /** Overrides the client's retry policy for this request; `false` disables it. */
+  retry?: RetryPolicy | false;
 }
 
+export interface SendOptions extends RequestOptions {
+  /** Sent as JSON, unless it is a `RequestBody`. */
+  data?: unknown;
+}
+
+/** Documented status codes mapped to body types, e.g. `{ 200: User }`. */
+export type ResponseMap = Record<number, unknown>;
+
+/**
+ * An `ApiResponse` for an operation with several documented responses.
+ * Comparing `status` with a documented code narrows the type of `json()`.
+ */
+export type TypedApiResponse<R extends object> = {
+  [S in keyof R & number]: ApiResponse<R[S]> & { readonly status: S };
+}[keyof R & number];
+
+/** A 2xx response with its parsed body. */
+export interface ApiSuccess<T> {
+  ok: true;
+  status: number;
+  data: T;
+  response: ApiResponse<T>;
+}
+
+/**
+ * A non-2xx response with its parsed body: problem details, other JSON, or
+ * text.
+ */
+export interface ApiFailure<E> {
+  ok: false;
+  status: number;
+  error: E;
+  response: ApiResponse<unknown>;
+}
+
+/** The outcome of a request; check `ok` to narrow it. */
+export type ApiResult<T, E = ProblemDetails> = ApiSuccess<T> | ApiFailure<E>;
+
 export class ApiClient {
   private request: APIRequestContext;
   private baseURL: string;
   private defaultHeaders: Record<string, string>;
   private defaultTimeout: number;
+  private auth: AuthStrategy[];
+  private middleware: Middleware[] = [];
+  private retryPolicy?: RetryPolicy;
+  private recorder?: ExchangeRecorder;
+  private cassette?: Cassette;
 
   constructor(request: APIRequestContext, config: ApiClientConfig = {}) {
     this.request = request;
     this.baseURL = config.baseURL || process.env.BASE_URL || "";
     this.defaultHeaders = config.headers || {};
     this.defaultTimeout = config.timeout || 30000;
+    this.auth = config.auth ? [config.auth].flat() : [];
+    this.retryPolicy = config.retry;
+    this.recorder = config.recorder;
+    this.cassette = config.cassette;
+  }
+
+  /** Resolves relative endpoints against `baseURL` from now on. */
+  setBaseURL(baseURL: string): void {
+    this.baseURL = baseURL;
   }
 
-  private buildUrl(endpoint: string, params?: Record<string, string>): string {
-    const url = new URL(endpoint, this.baseURL);
+  private buildUrl(
+    endpoint: string,
+    params?: Record<string, string | string[]>
+  ): string {
+    const url = new URL(endpoint, this.baseURL || undefined);
     if (params) {
       Object.entries(params).forEach(([key, value]) => {
-        url.searchParams.append(key, value);
+        for (const item of Array.isArray(value) ? value : [value]) {
+          url.searchParams.append(key, item);
+        }
       });
     }
     return url.toString();
@@ -42,18 +134,129 @@ export class ApiClient {
     };
   }
 
+  /**
+   * Appends middleware to the pipeline. Middleware added first sees the
+   * request first and the response last.
+   */
+  use(...middleware: Middleware[]): this {
+    this.middleware.push(...middleware);
+    return this;
+  }
+
+  /** Sends a request with any HTTP method through the middleware pipeline. */
+  async send<T = unknown>(
+    method: string,
+    endpoint: string,
+    options: SendOptions = {}
+  ): Promise<ApiResponse<T>> {
+    const request: ApiRequest = {
+      method: method.toUpperCase(),
+      url: new URL(this.buildUrl(endpoint, options.params)),
+      headers: this.mergeHeaders(options),
+      data: options.data,
+      timeout: options.timeout || this.defaultTimeout,
+    };
+    if (options.data instanceof RequestBody) {
+      await this.encodeBody(request, options.data, options.headers);
+    }
+
+    const policy =
+      options.retry === false
+        ? undefined
+        : options.retry
+          ? { ...this.retryPolicy, ...options.retry }
+          : this.retryPolicy;
+    const dispatch: NextHandler = (req) => this.dispatch(req);
+    const handler = this.middleware.reduceRight<NextHandler>(
+      (next, middleware) => (req) => middleware(req, next),
+      policy ? (req) => retry(policy)(req, dispatch) : dispatch
+    );
+    return new ApiResponse<T>(await handler(request), {
+      method: request.method,
+      url: request.url.toString(),
+    });
+  }
+
+  /**
+   * Replaces a `RequestBody` with its bytes and sets its `Content-Type`,
+   * unless the caller's own headers name one.
+   */
+  private async encodeBody(
+    request: ApiRequest,
+    body: RequestBody,
+    headers: Record<string, string> = {}
+  ): Promise<void> {
+    const isContentType = (name: string) =>
+      name.toLowerCase() === "content-type";
+    const encoded = await body.encode();
+    request.data = encoded.content;
+
+    if (Object.keys(headers).some(isContentType)) return;
+    for (const name of Object.keys(request.headers).filter(isContentType)) {
+      delete request.headers[name];
+    }
+    request.headers["Content-Type"] = encoded.contentType;
+  }
+
+  /**
+   * Applies auth and sends the request, retrying once after a 401 when an
+   * auth strategy refreshed its credentials.
+   */
+  private async dispatch(request: ApiRequest): Promise<APIResponse> {
+    let response = await this.fetch(request);
+
+    if (response.status() === 401) {
+      let refreshed = false;
+      for (const strategy of this.auth) {
+        if (strategy.refresh && (await strategy.refresh())) refreshed = true;
+      }
+      if (refreshed) response = await this.fetch(request);
+    }
+
+    return response;
+  }
+
+  private async fetch(original: ApiRequest): Promise<APIResponse> {
+    // Replayed requests never reach the network, so they skip auth
+    if (this.cassette?.mode === "replay") {
+      const started = Date.now();
+      const response = this.cassette.replay(original);
+      await this.recorder?.record(original, started, { response });
+      return response;
+    }
+
+    // Auth works on a copy so a retry starts from the unauthenticated request
+    const request = {
+      ...original,
+      url: new URL(original.url),
+      headers: { ...original.headers },
+    };
+    for (const strategy of this.auth) {
+      await strategy.apply(request, this.request);
+    }
+
+    const started = Date.now();
+    try {
+      const response = await this.request.fetch(request.url.toString(), {
+        method: request.method,
+        data: request.data,
+        headers: request.headers,
+        timeout: request.timeout,
+      });
+      await this.recorder?.record(request, started, { response });
+      await this.cassette?.record(original, response);
+      return response;
+    } catch (error) {
+      await this.recorder?.record(request, started, { error });
+      throw error;
+    }
+  }
+
   async get<T = unknown>(
     endpoint: string,
     options?: RequestOptions
   ): Promise<ApiResponse<T>> {
-    const response = await this.request.get(
-      this.buildUrl(endpoint, options?.params),
-      {
-        headers: this.mergeHeaders(options),
-        timeout: options?.timeout || this.defaultTimeout,
-      }
-    );
-    return new ApiResponse<T>(response);
+    return this.send<T>("GET", endpoint, options);
   }
 
   async post<T = unknown>(
@@ -61,15 +264,7 @@ export class ApiClient {
     data?: unknown,
     options?: RequestOptions
   ): Promise<ApiResponse<T>> {
-    const response = await this.request.post(
-      this.buildUrl(endpoint, options?.params),
-      {
-        data,
-        headers: this.mergeHeaders(options),
-        timeout: options?.timeout || this.defaultTimeout,
-      }
-    );
-    return new ApiResponse<T>(response);
+    return this.send<T>("POST", endpoint, { ...options, data });
   }
 
   async put<T = unknown>(
@@ -77,15 +272,7 @@ export class ApiClient {
     data?: unknown,
     options?: RequestOptions
   ): Promise<ApiResponse<T>> {
-    const response = await this.request.put(
-      this.buildUrl(endpoint, options?.params),
-      {
-        data,
-        headers: this.mergeHeaders(options),
-        timeout: options?.timeout || this.defaultTimeout,
-      }
-    );
-    return new ApiResponse<T>(response);
+    return this.send<T>("PUT", endpoint, { ...options, data });
   }
 
   async patch<T = unknown>(
@@ -93,38 +280,41 @@ export class ApiClient {
     data?: unknown,
     options?: RequestOptions
   ): Promise<ApiResponse<T>> {
-    const response = await this.request.patch(
-      this.buildUrl(endpoint, options?.params),
-      {
-        data,
-        headers: this.mergeHeaders(options),
-        timeout: options?.timeout || this.defaultTimeout,
-      }
-    );
-    return new ApiResponse<T>(response);
+    return this.send<T>("PATCH", endpoint, { ...options, data });
   }
 
   async delete<T = unknown>(
     endpoint: string,
     options?: RequestOptions
   ): Promise<ApiResponse<T>> {
-    const response = await this.request.delete(
-      this.buildUrl(endpoint, options?.params),
-      {
-        headers: this.mergeHeaders(options),
-        timeout: options?.timeout || this.defaultTimeout,
-      }
-    );
-    return new ApiResponse<T>(response);
+    return this.send<T>("DELETE", endpoint, options);
+  }
+
+  /**
+   * Pages through a list endpoint with GET requests. Iterate the result for
+   * items, or call `pages()` or `all()`.
+   */
+  paginate<T = unknown>(
+    endpoint: string,
+    strategy: PaginationStrategy<T>,
+    options?: PaginateOptions
+  ): Paginator<T> {
+    return new Paginator<T>(this, endpoint, strategy, options);
   }
 }
 
 export class ApiResponse<T = unknown> {
   private response: APIResponse;
+  private request?: { method: string; url: string };
   private _body: T | null = null;
 
-  constructor(response: APIResponse) {
+  /** `request` names the request in `ApiError` messages. */
+  constructor(
+    response: APIResponse,
+    request?: { method: string; url: string }
+  ) {
     this.response = response;
+    this.request = request;
   }
 
   get status(): number {
@@ -143,6 +333,15 @@ export class ApiResponse<T = unknown> {
     return this.response.headers();
   }
 
+  get url(): string {
+    return this.response.url();
+  }
+
+  /** Attempts made under a retry policy, including the one that returned this response. */
+  get attempts(): RetryAttempt[] {
+    return retryAttempts(this.response);
+  }
+
   async json(): Promise<T> {
     if (this._body === null) {
       this._body = (await this.response.json()) as T;
@@ -157,4 +356,104 @@ export class ApiResponse<T = unknown> {
   async body(): Promise<Buffer> {
     return this.response.body();
   }
+
+  /**
+   * Parses the JSON body and checks it against `schema`. Throws a
+   * `SchemaValidationError` listing every violating JSON pointer.
+   */
+  async validate(schema: JsonSchema): Promise<T> {
+    const body = await this.json();
+    const violations = validateSchema(body, schema);
+
+    if (violations.length > 0) {
+      throw new SchemaValidationError(violations, `${this.status} ${this.url}`);
+    }
+
+    return body;
+  }
+
+  /** Parses an XML body into plain objects. */
+  async xml<X = Record<string, unknown>>(options?: XmlOptions): Promise<X> {
+    return parseXml(await this.text(), options) as X;
+  }
+
+  /** Parses a CSV body into one record per row, keyed by the header row. */
+  async csv(delimiter = ","): Promise<Record<string, string>[]> {
+    const [header = [], ...rows] = parseCsv(await this.text(), delimiter);
+    return rows.map((row) =>
+      Object.fromEntries(header.map((name, i) => [name, row[i] ?? ""]))
+    );
+  }
+
+  /** Parses a newline-delimited JSON body. */
+  async ndjson<R = T>(): Promise<R[]> {
+    return parseNdjson<R>(await this.text());
+  }
+
+  /**
+   * Parses a `text/event-stream` body. Playwright reads the whole body, so
+   * this returns once the server has closed the stream.
+   */
+  async events(): Promise<ServerSentEvent[]> {
+    return parseEventStream(await this.text());
+  }
+
+  /**
+   * Parses an RFC 7807 `application/problem+json` body. Returns `undefined`
+   * for any other content type.
+   */
+  async problem(): Promise<ProblemDetails | undefined> {
+    if (!isProblemContentType(this.headers["content-type"])) return undefined;
+    return (await this.response.json()) as ProblemDetails;
+  }
+
+  /**
+   * Returns this response when its status is one of `statuses`, otherwise
+   * throws an `ApiError` with the request, the response and its problem
+   * details.
+   */
+  async expectStatus(...statuses: number[]): Promise<this> {
+    if (!statuses.includes(this.status)) throw await this.toError(statuses);
+    return this;
+  }
+
+  /** Returns this response when it is 2xx, otherwise throws an `ApiError`. */
+  async orThrow(): Promise<this> {
+    if (!this.ok) throw await this.toError();
+    return this;
+  }
+
+  /**
+   * Parses the body into an `ApiResult`: `data` for a 2xx response, `error`
+   * otherwise. An empty body parses as `undefined`, a non-JSON one as text.
+   */
+  async result<E = ProblemDetails>(): Promise<ApiResult<T, E>> {
+    const body = parseBody(await this.text());
+    return this.ok
+      ? { ok: true, status: this.status, data: body as T, response: this }
+      : { ok: false, status: this.status, error: body as E, response: this };
+  }
+
+  private async toError(expected?: number[]): Promise<ApiError> {
+    const body = await this.text().catch(() => "");
+    const parsed = isProblemContentType(this.headers["content-type"])
+      ? parseBody(body)
+      : undefined;
+    const problem =
+      parsed && typeof parsed === "object"
+        ? (parsed as ProblemDetails)
+        : undefined;
+
+    return new ApiError({
+      request: this.request ?? { method: "", url: this.url },
+      response: {
+        status: this.status,
+        statusText: this.statusText,
+        headers: this.headers,
+        body,
+      },
+      problem,
+      expected,
+    });
+  }
 }
@@ -0,0 +1,71 @@
+const MAX_MESSAGE_BODY = 2000;
+
+/**
+ * An RFC 7807 problem details object (`application/problem+json`). Members
+ * other than the standard five are extensions defined by the API.
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+export interface ApiErrorContext {
+  request: { method: string; url: string };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+  /** Set when the response body is a problem details object. */
+  problem?: ProblemDetails;
+  /** Statuses the caller accepted, when it named them. */
+  expected?: number[];
+}
+
+export function isProblemContentType(contentType = ""): boolean {
+  return /^application\/problem\+json\b/i.test(contentType);
+}
+
+function describe(context: ApiErrorContext): string {
+  const { request, response, problem, expected } = context;
+  const outcome = `${response.status} ${response.statusText}`.trim();
+  const wanted = expected ? ` (expected ${expected.join(" or ")})` : "";
+  const detail = problem
+    ? [problem.title, problem.detail].filter(Boolean).join(": ")
+    : response.body.length > MAX_MESSAGE_BODY
+      ? `${response.body.slice(0, MAX_MESSAGE_BODY)}...`
+      : response.body;
+
+  return `${request.method} ${request.url} -> ${outcome}${wanted}${
+    detail ? `\n${detail}` : ""
+  }`;
+}
+
+/**
+ * Thrown by `ApiResponse.expectStatus()` and `orThrow()` for an unexpected
+ * response. Carries the request, the response and its problem details.
+ */
+export class ApiError extends Error {
+  readonly request: ApiErrorContext["request"];
+  readonly response: ApiErrorContext["response"];
+  readonly problem?: ProblemDetails;
+  readonly expected?: number[];
+
+  constructor(context: ApiErrorContext) {
+    super(describe(context));
+    this.name = "ApiError";
+    this.request = context.request;
+    this.response = context.response;
+    this.problem = context.problem;
+    this.expected = context.expected;
+  }
+
+  get status(): number {
+    return this.response.status;
+  }
+}
@@ -0,0 +1,306 @@
+import { createHmac } from "node:crypto";
+import type { APIRequestContext } from "@playwright/test";
+import type { ApiRequest } from "./middleware.js";
+
+export interface AuthStrategy {
+  /** Adds credentials to the request. `http` can be used to fetch tokens. */
+  apply(request: ApiRequest, http: APIRequestContext): void | Promise<void>;
+  /**
+   * Called when a request is answered with 401. Returning true drops cached
+   * credentials and makes `ApiClient` send the request once more.
+   */
+  refresh?(): boolean | Promise<boolean>;
+}
+
+export class BearerAuth implements AuthStrategy {
+  private token: string;
+
+  constructor(token: string) {
+    this.token = token;
+  }
+
+  apply(request: ApiRequest): void {
+    request.headers.Authorization = `Bearer ${this.token}`;
+  }
+}
+
+export class BasicAuth implements AuthStrategy {
+  private credentials: string;
+
+  constructor(username: string, password: string) {
+    this.credentials = Buffer.from(`${username}:${password}`).toString(
+      "base64"
+    );
+  }
+
+  apply(request: ApiRequest): void {
+    request.headers.Authorization = `Basic ${this.credentials}`;
+  }
+}
+
+export interface ApiKeyAuthOptions {
+  key: string;
+  /** Header or query parameter name. Defaults to `X-API-Key`. */
+  name?: string;
+  /** Where the key is sent. Defaults to `header`. */
+  in?: "header" | "query";
+}
+
+export class ApiKeyAuth implements AuthStrategy {
+  private key: string;
+  private name: string;
+  private location: "header" | "query";
+
+  constructor(options: ApiKeyAuthOptions) {
+    this.key = options.key;
+    this.name = options.name || "X-API-Key";
+    this.location = options.in || "header";
+  }
+
+  apply(request: ApiRequest): void {
+    if (this.location === "query") {
+      request.url.searchParams.set(this.name, this.key);
+    } else {
+      request.headers[this.name] = this.key;
+    }
+  }
+}
+
+export interface OAuth2ClientCredentialsOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  audience?: string;
+  /** Renew tokens this long before they expire, in ms. Defaults to 30000. */
+  expiryMargin?: number;
+}
+
+interface CachedToken {
+  value: string;
+  expiresAt: number;
+}
+
+/**
+ * OAuth2 client-credentials grant. The access token is cached until shortly
+ * before it expires and fetched again after a 401, so one instance can be
+ * shared by every test in a worker.
+ */
+export class OAuth2ClientCredentials implements AuthStrategy {
+  private options: OAuth2ClientCredentialsOptions;
+  private token?: CachedToken;
+  private pending?: Promise<CachedToken>;
+
+  constructor(options: OAuth2ClientCredentialsOptions) {
+    this.options = options;
+  }
+
+  async apply(request: ApiRequest, http: APIRequestContext): Promise<void> {
+    const token = await this.accessToken(http);
+    request.headers.Authorization = `Bearer ${token}`;
+  }
+
+  refresh(): boolean {
+    this.token = undefined;
+    return true;
+  }
+
+  private async accessToken(http: APIRequestContext): Promise<string> {
+    if (this.token && Date.now() < this.token.expiresAt) {
+      return this.token.value;
+    }
+
+    // Concurrent requests share one token request
+    this.pending ??= this.fetchToken(http).finally(() => {
+      this.pending = undefined;
+    });
+    this.token = await this.pending;
+    return this.token.value;
+  }
+
+  private async fetchToken(http: APIRequestContext): Promise<CachedToken> {
+    const { tokenUrl, clientId, clientSecret, scope, audience } = this.options;
+    const form: Record<string, string> = {
+      grant_type: "client_credentials",
+      client_id: clientId,
+      client_secret: clientSecret,
+    };
+    if (scope) form.scope = scope;
+    if (audience) form.audience = audience;
+
+    const response = await http.post(tokenUrl, {
+      form,
+      // Overrides a project-wide JSON Content-Type
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    });
+    if (!response.ok()) {
+      throw new Error(
+        `OAuth2 token request to ${tokenUrl} failed: ${response.status()} ${await response.text()}`
+      );
+    }
+
+    const body = (await response.json()) as {
+      access_token?: string;
+      expires_in?: number;
+    };
+    if (!body.access_token) {
+      throw new Error(
+        `OAuth2 token response from ${tokenUrl} has no access_token`
+      );
+    }
+
+    const lifetime = (body.expires_in ?? 3600) * 1000;
+    return {
+      value: body.access_token,
+      expiresAt:
+        Date.now() +
+        Math.max(0, lifetime - (this.options.expiryMargin ?? 30000)),
+    };
+  }
+}
+
+export interface HmacSignerOptions {
+  secret: string;
+  /** Any `crypto.createHmac` algorithm. Defaults to `sha256`. */
+  algorithm?: string;
+  encoding?: "hex" | "base64";
+  /** Header carrying the signature. Defaults to `X-Signature`. */
+  header?: string;
+  /** Header carrying the signing time. Defaults to `X-Timestamp`. */
+  timestampHeader?: string;
+  /**
+   * Builds the string to sign. Defaults to the method, path with query,
+   * timestamp and body, separated by newlines.
+   */
+  payload?: (request: ApiRequest, timestamp: string) => string;
+}
+
+/** Serializes a request body the way it is sent. */
+function bodyText(data: unknown): string {
+  if (data === undefined || data === null) return "";
+  if (typeof data === "string") return data;
+  if (Buffer.isBuffer(data)) return data.toString("utf8");
+  return JSON.stringify(data);
+}
+
+/**
+ * Signs every request with an HMAC of its method, path, timestamp and body.
+ * Combine it with a credential strategy by passing both to `ApiClient`.
+ */
+export class HmacSigner implements AuthStrategy {
+  private options: HmacSignerOptions;
+
+  constructor(options: HmacSignerOptions) {
+    this.options = options;
+  }
+
+  apply(request: ApiRequest): void {
+    const {
+      secret,
+      algorithm = "sha256",
+      encoding = "hex",
+      header = "X-Signature",
+      timestampHeader = "X-Timestamp",
+      payload = (r: ApiRequest, timestamp: string) =>
+        [
+          r.method.toUpperCase(),
+          `${r.url.pathname}${r.url.search}`,
+          timestamp,
+          bodyText(r.data),
+        ].join("\n"),
+    } = this.options;
+
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    request.headers[timestampHeader] = timestamp;
+    request.headers[header] = createHmac(algorithm, secret)
+      .update(payload(request, timestamp))
+      .digest(encoding);
+  }
+}
+
+function required(env: NodeJS.ProcessEnv, name: string, auth: string): string {
+  const value = env[name];
+  if (!value) {
+    throw new Error(`API_AUTH=${auth} requires ${name} to be set`);
+  }
+  return value;
+}
+
+/**
+ * Builds auth strategies from environment variables. `API_AUTH` selects
+ * `bearer`, `basic`, `api-key`, `oauth2` or `none`; when unset, it is
+ * inferred from whichever credentials are present. `API_HMAC_SECRET` adds
+ * request signing on top of any of them.
+ */
+export function authFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): AuthStrategy[] {
+  const auth =
+    env.API_AUTH?.toLowerCase() ||
+    (env.OAUTH_TOKEN_URL
+      ? "oauth2"
+      : env.API_KEY
+        ? "api-key"
+        : env.API_USERNAME
+          ? "basic"
+          : env.API_TOKEN
+            ? "bearer"
+            : "none");
+
+  const strategies: AuthStrategy[] = [];
+
+  switch (auth) {
+    case "none":
+      break;
+    case "bearer":
+      strategies.push(new BearerAuth(required(env, "API_TOKEN", auth)));
+      break;
+    case "basic":
+      strategies.push(
+        new BasicAuth(
+          required(env, "API_USERNAME", auth),
+          env.API_PASSWORD || ""
+        )
+      );
+      break;
+    case "api-key": {
+      const location = env.API_KEY_IN?.toLowerCase() || "header";
+      if (location !== "header" && location !== "query") {
+        throw new Error(`API_KEY_IN must be header or query, got: ${location}`);
+      }
+      strategies.push(
+        new ApiKeyAuth({
+          key: required(env, "API_KEY", auth),
+          name: env.API_KEY_NAME,
+          in: location,
+        })
+      );
+      break;
+    }
+    case "oauth2":
+      strategies.push(
+        new OAuth2ClientCredentials({
+          tokenUrl: required(env, "OAUTH_TOKEN_URL", auth),
+          clientId: required(env, "OAUTH_CLIENT_ID", auth),
+          clientSecret: required(env, "OAUTH_CLIENT_SECRET", auth),
+          scope: env.OAUTH_SCOPE,
+          audience: env.OAUTH_AUDIENCE,
+        })
+      );
+      break;
+    default:
+      throw new Error(`Unsupported API_AUTH: ${auth}`);
+  }
+
+  if (env.API_HMAC_SECRET) {
+    strategies.push(
+      new HmacSigner({
+        secret: env.API_HMAC_SECRET,
+        algorithm: env.API_HMAC_ALGORITHM,
+        header: env.API_HMAC_HEADER,
+      })
+    );
+  }
+
+  return strategies;
+}
@@ -0,0 +1,330 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { APIResponse, TestInfo } from "@playwright/test";
+import { isSecretHeader, isTextual, redactBody } from "./exchange-recorder.js";
+import type { ApiRequest } from "./middleware.js";
+
+/**
+ * - `off`: requests go to the network.
+ * - `record`: requests go to the network and are written to the cassette.
+ * - `replay`: responses come from the cassette; nothing is sent.
+ * - `auto`: replay when the cassette exists, record otherwise.
+ */
+export type CassetteMode = "off" | "record" | "replay" | "auto";
+
+/** Request parts compared when looking up a recorded response. */
+export type CassetteMatchField = "method" | "path" | "query" | "body";
+
+export interface CassetteOptions {
+  /** Cassette file, JSON. */
+  path: string;
+  mode: Exclude<CassetteMode, "off">;
+  /** Defaults to method, path, query and body. */
+  match?: CassetteMatchField[];
+}
+
+interface StoredBody {
+  body?: string;
+  /** Set for binary bodies, which are stored as base64. */
+  encoding?: "base64";
+}
+
+export interface CassetteInteraction {
+  request: StoredBody & {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+  };
+  response: StoredBody & {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+  };
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CassetteMismatchError";
+  }
+}
+
+const DEFAULT_MATCH: CassetteMatchField[] = ["method", "path", "query", "body"];
+
+/** Text bodies are stored with secret JSON and form fields masked. */
+function storeBody(data: unknown, headers: Record<string, string>): StoredBody {
+  if (data === undefined || data === null) return {};
+  const contentType = Object.entries(headers).find(
+    ([name]) => name.toLowerCase() === "content-type"
+  )?.[1];
+  if (Buffer.isBuffer(data) && !isTextual(contentType)) {
+    return { body: data.toString("base64"), encoding: "base64" };
+  }
+  const text = Buffer.isBuffer(data)
+    ? data.toString("utf8")
+    : typeof data === "string"
+      ? data
+      : JSON.stringify(data);
+  return { body: redactBody(text, contentType) };
+}
+
+function publicHeaders(
+  headers: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !isSecretHeader(name))
+  );
+}
+
+function bodyBuffer({ body = "", encoding }: StoredBody): Buffer {
+  return Buffer.from(body, encoding === "base64" ? "base64" : "utf8");
+}
+
+/** Compares JSON bodies regardless of key order, other bodies as text. */
+function canonicalBody(stored: StoredBody): string {
+  const text = stored.body ?? "";
+  try {
+    return JSON.stringify(JSON.parse(text), (_, value: unknown) =>
+      value && typeof value === "object" && !Array.isArray(value)
+        ? Object.fromEntries(
+            Object.entries(value).sort(([a], [b]) => a.localeCompare(b))
+          )
+        : value
+    );
+  } catch {
+    return text;
+  }
+}
+
+function canonicalQuery(url: URL): string {
+  return [...url.searchParams]
+    .map(([name, value]) => `${name}=${value}`)
+    .sort()
+    .join("&");
+}
+
+export interface RecordedResponseInit {
+  url: string;
+  status: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  body?: Buffer | string;
+}
+
+/**
+ * A Playwright `APIResponse` held in memory, as served from a cassette. Also
+ * works as a test double for a request context's `fetch()`.
+ */
+export class RecordedResponse implements APIResponse {
+  private readonly init: RecordedResponseInit;
+  private readonly content: Buffer;
+
+  constructor(init: RecordedResponseInit) {
+    this.init = init;
+    this.content = Buffer.isBuffer(init.body)
+      ? init.body
+      : Buffer.from(init.body ?? "");
+  }
+
+  url(): string {
+    return this.init.url;
+  }
+
+  status(): number {
+    return this.init.status;
+  }
+
+  statusText(): string {
+    return this.init.statusText ?? "";
+  }
+
+  ok(): boolean {
+    return this.init.status >= 200 && this.init.status < 300;
+  }
+
+  headers(): Record<string, string> {
+    return { ...this.init.headers };
+  }
+
+  headersArray(): { name: string; value: string }[] {
+    return Object.entries(this.init.headers ?? {}).map(([name, value]) => ({
+      name,
+      value,
+    }));
+  }
+
+  async body(): Promise<Buffer> {
+    return this.content;
+  }
+
+  async text(): Promise<string> {
+    return this.content.toString("utf8");
+  }
+
+  async json(): Promise<unknown> {
+    return JSON.parse(this.content.toString("utf8"));
+  }
+
+  async dispose(): Promise<void> {}
+
+  async [Symbol.asyncDispose](): Promise<void> {}
+}
+
+/**
+ * Cassette path for a test: `<dir>/<spec file>/<describe and test title>.json`.
+ */
+export function cassettePathFor(testInfo: TestInfo, directory: string): string {
+  const spec = path
+    .relative(testInfo.project.testDir, testInfo.file)
+    .replace(/\.spec\.[cm]?[jt]s$/, "");
+  const title = testInfo.titlePath
+    .slice(1)
+    .join(" ")
+    .replace(/[^\w-]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase();
+  return path.join(directory, spec, `${title || "test"}.json`);
+}
+
+/**
+ * A VCR-style cassette for `ApiClient`. In `record` mode every exchange is
+ * kept and written by `save()`; in `replay` mode each request is answered
+ * with the first unused recorded interaction that matches it, and a request
+ * without one throws a `CassetteMismatchError`. Credential headers are never
+ * written to disk, and secret JSON and form fields are masked.
+ *
+ * @example
+ * const cassette = await Cassette.open({ path: "users.json", mode: "auto" });
+ * const client = new ApiClient(request, { cassette });
+ * // ...
+ * await cassette.save();
+ */
+export class Cassette {
+  readonly path: string;
+  readonly mode: "record" | "replay";
+  private match: CassetteMatchField[];
+  private interactions: CassetteInteraction[];
+  private used = new Set<number>();
+
+  private constructor(
+    options: CassetteOptions,
+    mode: "record" | "replay",
+    interactions: CassetteInteraction[]
+  ) {
+    this.path = options.path;
+    this.mode = mode;
+    this.match = options.match ?? DEFAULT_MATCH;
+    this.interactions = interactions;
+  }
+
+  static async open(options: CassetteOptions): Promise<Cassette> {
+    const exists = existsSync(options.path);
+    const mode =
+      options.mode === "auto" ? (exists ? "replay" : "record") : options.mode;
+
+    if (mode === "record") return new Cassette(options, mode, []);
+    if (!exists) {
+      throw new Error(
+        `No cassette at ${options.path}; record it with API_VCR_MODE=record`
+      );
+    }
+
+    const file = JSON.parse(
+      await readFile(options.path, "utf8")
+    ) as CassetteFile;
+    return new Cassette(options, mode, file.interactions ?? []);
+  }
+
+  /** Serves a recorded response for `request`. */
+  replay(request: ApiRequest): APIResponse {
+    const wanted = storeBody(request.data, request.headers);
+    const index = this.interactions.findIndex(
+      (interaction, i) =>
+        !this.used.has(i) && this.matches(request, wanted, interaction)
+    );
+
+    if (index === -1) {
+      const recorded = this.interactions
+        .map(
+          (i, n) =>
+            `  ${this.used.has(n) ? "(used) " : ""}${i.request.method} ${i.request.url}`
+        )
+        .join("\n");
+      throw new CassetteMismatchError(
+        `No recorded interaction in ${this.path} matches ` +
+          `${request.method} ${request.url} (matching on ${this.match.join(", ")})\n` +
+          `Recorded:\n${recorded || "  none"}`
+      );
+    }
+
+    this.used.add(index);
+    const { response } = this.interactions[index];
+    return new RecordedResponse({
+      url: request.url.toString(),
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      body: bodyBuffer(response),
+    });
+  }
+
+  /** Adds a live exchange to the cassette. */
+  async record(request: ApiRequest, response: APIResponse): Promise<void> {
+    const headers = response.headers();
+    const body = await response.body();
+
+    this.interactions.push({
+      request: {
+        method: request.method,
+        url: request.url.toString(),
+        headers: publicHeaders(request.headers),
+        ...storeBody(request.data, request.headers),
+      },
+      response: {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: publicHeaders(headers),
+        ...(body.length > 0 ? storeBody(body, headers) : {}),
+      },
+    });
+  }
+
+  /** Writes recorded interactions to disk. Does nothing in replay mode. */
+  async save(): Promise<void> {
+    if (this.mode !== "record" || this.interactions.length === 0) return;
+
+    const file: CassetteFile = { version: 1, interactions: this.interactions };
+    await mkdir(path.dirname(this.path), { recursive: true });
+    await writeFile(this.path, `${JSON.stringify(file, null, 2)}\n`);
+  }
+
+  private matches(
+    request: ApiRequest,
+    body: StoredBody,
+    interaction: CassetteInteraction
+  ): boolean {
+    const recordedUrl = new URL(interaction.request.url);
+
+    return this.match.every((field) => {
+      switch (field) {
+        case "method":
+          return (
+            request.method.toUpperCase() ===
+            interaction.request.method.toUpperCase()
+          );
+        case "path":
+          return request.url.pathname === recordedUrl.pathname;
+        case "query":
+          return canonicalQuery(request.url) === canonicalQuery(recordedUrl);
+        case "body":
+          return canonicalBody(body) === canonicalBody(interaction.request);
+      }
+    });
+  }
+}
@@ -0,0 +1,47 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { OpenApiSpec } from "../openapi.js";
+import { generateClient } from "./generate-client.js";
+
+const USAGE =
+  "Usage: npm run generate:api -- <openapi.yaml> <out.ts> [--class <Name>]";
+
+const API_INDEX = fileURLToPath(new URL("../index.js", import.meta.url));
+
+/** Import specifier for `src/api/index.js` as seen from `outFile`. */
+function importPathFrom(outFile: string): string {
+  const relative = path
+    .relative(path.dirname(path.resolve(outFile)), API_INDEX)
+    .split(path.sep)
+    .join("/");
+  return relative.startsWith(".") ? relative : `./${relative}`;
+}
+
+async function main(args: string[]): Promise<void> {
+  const classIndex = args.indexOf("--class");
+  const className = classIndex === -1 ? undefined : args[classIndex + 1];
+  const [specPath, outFile] = args.filter(
+    (_, i) => classIndex === -1 || (i !== classIndex && i !== classIndex + 1)
+  );
+
+  if (!specPath || !outFile || (classIndex !== -1 && !className)) {
+    throw new Error(USAGE);
+  }
+
+  const spec = await OpenApiSpec.load(specPath);
+  const source = await generateClient(spec, {
+    className,
+    importPath: importPathFrom(outFile),
+    source: path.relative(process.cwd(), path.resolve(specPath)),
+  });
+
+  await mkdir(path.dirname(outFile), { recursive: true });
+  await writeFile(outFile, source);
+  console.log(`Generated ${outFile} from ${specPath}`);
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
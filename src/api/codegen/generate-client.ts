@@ -0,0 +1,309 @@
+import path from "node:path";
+import type { OpenApiSpec } from "../openapi.js";
+import type {
+  OpenApiParameter,
+  OpenApiRequestBody,
+  OpenApiResponse,
+  ResolvedOperation,
+} from "../openapi.js";
+import type { JsonSchema } from "../schema-validator.js";
+import {
+  camelCase,
+  componentTypeName,
+  docComment,
+  isObjectLiteral,
+  pascalCase,
+  propertyKey,
+  schemaToType,
+} from "./schema-types.js";
+
+/** The HTTP methods `ApiClient` has a verb for. */
+const CLIENT_METHODS = new Set(["get", "post", "put", "patch", "delete"]);
+const BODY_METHODS = new Set(["post", "put", "patch"]);
+
+export interface GenerateClientOptions {
+  /** Name of the generated class. Defaults to the API title, e.g. `UsersApi`. */
+  className?: string;
+  /** Module the generated file imports `ApiClient` from. */
+  importPath?: string;
+  /** Spec path mentioned in the generated header comment. */
+  source?: string;
+  /** Formats the output with the project's Prettier config. Defaults to true. */
+  format?: boolean;
+}
+
+type ParameterGroup = "path" | "query" | "header";
+
+interface Generator {
+  spec: OpenApiSpec;
+  typeOf(schema: JsonSchema | undefined): string;
+  helpers: Set<string>;
+  types: Set<string>;
+}
+
+function parametersOf(
+  g: Generator,
+  { path: pathTemplate, operation }: ResolvedOperation
+): OpenApiParameter[] {
+  const shared = g.spec.document.paths?.[pathTemplate]?.parameters ?? [];
+  const merged = new Map<string, OpenApiParameter>();
+
+  for (const parameter of [...shared, ...(operation.parameters ?? [])]) {
+    const resolved = g.spec.resolve<OpenApiParameter>(parameter);
+    merged.set(`${resolved.in}:${resolved.name}`, resolved);
+  }
+
+  return [...merged.values()];
+}
+
+/** Picks the JSON media type of a body, falling back to text or anything. */
+function bodyType(
+  g: Generator,
+  content: Record<string, { schema?: JsonSchema }> | undefined
+): string {
+  const types = Object.keys(content ?? {});
+  if (!content || types.length === 0) return "void";
+
+  const json = types.find((type) => /^application\/(.+\+)?json\b/.test(type));
+  if (json) return g.typeOf(content[json].schema);
+  if (types.some((type) => type.startsWith("text/"))) return "string";
+  return g.typeOf(content[types[0]].schema);
+}
+
+function parameterGroup(
+  g: Generator,
+  parameters: OpenApiParameter[],
+  group: ParameterGroup
+): { type: string; required: boolean } | undefined {
+  const members = parameters.filter((p) => p.in === group);
+  if (members.length === 0) return undefined;
+
+  const lines = members.map((p) => {
+    const required = group === "path" || p.required === true;
+    return `${docComment(p.description)}${propertyKey(p.name)}${required ? "" : "?"}: ${g.typeOf(p.schema)};`;
+  });
+
+  return {
+    type: `{\n${lines.join("\n")}\n}`,
+    required: members.some((p) => group === "path" || p.required),
+  };
+}
+
+function responsesType(
+  g: Generator,
+  responses: Record<string, OpenApiResponse> = {}
+): string {
+  const entries = Object.entries(responses)
+    .filter(([status]) => /^\d{3}$/.test(status))
+    .map(([status, response]) => {
+      const resolved = g.spec.resolve<OpenApiResponse>(response);
+      return `${docComment(resolved.description)}${status}: ${bodyType(g, resolved.content)};`;
+    });
+
+  if (entries.length === 0) {
+    g.types.add("ResponseMap");
+    return "ResponseMap";
+  }
+  return `{\n${entries.join("\n")}\n}`;
+}
+
+function declare(name: string, type: string): string {
+  return isObjectLiteral(type)
+    ? `export interface ${name} ${type}\n`
+    : `export type ${name} = ${type};\n`;
+}
+
+function operationName(resolved: ResolvedOperation): string {
+  return camelCase(
+    resolved.operation.operationId ??
+      `${resolved.method} ${resolved.path.replace(/\{([^}]+)\}/g, "by $1")}`
+  );
+}
+
+function generateOperation(
+  g: Generator,
+  resolved: ResolvedOperation,
+  name: string
+): { types: string; method: string } {
+  const { method, path: pathTemplate, operation } = resolved;
+  const typeName = pascalCase(name);
+  const parameters = parametersOf(g, resolved);
+
+  const members: string[] = [];
+  let requestRequired = false;
+  const groups: Partial<Record<ParameterGroup, boolean>> = {};
+
+  for (const [group, key] of [
+    ["path", "path"],
+    ["query", "query"],
+    ["header", "headers"],
+  ] as const) {
+    const params = parameterGroup(g, parameters, group);
+    if (!params) continue;
+    groups[group] = true;
+    requestRequired ||= params.required;
+    members.push(`${key}${params.required ? "" : "?"}: ${params.type};`);
+  }
+
+  const hasBody = BODY_METHODS.has(method) && operation.requestBody;
+  if (hasBody) {
+    const body = g.spec.resolve<OpenApiRequestBody>(
+      operation.requestBody as OpenApiRequestBody
+    );
+    const required = body.required === true;
+    requestRequired ||= required;
+    members.push(`body${required ? "" : "?"}: ${bodyType(g, body.content)};`);
+  }
+
+  const requestType = members.length
+    ? `{\n${members.join("\n")}\n}`
+    : "Record<string, never>";
+  const types =
+    declare(`${typeName}Request`, requestType) +
+    "\n" +
+    declare(`${typeName}Responses`, responsesType(g, operation.responses));
+
+  let url = JSON.stringify(pathTemplate);
+  if (groups.path) {
+    g.helpers.add("toPath");
+    url = `toPath(${url}, request.path)`;
+  }
+
+  const overrides: string[] = [];
+  if (groups.query) {
+    g.helpers.add("toQueryParams");
+    overrides.push(
+      "params: { ...options.params, ...toQueryParams(request.query) },"
+    );
+  }
+  if (groups.header) {
+    g.helpers.add("toHeaders");
+    overrides.push(
+      "headers: { ...options.headers, ...toHeaders(request.headers) },"
+    );
+  }
+  const requestOptions = overrides.length
+    ? `{ ...options, ${overrides.join(" ")} }`
+    : "options";
+
+  const args = BODY_METHODS.has(method)
+    ? [url, hasBody ? "request.body" : "undefined", requestOptions]
+    : [url, requestOptions];
+  const summary = [operation.summary, operation.description]
+    .filter(Boolean)
+    .join("\n\n");
+  const docs = docComment(
+    `${summary ? `${summary}\n\n` : ""}\`${method.toUpperCase()} ${pathTemplate}\``
+  );
+  const responses = `TypedApiResponse<${typeName}Responses>`;
+
+  const methodSource =
+    docs +
+    `async ${name}(request: ${typeName}Request${requestRequired ? "" : " = {}"}, ` +
+    `options: RequestOptions = {}): Promise<${responses}> {\n` +
+    `const response = await this.client.${method}(${args.join(", ")});\n` +
+    `return response as ${responses};\n}\n`;
+
+  return { types, method: methodSource };
+}
+
+function defaultClassName(spec: OpenApiSpec): string {
+  const title = (spec.document.info?.title ?? "").replace(/\bapi\s*$/i, "");
+  return `${pascalCase(title || "Generated")}Api`;
+}
+
+/**
+ * Generates the source of a TypeScript module wrapping `ApiClient` with one
+ * typed method per operation of an OpenAPI 3 document. Every schema under
+ * `components.schemas` becomes an exported type, and each operation gets a
+ * `<Name>Request` type (path, query, header params and body) and a
+ * `<Name>Responses` map from documented status codes to body types.
+ *
+ * Only the methods `ApiClient` supports are generated; `HEAD`, `OPTIONS` and
+ * `TRACE` operations are skipped, as are `default` and `2XX`-style responses.
+ *
+ * @example
+ * const spec = await OpenApiSpec.load("openapi.yaml");
+ * await writeFile("users-api.ts", await generateClient(spec));
+ */
+export async function generateClient(
+  spec: OpenApiSpec,
+  options: GenerateClientOptions = {}
+): Promise<string> {
+  const g: Generator = {
+    spec,
+    typeOf: (schema) =>
+      schemaToType(schema, (ref) => spec.resolve<JsonSchema>({ $ref: ref })),
+    helpers: new Set(),
+    types: new Set(["ApiClient", "RequestOptions", "TypedApiResponse"]),
+  };
+  const importPath = options.importPath ?? "../api/index.js";
+  const className = options.className ?? defaultClassName(spec);
+
+  const schemas = (spec.document.components?.schemas ?? {}) as Record<
+    string,
+    JsonSchema
+  >;
+  const models = Object.entries(schemas).map(([name, schema]) => {
+    const typeName = componentTypeName(
+      `#/components/schemas/${name.replace(/~/g, "~0").replace(/\//g, "~1")}`
+    ) as string;
+    const description =
+      typeof schema === "object"
+        ? (schema.description as string | undefined)
+        : undefined;
+    return docComment(description) + declare(typeName, g.typeOf(schema));
+  });
+
+  const used = new Map<string, number>();
+  const operations = spec
+    .operations()
+    .filter((o) => CLIENT_METHODS.has(o.method))
+    .map((resolved) => {
+      const base = operationName(resolved);
+      const count = (used.get(base) ?? 0) + 1;
+      used.set(base, count);
+      return generateOperation(
+        g,
+        resolved,
+        count === 1 ? base : `${base}${count}`
+      );
+    });
+
+  const info = spec.document.info;
+  const title = [info?.title ?? "the API", info?.version]
+    .filter(Boolean)
+    .join(" ");
+  const header = docComment(
+    `Typed client for ${title}${options.source ? `, generated from ${options.source.split(path.sep).join("/")}` : ""}.\n` +
+      "Do not edit by hand; regenerate it with `npm run generate:api`."
+  );
+
+  const imports =
+    (g.helpers.size
+      ? `import { ${[...g.helpers].sort().join(", ")} } from "${importPath}";\n`
+      : "") +
+    `import type { ${[...g.types].sort().join(", ")} } from "${importPath}";\n`;
+
+  const source =
+    `${header}${imports}\n` +
+    models.join("\n") +
+    "\n" +
+    operations.map((o) => o.types).join("\n") +
+    "\n" +
+    docComment(
+      `Wraps an \`ApiClient\` with one typed method per operation of ${title}.`
+    ) +
+    `export class ${className} {\nprivate client: ApiClient;\n\n` +
+    `constructor(client: ApiClient) {\nthis.client = client;\n}\n\n` +
+    operations.map((o) => o.method).join("\n") +
+    "}\n";
+
+  if (options.format === false) return source;
+
+  const prettier = await import("prettier");
+  const config = await prettier.resolveConfig(
+    path.join(process.cwd(), "client.ts")
+  );
+  return prettier.format(source, { ...config, parser: "typescript" });
+}
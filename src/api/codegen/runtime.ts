@@ -0,0 +1,52 @@
+/**
+ * Helpers used by generated clients to turn typed parameters into the
+ * string maps `ApiClient` sends.
+ */
+
+type ParamValue = string | number | boolean | null | undefined;
+
+/**
+ * Converts typed query parameters to `RequestOptions.params`. Arrays repeat
+ * the parameter and `null`/`undefined` values are left out.
+ */
+export function toQueryParams(
+  query?: object
+): Record<string, string | string[]> {
+  const params: Record<string, string | string[]> = {};
+
+  for (const [name, value] of Object.entries(query ?? {})) {
+    if (Array.isArray(value)) {
+      params[name] = (value as ParamValue[])
+        .filter((item) => item != null)
+        .map(String);
+    } else if (value != null) {
+      params[name] = String(value);
+    }
+  }
+
+  return params;
+}
+
+/** Converts typed header parameters to a header map. */
+export function toHeaders(headers?: object): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers ?? {})
+      .filter(([, value]) => value != null)
+      .map(([name, value]) => [
+        name,
+        Array.isArray(value) ? value.join(",") : String(value),
+      ])
+  );
+}
+
+/** Fills `{name}` segments of a path template with encoded values. */
+export function toPath(template: string, path?: object): string {
+  const values = (path ?? {}) as Record<string, ParamValue>;
+  return template.replace(/\{([^}]+)\}/g, (_, name: string) => {
+    const value = values[name];
+    if (value == null) {
+      throw new Error(`Missing path parameter "${name}" for ${template}`);
+    }
+    return encodeURIComponent(String(value));
+  });
+}
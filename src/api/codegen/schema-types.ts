@@ -0,0 +1,184 @@
+import type { JsonSchema } from "../schema-validator.js";
+
+const SCHEMA_REF = /^#\/components\/schemas\/([^/]+)$/;
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** Converts `user-profile`, `user_profile` or `get /users/{id}` to `UserProfile`. */
+export function pascalCase(value: string): string {
+  const name = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name || "Unnamed";
+}
+
+export function camelCase(value: string): string {
+  const name = pascalCase(value);
+  return name[0].toLowerCase() + name.slice(1);
+}
+
+/** Quotes an object key unless it is a valid identifier. */
+export function propertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+/** Renders text as a JSDoc block, or an empty string. */
+export function docComment(text?: string): string {
+  if (!text?.trim()) return "";
+  const lines = text.trim().replace(/\*\//g, "*\\/").split("\n");
+  return lines.length === 1
+    ? `/** ${lines[0]} */\n`
+    : `/**\n${lines.map((line) => ` * ${line}`.trimEnd()).join("\n")}\n */\n`;
+}
+
+/** Returns the type name for a `#/components/schemas/...` reference. */
+export function componentTypeName(ref: string): string | undefined {
+  const match = SCHEMA_REF.exec(ref);
+  return match
+    ? pascalCase(match[1].replace(/~1/g, "/").replace(/~0/g, "~"))
+    : undefined;
+}
+
+/** Whether a type expression has a `|` or `&` outside any brackets. */
+function isCompound(type: string): boolean {
+  let depth = 0;
+  let quoted = false;
+  for (const char of type) {
+    if (char === '"') quoted = !quoted;
+    if (quoted) continue;
+    if ("{[(<".includes(char)) depth++;
+    if ("}])>".includes(char)) depth--;
+    if (depth === 0 && (char === "|" || char === "&")) return true;
+  }
+  return false;
+}
+
+/** Whether a type expression is a single `{ ... }` object type. */
+export function isObjectLiteral(type: string): boolean {
+  return type.startsWith("{") && type.endsWith("}") && !isCompound(type);
+}
+
+/** Wraps unions and intersections in parentheses where precedence matters. */
+function group(type: string): string {
+  return isCompound(type) ? `(${type})` : type;
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  if (unique.includes("unknown")) return "unknown";
+  return unique.length ? unique.join(" | ") : "never";
+}
+
+/**
+ * Renders a JSON Schema (OpenAPI 3.0 or 3.1 dialect) as a TypeScript type
+ * expression. `#/components/schemas/*` references become type names and
+ * other references are inlined through `resolve`.
+ */
+export function schemaToType(
+  schema: JsonSchema | undefined,
+  resolve: (ref: string) => JsonSchema
+): string {
+  if (schema === undefined || schema === true) return "unknown";
+  if (schema === false) return "never";
+
+  const node = schema as Record<string, unknown>;
+  const render = (child: unknown) =>
+    schemaToType(child as JsonSchema | undefined, resolve);
+
+  if (typeof node.$ref === "string") {
+    return componentTypeName(node.$ref) ?? render(resolve(node.$ref));
+  }
+
+  const nullable = node.nullable === true;
+  const withNull = (type: string) =>
+    nullable && type !== "unknown" ? `${type} | null` : type;
+
+  if ("const" in node) return withNull(JSON.stringify(node.const));
+  if (Array.isArray(node.enum)) {
+    return withNull(union(node.enum.map((value) => JSON.stringify(value))));
+  }
+
+  const variants = (node.oneOf ?? node.anyOf) as unknown[] | undefined;
+  if (Array.isArray(variants)) {
+    return withNull(union(variants.map((v) => group(render(v)))));
+  }
+  if (Array.isArray(node.allOf)) {
+    const parts = node.allOf.map((part) => render(part));
+    return withNull(
+      parts.length === 1
+        ? parts[0]
+        : parts.map((part) => group(part)).join(" & ")
+    );
+  }
+
+  const types = Array.isArray(node.type)
+    ? (node.type as string[])
+    : typeof node.type === "string"
+      ? [node.type]
+      : node.properties
+        ? ["object"]
+        : node.items
+          ? ["array"]
+          : [];
+  if (types.length === 0) return "unknown";
+
+  return withNull(
+    union(
+      types.map((type) => {
+        switch (type) {
+          case "string":
+            return "string";
+          case "integer":
+          case "number":
+            return "number";
+          case "boolean":
+            return "boolean";
+          case "null":
+            return "null";
+          case "array":
+            return `${group(render(node.items))}[]`;
+          case "object":
+            return objectType(node, render);
+          default:
+            return "unknown";
+        }
+      })
+    )
+  );
+}
+
+function objectType(
+  node: Record<string, unknown>,
+  render: (child: unknown) => string
+): string {
+  const properties = (node.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((node.required ?? []) as string[]);
+  const additional = node.additionalProperties;
+
+  const members = Object.entries(properties).map(([name, property]) => {
+    const description =
+      typeof property === "object"
+        ? (property.description as string | undefined)
+        : undefined;
+    const optional = required.has(name) ? "" : "?";
+    return `${docComment(description)}${propertyKey(name)}${optional}: ${render(property)};`;
+  });
+
+  const extra =
+    additional && typeof additional === "object"
+      ? `Record<string, ${render(additional)}>`
+      : undefined;
+
+  if (members.length === 0) {
+    return (
+      extra ??
+      (additional === false
+        ? "Record<string, never>"
+        : "Record<string, unknown>")
+    );
+  }
+
+  const body = `{\n${members.join("\n")}\n}`;
+  return extra ? `${body} & ${extra}` : body;
+}
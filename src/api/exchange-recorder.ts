@@ -0,0 +1,361 @@
+import type { APIResponse, TestInfo } from "@playwright/test";
+import type { ApiRequest } from "./middleware.js";
+
+const REDACTED = "[REDACTED]";
+
+const SECRET_HEADERS: (string | RegExp)[] = [
+  "authorization",
+  "proxy-authorization",
+  "cookie",
+  "set-cookie",
+  /token|secret|password|api[-_]?key|signature/i,
+];
+
+const SECRET_FIELDS: (string | RegExp)[] = [
+  /password|passwd|secret|token|api[-_]?key|client[-_]?secret/i,
+];
+
+export interface ExchangeRecorderOptions {
+  /** Header names whose values are masked. Extends the built-in list. */
+  redactHeaders?: (string | RegExp)[];
+  /** JSON and form body fields and query parameters whose values are masked. */
+  redactFields?: (string | RegExp)[];
+  /** Bodies longer than this many characters are truncated. Defaults to 65536. */
+  maxBodySize?: number;
+}
+
+export interface RecordedMessage {
+  headers: Record<string, string>;
+  body?: string;
+}
+
+/** One request as it went over the wire, with secrets masked. */
+export interface HttpExchange {
+  startedAt: string;
+  /** Time until the response arrived, in ms. */
+  duration: number;
+  request: RecordedMessage & { method: string; url: string };
+  response?: RecordedMessage & { status: number; statusText: string };
+  /** Set when the request failed without a response. */
+  error?: string;
+}
+
+function matches(name: string, patterns: (string | RegExp)[]): boolean {
+  return patterns.some((pattern) =>
+    typeof pattern === "string"
+      ? pattern.toLowerCase() === name.toLowerCase()
+      : pattern.test(name)
+  );
+}
+
+/** Whether a header usually carries credentials, e.g. `Authorization`. */
+export function isSecretHeader(name: string): boolean {
+  return matches(name, SECRET_HEADERS);
+}
+
+function redactValue(value: unknown, fields: (string | RegExp)[]): unknown {
+  if (Array.isArray(value)) return value.map((v) => redactValue(v, fields));
+  if (value === null || typeof value !== "object") return value;
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      matches(key, fields) ? REDACTED : redactValue(field, fields),
+    ])
+  );
+}
+
+/**
+ * Masks secret-looking fields, e.g. `password`, in a JSON or form-urlencoded
+ * body. Bodies without any are returned as they are.
+ */
+export function redactBody(
+  text: string,
+  contentType = "",
+  fields: (string | RegExp)[] = SECRET_FIELDS
+): string {
+  if (/x-www-form-urlencoded/i.test(contentType)) {
+    const params = new URLSearchParams(text);
+    const secrets = [...new Set(params.keys())].filter((name) =>
+      matches(name, fields)
+    );
+    if (secrets.length === 0) return text;
+    for (const name of secrets) params.set(name, REDACTED);
+    return params.toString();
+  }
+  try {
+    const parsed: unknown = JSON.parse(text);
+    const masked = JSON.stringify(redactValue(parsed, fields));
+    return masked === JSON.stringify(parsed) ? text : masked;
+  } catch {
+    return text;
+  }
+}
+
+export function isTextual(contentType = ""): boolean {
+  return /^text\/|[/+](json|xml)\b|x-www-form-urlencoded|javascript/i.test(
+    contentType
+  );
+}
+
+function headerValue(
+  headers: Record<string, string>,
+  name: string
+): string | undefined {
+  const key = Object.keys(headers).find(
+    (h) => h.toLowerCase() === name.toLowerCase()
+  );
+  return key === undefined ? undefined : headers[key];
+}
+
+/** Whether request data is an object that is sent as JSON. */
+function isSerialized(data: unknown): boolean {
+  return (
+    data !== undefined &&
+    data !== null &&
+    typeof data !== "string" &&
+    !Buffer.isBuffer(data)
+  );
+}
+
+function toNameValues(
+  headers: Record<string, string>
+): { name: string; value: string }[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Renders an exchange as a cURL command that repeats the request. */
+export function toCurl(exchange: HttpExchange): string {
+  const { method, url, headers, body } = exchange.request;
+  const parts = [`curl -X ${method} ${shellQuote(url)}`];
+
+  for (const [name, value] of Object.entries(headers)) {
+    parts.push(`-H ${shellQuote(`${name}: ${value}`)}`);
+  }
+  if (body !== undefined) parts.push(`--data-raw ${shellQuote(body)}`);
+
+  return parts.join(" \\\n  ");
+}
+
+/**
+ * Collects every request/response exchange sent by an `ApiClient`, for
+ * attaching to test reports. Header values, query parameters and JSON body
+ * fields that look like secrets are masked as they are recorded.
+ *
+ * @example
+ * const recorder = new ExchangeRecorder();
+ * const client = new ApiClient(request, { recorder });
+ * // ...
+ * await recorder.attach(testInfo);
+ */
+export class ExchangeRecorder {
+  readonly exchanges: HttpExchange[] = [];
+  private headerPatterns: (string | RegExp)[];
+  private fieldPatterns: (string | RegExp)[];
+  private maxBodySize: number;
+
+  constructor(options: ExchangeRecorderOptions = {}) {
+    this.headerPatterns = [...SECRET_HEADERS, ...(options.redactHeaders ?? [])];
+    this.fieldPatterns = [...SECRET_FIELDS, ...(options.redactFields ?? [])];
+    this.maxBodySize = options.maxBodySize ?? 65536;
+  }
+
+  /** Records an exchange. Called by `ApiClient` for every request it sends. */
+  async record(
+    request: ApiRequest,
+    started: number,
+    outcome: { response: APIResponse } | { error: unknown }
+  ): Promise<void> {
+    const headers = this.redactHeaders(request.headers);
+    if (
+      isSerialized(request.data) &&
+      headerValue(headers, "content-type") === undefined
+    ) {
+      // Playwright sends objects as JSON and sets this header itself
+      headers["Content-Type"] = "application/json";
+    }
+    const exchange: HttpExchange = {
+      startedAt: new Date(started).toISOString(),
+      duration: Date.now() - started,
+      request: {
+        method: request.method,
+        url: this.redactUrl(request.url),
+        headers,
+        body: this.requestBody(request),
+      },
+    };
+
+    if ("response" in outcome) {
+      const { response } = outcome;
+      const headers = response.headers();
+      exchange.response = {
+        status: response.status(),
+        statusText: response.statusText(),
+        headers: this.redactHeaders(headers),
+        body: await this.responseBody(response, headers["content-type"]),
+      };
+    } else {
+      exchange.error =
+        outcome.error instanceof Error
+          ? outcome.error.message
+          : String(outcome.error);
+    }
+
+    this.exchanges.push(exchange);
+  }
+
+  clear(): void {
+    this.exchanges.length = 0;
+  }
+
+  /** The recorded exchanges as a HAR 1.2 log. */
+  toHar(): object {
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "ApiClient", version: "1.0" },
+        entries: this.exchanges.map((e) => {
+          const url = new URL(e.request.url);
+          const requestType = headerValue(e.request.headers, "content-type");
+          const responseBody = e.response?.body ?? "";
+
+          return {
+            startedDateTime: e.startedAt,
+            time: e.duration,
+            request: {
+              method: e.request.method,
+              url: e.request.url,
+              httpVersion: "HTTP/1.1",
+              headers: toNameValues(e.request.headers),
+              queryString: [...url.searchParams].map(([name, value]) => ({
+                name,
+                value,
+              })),
+              cookies: [],
+              headersSize: -1,
+              bodySize: e.request.body?.length ?? 0,
+              ...(e.request.body !== undefined && {
+                postData: {
+                  mimeType: requestType ?? "application/json",
+                  text: e.request.body,
+                },
+              }),
+            },
+            response: {
+              status: e.response?.status ?? 0,
+              statusText: e.response?.statusText ?? e.error ?? "",
+              httpVersion: "HTTP/1.1",
+              headers: toNameValues(e.response?.headers ?? {}),
+              cookies: [],
+              content: {
+                size: responseBody.length,
+                mimeType:
+                  headerValue(e.response?.headers ?? {}, "content-type") ?? "",
+                text: responseBody,
+              },
+              redirectURL: "",
+              headersSize: -1,
+              bodySize: responseBody.length,
+            },
+            cache: {},
+            timings: { send: 0, wait: e.duration, receive: 0 },
+          };
+        }),
+      },
+    };
+  }
+
+  /** cURL commands for every recorded request, separated by blank lines. */
+  toCurl(): string {
+    return this.exchanges
+      .map((e) => {
+        const outcome = e.response
+          ? `${e.response.status} ${e.response.statusText}`
+          : `failed: ${e.error}`;
+        return `# ${e.request.method} ${e.request.url} -> ${outcome}\n${toCurl(e)}`;
+      })
+      .join("\n\n");
+  }
+
+  /**
+   * Attaches the exchanges to the test as `api-exchanges.har` and
+   * `api-exchanges.curl.sh`. Does nothing when nothing was recorded.
+   */
+  async attach(testInfo: TestInfo): Promise<void> {
+    if (this.exchanges.length === 0) return;
+
+    await testInfo.attach("api-exchanges.har", {
+      body: JSON.stringify(this.toHar(), null, 2),
+      contentType: "application/json",
+    });
+    await testInfo.attach("api-exchanges.curl.sh", {
+      body: this.toCurl(),
+      contentType: "text/plain",
+    });
+  }
+
+  private redactHeaders(
+    headers: Record<string, string>
+  ): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [
+        name,
+        matches(name, this.headerPatterns) ? REDACTED : value,
+      ])
+    );
+  }
+
+  private redactUrl(url: URL): string {
+    const copy = new URL(url);
+    for (const name of new Set(copy.searchParams.keys())) {
+      if (matches(name, [...this.fieldPatterns, ...this.headerPatterns])) {
+        copy.searchParams.set(name, REDACTED);
+      }
+    }
+    return copy.toString();
+  }
+
+  private truncate(text: string): string {
+    return text.length > this.maxBodySize
+      ? `${text.slice(0, this.maxBodySize)}... (${text.length} chars)`
+      : text;
+  }
+
+  private requestBody(request: ApiRequest): string | undefined {
+    const { data } = request;
+    if (data === undefined || data === null) return undefined;
+    const contentType = headerValue(request.headers, "content-type");
+    if (Buffer.isBuffer(data)) {
+      return isTextual(contentType)
+        ? this.truncate(
+            redactBody(data.toString("utf8"), contentType, this.fieldPatterns)
+          )
+        : `<${data.length} bytes>`;
+    }
+    if (typeof data === "string") {
+      return this.truncate(redactBody(data, contentType, this.fieldPatterns));
+    }
+    return this.truncate(JSON.stringify(redactValue(data, this.fieldPatterns)));
+  }
+
+  private async responseBody(
+    response: APIResponse,
+    contentType?: string
+  ): Promise<string | undefined> {
+    try {
+      const body = await response.body();
+      if (body.length === 0) return undefined;
+      return isTextual(contentType)
+        ? this.truncate(
+            redactBody(body.toString("utf8"), contentType, this.fieldPatterns)
+          )
+        : `<${body.length} bytes>`;
+    } catch (error) {
+      return `<body unavailable: ${error instanceof Error ? error.message : String(error)}>`;
+    }
+  }
+}
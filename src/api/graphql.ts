@@ -0,0 +1,205 @@
+import { createHash } from "node:crypto";
+import type { ApiClient, ApiResponse, RequestOptions } from "./api-client.js";
+
+/**
+ * A GraphQL document string that carries its result and variable types, so
+ * `query()` and `mutate()` infer them.
+ */
+export type TypedDocument<TData, TVariables> = string & {
+  readonly __types?: [TData, TVariables];
+};
+
+export type GraphQLVariables = Record<string, unknown>;
+
+/** An entry of a response's `errors` array. */
+export interface GraphQLErrorEntry {
+  message: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+  extensions?: Record<string, unknown>;
+}
+
+/** The parsed response of `execute()`. */
+export interface GraphQLResult<TData> {
+  data?: TData | null;
+  errors?: GraphQLErrorEntry[];
+  extensions?: Record<string, unknown>;
+  response: ApiResponse;
+}
+
+export interface GraphQLClientOptions {
+  /** Path or URL of the GraphQL endpoint. Defaults to `/graphql`. */
+  endpoint?: string;
+  /** Headers sent with every operation, on top of the client's. */
+  headers?: Record<string, string>;
+  /**
+   * Sends automatic persisted queries: the query's SHA-256 hash first, and
+   * the full query only when the server does not know the hash yet.
+   */
+  persistedQueries?: boolean;
+}
+
+export interface GraphQLRequestOptions extends RequestOptions {
+  /** Needed when the document holds several operations. */
+  operationName?: string;
+}
+
+/** Wraps a typed document, e.g. `typedDocument<{ user: User }, { id: string }>(...)`. */
+export function typedDocument<TData, TVariables = GraphQLVariables>(
+  source: string
+): TypedDocument<TData, TVariables> {
+  return source as TypedDocument<TData, TVariables>;
+}
+
+/** Name of the first named operation in a document. */
+function operationOf(document: string): string | undefined {
+  return /\b(?:query|mutation|subscription)\s+(\w+)/.exec(document)?.[1];
+}
+
+function describeError(error: GraphQLErrorEntry): string {
+  const path = error.path ? ` (path: ${error.path.join(".")})` : "";
+  const code = error.extensions?.code ? ` [${error.extensions.code}]` : "";
+  return `  - ${error.message}${path}${code}`;
+}
+
+function isPersistedQueryNotFound(errors: GraphQLErrorEntry[] = []): boolean {
+  return errors.some(
+    (e) =>
+      e.extensions?.code === "PERSISTED_QUERY_NOT_FOUND" ||
+      e.message === "PersistedQueryNotFound"
+  );
+}
+
+/**
+ * Thrown by `query()` and `mutate()` when the response has `errors` or no
+ * `data`. Lists every error with its path and code.
+ */
+export class GraphQLResponseError extends Error {
+  readonly errors: GraphQLErrorEntry[];
+  readonly response: ApiResponse;
+
+  constructor(
+    errors: GraphQLErrorEntry[],
+    response: ApiResponse,
+    operation?: string
+  ) {
+    const name = operation ? ` for ${operation}` : "";
+    super(
+      errors.length > 0
+        ? `GraphQL errors${name} from ${response.url} (${response.status}):\n` +
+            errors.map(describeError).join("\n")
+        : `GraphQL response${name} from ${response.url} (${response.status}) has no data`
+    );
+    this.name = "GraphQLResponseError";
+    this.errors = errors;
+    this.response = response;
+  }
+}
+
+/**
+ * A GraphQL client that sends operations through an `ApiClient`, so auth,
+ * retries, middleware, exchange logs and cassettes apply as for REST calls.
+ *
+ * @example
+ * const GetUser = typedDocument<{ user: User }, { id: string }>(`
+ *   query GetUser($id: ID!) { user(id: $id) { id name } }
+ * `);
+ * const gql = new GraphQLClient(api, { endpoint: "/graphql" });
+ * const { user } = await gql.query(GetUser, { id: "1" });
+ */
+export class GraphQLClient {
+  private api: ApiClient;
+  private endpoint: string;
+  private headers: Record<string, string>;
+  private persistedQueries: boolean;
+
+  constructor(api: ApiClient, options: GraphQLClientOptions = {}) {
+    this.api = api;
+    this.endpoint = options.endpoint ?? "/graphql";
+    this.headers = options.headers ?? {};
+    this.persistedQueries = options.persistedQueries ?? false;
+  }
+
+  /**
+   * Runs a query and returns its `data`. Throws a `GraphQLResponseError`
+   * when the response has errors, so the test fails with them listed.
+   */
+  async query<TData = unknown, TVariables = GraphQLVariables>(
+    document: TypedDocument<TData, TVariables> | string,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions
+  ): Promise<TData> {
+    const result = await this.execute(document, variables, options);
+    return this.dataOf(result, options?.operationName ?? operationOf(document));
+  }
+
+  /** Runs a mutation and returns its `data`; throws like `query()`. */
+  async mutate<TData = unknown, TVariables = GraphQLVariables>(
+    document: TypedDocument<TData, TVariables> | string,
+    variables?: TVariables,
+    options?: GraphQLRequestOptions
+  ): Promise<TData> {
+    const result = await this.execute(document, variables, options);
+    return this.dataOf(result, options?.operationName ?? operationOf(document));
+  }
+
+  /**
+   * Sends an operation and returns the parsed response without checking
+   * `errors`, for tests that expect them.
+   */
+  async execute<TData = unknown, TVariables = GraphQLVariables>(
+    document: TypedDocument<TData, TVariables> | string,
+    variables?: TVariables,
+    options: GraphQLRequestOptions = {}
+  ): Promise<GraphQLResult<TData>> {
+    const { operationName, ...request } = options;
+    const payload = { query: document, variables, operationName };
+
+    if (this.persistedQueries) {
+      const persistedQuery = {
+        version: 1,
+        sha256Hash: createHash("sha256").update(document).digest("hex"),
+      };
+      const result = await this.send<TData>(
+        { ...payload, query: undefined, extensions: { persistedQuery } },
+        request
+      );
+      if (!isPersistedQueryNotFound(result.errors)) return result;
+      return this.send<TData>(
+        { ...payload, extensions: { persistedQuery } },
+        request
+      );
+    }
+
+    return this.send<TData>(payload, request);
+  }
+
+  private async send<TData>(
+    payload: Record<string, unknown>,
+    options: RequestOptions
+  ): Promise<GraphQLResult<TData>> {
+    const response = await this.api.post(this.endpoint, payload, {
+      ...options,
+      headers: { ...this.headers, ...options.headers },
+    });
+
+    const body = (await response.json().catch(() => undefined)) as
+      | Omit<GraphQLResult<TData>, "response">
+      | undefined;
+    // A non-2xx answer without a GraphQL body is a transport failure
+    if (!body || typeof body !== "object") await response.orThrow();
+
+    return { ...body, response };
+  }
+
+  private dataOf<TData>(
+    result: GraphQLResult<TData>,
+    operation?: string
+  ): TData {
+    const { data, errors = [], response } = result;
+    if (errors.length > 0 || data === undefined || data === null) {
+      throw new GraphQLResponseError(errors, response, operation);
+    }
+    return data;
+  }
+}
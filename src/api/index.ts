@@ -1,2 +1,126 @@
 export { ApiClient, ApiResponse } from "./api-client.js";
-export type { ApiClientConfig, RequestOptions } from "./api-client.js";
+export type {
+  ApiClientConfig,
+  ApiFailure,
+  ApiResult,
+  ApiSuccess,
+  RequestOptions,
+  ResponseMap,
+  SendOptions,
+  TypedApiResponse,
+} from "./api-client.js";
+export {
+  GraphQLClient,
+  GraphQLResponseError,
+  typedDocument,
+} from "./graphql.js";
+export type {
+  GraphQLClientOptions,
+  GraphQLErrorEntry,
+  GraphQLRequestOptions,
+  GraphQLResult,
+  GraphQLVariables,
+  TypedDocument,
+} from "./graphql.js";
+export {
+  CursorPagination,
+  LinkHeaderPagination,
+  OffsetPagination,
+  PagePagination,
+  Paginator,
+  parseLinkHeader,
+} from "./pagination.js";
+export type {
+  BodySelector,
+  CursorPaginationOptions,
+  LinkHeaderPaginationOptions,
+  NextPage,
+  OffsetPaginationOptions,
+  Page,
+  PagePaginationOptions,
+  PaginateOptions,
+  PaginationStrategy,
+} from "./pagination.js";
+export { RequestBody, mimeType } from "./request-body.js";
+export type {
+  EncodedBody,
+  FormValue,
+  MultipartFile,
+  MultipartValue,
+} from "./request-body.js";
+export {
+  parseCsv,
+  parseEventStream,
+  parseNdjson,
+  parseXml,
+} from "./response-parsers.js";
+export type { ServerSentEvent, XmlOptions } from "./response-parsers.js";
+export { ApiError } from "./api-error.js";
+export type { ApiErrorContext, ProblemDetails } from "./api-error.js";
+export { correlationId, responseTime } from "./middleware.js";
+export type {
+  ApiRequest,
+  Middleware,
+  NextHandler,
+  RequestTiming,
+} from "./middleware.js";
+export {
+  ApiKeyAuth,
+  BasicAuth,
+  BearerAuth,
+  HmacSigner,
+  OAuth2ClientCredentials,
+  authFromEnv,
+} from "./auth.js";
+export type {
+  ApiKeyAuthOptions,
+  AuthStrategy,
+  HmacSignerOptions,
+  OAuth2ClientCredentialsOptions,
+} from "./auth.js";
+export { parseRetryAfter, retry, retryAttempts } from "./retry.js";
+export type { RetryAttempt, RetryPolicy } from "./retry.js";
+export {
+  Cassette,
+  CassetteMismatchError,
+  RecordedResponse,
+  cassettePathFor,
+} from "./cassette.js";
+export type {
+  CassetteInteraction,
+  CassetteMatchField,
+  CassetteMode,
+  CassetteOptions,
+  RecordedResponseInit,
+} from "./cassette.js";
+export { MockRoute, MockServer } from "./mock-server.js";
+export type {
+  MockHandler,
+  MockReply,
+  MockRequest,
+  MockRequestFilter,
+  MockServerOptions,
+} from "./mock-server.js";
+export { ExchangeRecorder, toCurl } from "./exchange-recorder.js";
+export type {
+  ExchangeRecorderOptions,
+  HttpExchange,
+  RecordedMessage,
+} from "./exchange-recorder.js";
+export { generateClient } from "./codegen/generate-client.js";
+export type { GenerateClientOptions } from "./codegen/generate-client.js";
+export { toHeaders, toPath, toQueryParams } from "./codegen/runtime.js";
+export { OpenApiSpec } from "./openapi.js";
+export type {
+  HttpMethod,
+  OpenApiDocument,
+  OpenApiOperation,
+  OperationRef,
+  ResolvedOperation,
+} from "./openapi.js";
+export {
+  SchemaValidationError,
+  formatViolations,
+  validateSchema,
+} from "./schema-validator.js";
+export type { JsonSchema, SchemaViolation } from "./schema-validator.js";
@@ -0,0 +1,68 @@
+import { randomUUID } from "node:crypto";
+import type { APIResponse } from "@playwright/test";
+
+/** A request on its way through the pipeline. Middleware may change any field. */
+export interface ApiRequest {
+  method: string;
+  /** Final URL including query parameters. */
+  url: URL;
+  headers: Record<string, string>;
+  data?: unknown;
+  timeout: number;
+}
+
+export type NextHandler = (request: ApiRequest) => Promise<APIResponse>;
+
+/**
+ * Wraps sending a request. Call `next` to continue down the pipeline; the
+ * response it resolves with may be inspected, replaced or turned into an
+ * error before it is returned.
+ *
+ * @example
+ * client.use(async (request, next) => {
+ *   request.headers["X-Tenant"] = "acme";
+ *   const response = await next(request);
+ *   if (response.status() === 503) throw new Error("Service unavailable");
+ *   return response;
+ * });
+ */
+export type Middleware = (
+  request: ApiRequest,
+  next: NextHandler
+) => Promise<APIResponse>;
+
+/** Adds a generated correlation ID header unless the request already has one. */
+export function correlationId(
+  header = "X-Correlation-Id",
+  generate: () => string = randomUUID
+): Middleware {
+  return (request, next) => {
+    request.headers[header] ??= generate();
+    return next(request);
+  };
+}
+
+export interface RequestTiming {
+  method: string;
+  url: string;
+  status: number;
+  /** Time until the response arrived, in ms. */
+  duration: number;
+}
+
+/** Reports how long each request took, e.g. to attach timings to a test. */
+export function responseTime(
+  record: (timing: RequestTiming) => void
+): Middleware {
+  return async (request, next) => {
+    const started = performance.now();
+    const response = await next(request);
+    record({
+      method: request.method,
+      url: request.url.toString(),
+      status: response.status(),
+      duration: performance.now() - started,
+    });
+    return response;
+  };
+}
@@ -0,0 +1,312 @@
+import { createServer } from "node:http";
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { sleep } from "../utils/index.js";
+import { parseBody } from "./response-parsers.js";
+
+/** A request received by a `MockServer`. */
+export interface MockRequest {
+  method: string;
+  /** Path without the query string. */
+  path: string;
+  /** Query parameters; a repeated parameter keeps its last value. */
+  query: Record<string, string>;
+  /** Header names are lower case. */
+  headers: Record<string, string>;
+  /** Raw body text. */
+  text: string;
+  /** Parsed JSON body, or the raw text when the body is not JSON. */
+  body: unknown;
+  /** Values of the `:name` segments of the route that answered. */
+  params: Record<string, string>;
+}
+
+export interface MockReply {
+  status?: number;
+  /** Objects and arrays are sent as JSON, strings as text. */
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export type MockHandler = (
+  request: MockRequest
+) => MockReply | Promise<MockReply>;
+
+/** Expected parts of a received request, compared as subsets. */
+export interface MockRequestFilter {
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface MockServerOptions {
+  /** Defaults to 127.0.0.1. */
+  host?: string;
+  /** Defaults to 0, a random free port. */
+  port?: number;
+}
+
+/** Whether `actual` contains every field of `expected`, recursively. */
+function isSubset(actual: unknown, expected: unknown): boolean {
+  if (expected === null || typeof expected !== "object") {
+    return Object.is(actual, expected);
+  }
+  if (actual === null || typeof actual !== "object") return false;
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, i) => isSubset(actual[i], item))
+    );
+  }
+  return Object.entries(expected).every(([key, value]) =>
+    isSubset((actual as Record<string, unknown>)[key], value)
+  );
+}
+
+function lowerCaseKeys(
+  headers: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+}
+
+/** Compiles `/users/:id/*` into a regex with named groups. */
+function compilePath(path: string): RegExp {
+  const pattern = path
+    .split("/")
+    .map((segment) =>
+      segment === "*"
+        ? ".*"
+        : segment.startsWith(":")
+          ? `(?<${segment.slice(1)}>[^/]+)`
+          : segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("/");
+  return new RegExp(`^${pattern}/?$`);
+}
+
+/**
+ * A stubbed route. Answers with its reply until `times` runs out, and keeps
+ * every request it answered in `calls`.
+ */
+export class MockRoute {
+  readonly method: string;
+  readonly path: string;
+  readonly calls: MockRequest[] = [];
+  private pattern: RegExp;
+  private handler: MockHandler = () => ({ status: 200 });
+  private remaining = Infinity;
+  private latency = 0;
+
+  constructor(method: string, path: string) {
+    this.method = method.toUpperCase();
+    this.path = path;
+    this.pattern = compilePath(path);
+  }
+
+  /** Answers with a fixed status, body and headers. */
+  reply(status: number, body?: unknown, headers?: Record<string, string>): this;
+  /** Answers with whatever `handler` returns for each request. */
+  reply(handler: MockHandler): this;
+  reply(
+    statusOrHandler: number | MockHandler,
+    body?: unknown,
+    headers?: Record<string, string>
+  ): this {
+    this.handler =
+      typeof statusOrHandler === "function"
+        ? statusOrHandler
+        : () => ({ status: statusOrHandler, body, headers });
+    return this;
+  }
+
+  /** Answers only the next `count` matching requests. */
+  times(count: number): this {
+    this.remaining = count;
+    return this;
+  }
+
+  /** Waits `ms` before answering. */
+  delay(ms: number): this {
+    this.latency = ms;
+    return this;
+  }
+
+  /** Route params when the route answers `method` and `path`. */
+  match(method: string, path: string): Record<string, string> | undefined {
+    if (this.remaining <= 0) return undefined;
+    if (this.method !== "*" && this.method !== method.toUpperCase()) {
+      return undefined;
+    }
+    const match = this.pattern.exec(path);
+    return match ? { ...match.groups } : undefined;
+  }
+
+  /** Answers a request. Called by `MockServer`. */
+  async handle(request: MockRequest): Promise<MockReply> {
+    this.remaining--;
+    this.calls.push(request);
+    if (this.latency > 0) await sleep(this.latency);
+    return this.handler(request);
+  }
+}
+
+/**
+ * A local HTTP server for hermetic API tests. Routes are stubbed with
+ * `on()`; the most recently added route that matches a request answers it,
+ * and a request no route matches gets a `501` and is kept in `unmatched`.
+ * Every request received is kept in `requests`.
+ *
+ * @example
+ * const server = await MockServer.start();
+ * server.on("POST", "/users").reply(201, { id: 1 });
+ * server.on("GET", "/users/:id").reply(({ params }) => ({
+ *   body: { id: Number(params.id) },
+ * }));
+ * const client = new ApiClient(request, { baseURL: server.url });
+ * // ...
+ * await server.stop();
+ */
+export class MockServer {
+  readonly requests: MockRequest[] = [];
+  readonly unmatched: MockRequest[] = [];
+  private routes: MockRoute[] = [];
+  private server: Server;
+  private address?: AddressInfo;
+
+  private constructor() {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((error: unknown) => {
+        res.writeHead(500, { "content-type": "text/plain" });
+        res.end(error instanceof Error ? error.stack : String(error));
+      });
+    });
+  }
+
+  static async start(options: MockServerOptions = {}): Promise<MockServer> {
+    const mock = new MockServer();
+    await new Promise<void>((resolve, reject) => {
+      mock.server.once("error", reject);
+      mock.server.listen(options.port ?? 0, options.host ?? "127.0.0.1", () =>
+        resolve()
+      );
+    });
+    mock.address = mock.server.address() as AddressInfo;
+    return mock;
+  }
+
+  /** Base URL of the running server, e.g. `http://127.0.0.1:53127`. */
+  get url(): string {
+    if (!this.address) throw new Error("MockServer is not running");
+    const { address, family, port } = this.address;
+    const host = family === "IPv6" ? `[${address}]` : address;
+    return `http://${host}:${port}`;
+  }
+
+  /**
+   * Stubs `method` (or `*` for any) on `path`. `:name` segments match one
+   * path segment and a `*` segment matches the rest of the path.
+   */
+  on(method: string, path: string): MockRoute {
+    const route = new MockRoute(method, path);
+    this.routes.unshift(route);
+    return route;
+  }
+
+  /** Received requests for `method` and `path`, optionally filtered further. */
+  received(
+    method: string,
+    path: string,
+    filter: MockRequestFilter = {}
+  ): MockRequest[] {
+    const route = new MockRoute(method, path);
+    return this.requests.filter(
+      (request) =>
+        route.match(request.method, request.path) !== undefined &&
+        isSubset(request.query, filter.query ?? {}) &&
+        isSubset(request.headers, lowerCaseKeys(filter.headers ?? {})) &&
+        (filter.body === undefined || isSubset(request.body, filter.body))
+    );
+  }
+
+  /** Removes all routes and forgets received requests. */
+  reset(): void {
+    this.routes = [];
+    this.requests.length = 0;
+    this.unmatched.length = 0;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+    this.address = undefined;
+  }
+
+  private async handle(
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const text = Buffer.concat(chunks).toString("utf8");
+    const url = new URL(req.url ?? "/", "http://mock");
+
+    const request: MockRequest = {
+      method: req.method ?? "GET",
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(
+        Object.entries(req.headers).map(([name, value]) => [
+          name,
+          [value ?? ""].flat().join(", "),
+        ])
+      ),
+      text,
+      body: parseBody(text),
+      params: {},
+    };
+    this.requests.push(request);
+
+    for (const route of this.routes) {
+      const params = route.match(request.method, request.path);
+      if (params) {
+        request.params = params;
+        return send(res, await route.handle(request));
+      }
+    }
+
+    this.unmatched.push(request);
+    send(res, {
+      status: 501,
+      body: { error: `No mock route for ${request.method} ${request.path}` },
+    });
+  }
+}
+
+function send(res: ServerResponse, reply: MockReply): void {
+  const { status = 200, body, headers = {} } = reply;
+  const contentType =
+    body === undefined
+      ? undefined
+      : Buffer.isBuffer(body)
+        ? "application/octet-stream"
+        : typeof body === "string"
+          ? "text/plain"
+          : "application/json";
+  const payload =
+    body === undefined
+      ? ""
+      : Buffer.isBuffer(body) || typeof body === "string"
+        ? body
+        : JSON.stringify(body);
+
+  res.writeHead(status, {
+    ...(contentType && { "content-type": contentType }),
+    ...lowerCaseKeys(headers),
+  });
+  res.end(payload);
+}
@@ -0,0 +1,245 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { JsonSchema } from "./schema-validator.js";
+
+const HTTP_METHODS = [
+  "get",
+  "put",
+  "post",
+  "delete",
+  "options",
+  "head",
+  "patch",
+  "trace",
+] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+export interface OpenApiMediaType {
+  schema?: JsonSchema;
+}
+
+export interface OpenApiResponse {
+  $ref?: string;
+  description?: string;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiParameter {
+  $ref?: string;
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  description?: string;
+  required?: boolean;
+  schema?: JsonSchema;
+}
+
+export interface OpenApiRequestBody {
+  $ref?: string;
+  required?: boolean;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: OpenApiRequestBody;
+  responses?: Record<string, OpenApiResponse>;
+}
+
+export type OpenApiPathItem = Partial<Record<HttpMethod, OpenApiOperation>> & {
+  parameters?: OpenApiParameter[];
+};
+
+export interface OpenApiDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  paths?: Record<string, OpenApiPathItem>;
+  components?: Record<string, unknown>;
+}
+
+/** Identifies an operation by `operationId`, or by path template and method. */
+export type OperationRef =
+  | { operationId: string }
+  | { path: string; method: string };
+
+export interface ResolvedOperation {
+  path: string;
+  method: HttpMethod;
+  operation: OpenApiOperation;
+}
+
+function templateToRegExp(template: string): RegExp {
+  const pattern = template
+    .split(/\{[^}]+\}/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[^/]+");
+  return new RegExp(`^${pattern}$`);
+}
+
+function mediaTypeMatches(candidate: string, wanted: string): boolean {
+  const base = (value: string) => value.split(";")[0].trim().toLowerCase();
+  return base(candidate) === base(wanted);
+}
+
+/**
+ * A local OpenAPI 3 document, used to look up operations and the JSON
+ * Schemas of their responses.
+ *
+ * @example
+ * const spec = await OpenApiSpec.load("openapi.yaml");
+ * await response.validate(spec.responseSchema({ operationId: "getUser" }, 200));
+ */
+export class OpenApiSpec {
+  readonly document: OpenApiDocument;
+  private schemas = new Map<string, JsonSchema>();
+
+  constructor(document: OpenApiDocument) {
+    if (!document?.openapi?.startsWith("3.")) {
+      throw new Error("Only OpenAPI 3.x documents are supported");
+    }
+    this.document = document;
+  }
+
+  /** Loads a `.json`, `.yaml` or `.yml` OpenAPI document from disk. */
+  static async load(filePath: string): Promise<OpenApiSpec> {
+    const text = await readFile(filePath, "utf8");
+    const extension = path.extname(filePath).toLowerCase();
+    const document = extension === ".json" ? JSON.parse(text) : parseYaml(text);
+    return new OpenApiSpec(document as OpenApiDocument);
+  }
+
+  /** Resolves a local `#/...` reference, following chained references. */
+  resolve<T>(value: T | { $ref?: string }): T {
+    let current = value as { $ref?: string };
+    const seen = new Set<string>();
+
+    while (current && typeof current.$ref === "string") {
+      const ref = current.$ref;
+      if (!ref.startsWith("#/")) {
+        throw new Error(`Only local references are supported: ${ref}`);
+      }
+      if (seen.has(ref)) {
+        throw new Error(`Circular reference: ${ref}`);
+      }
+      seen.add(ref);
+
+      current = ref
+        .slice(2)
+        .split("/")
+        .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"))
+        .reduce<unknown>(
+          (node, token) => (node as Record<string, unknown>)?.[token],
+          this.document
+        ) as { $ref?: string };
+
+      if (current === undefined) {
+        throw new Error(`Unresolvable reference: ${ref}`);
+      }
+    }
+
+    return current as T;
+  }
+
+  /** Iterates every operation in the document. */
+  operations(): ResolvedOperation[] {
+    return Object.entries(this.document.paths || {}).flatMap(
+      ([pathTemplate, item]) =>
+        HTTP_METHODS.filter((method) => item[method]).map((method) => ({
+          path: pathTemplate,
+          method,
+          operation: item[method] as OpenApiOperation,
+        }))
+    );
+  }
+
+  /**
+   * Finds an operation by `operationId`, or by method and path. The path may
+   * be the template (`/users/{id}`) or a concrete path (`/users/42`).
+   */
+  findOperation(ref: OperationRef): ResolvedOperation {
+    const operations = this.operations();
+
+    if ("operationId" in ref) {
+      const found = operations.find(
+        (o) => o.operation.operationId === ref.operationId
+      );
+      if (!found) {
+        throw new Error(`No operation with operationId "${ref.operationId}"`);
+      }
+      return found;
+    }
+
+    const method = ref.method.toLowerCase();
+    const concrete = ref.path.split("?")[0];
+    const candidates = operations.filter((o) => o.method === method);
+    const found =
+      candidates.find((o) => o.path === concrete) ??
+      candidates
+        .filter((o) => templateToRegExp(o.path).test(concrete))
+        // Prefer the most specific template, e.g. /users/me over /users/{id}
+        .sort(
+          (a, b) =>
+            (a.path.match(/\{/g)?.length ?? 0) -
+            (b.path.match(/\{/g)?.length ?? 0)
+        )[0];
+
+    if (!found) {
+      throw new Error(`No operation for ${method.toUpperCase()} ${ref.path}`);
+    }
+    return found;
+  }
+
+  /**
+   * Returns the JSON Schema for a response of an operation. The status falls
+   * back to its `2XX`-style range and then to `default`. The schema is made
+   * self-contained so `#/components/...` references keep resolving.
+   */
+  responseSchema(
+    ref: OperationRef,
+    status: number | string,
+    contentType = "application/json"
+  ): JsonSchema {
+    const { path: pathTemplate, method, operation } = this.findOperation(ref);
+    const key = `${method} ${pathTemplate} ${status} ${contentType}`;
+    const cached = this.schemas.get(key);
+    if (cached !== undefined) return cached;
+
+    const responses = operation.responses || {};
+    const code = String(status);
+    const responseKey = [code, `${code[0]}XX`, "default"].find(
+      (k) => responses[k]
+    );
+    if (!responseKey) {
+      throw new Error(
+        `${method.toUpperCase()} ${pathTemplate} has no ${code} response ` +
+          `(documented: ${Object.keys(responses).join(", ") || "none"})`
+      );
+    }
+
+    const response = this.resolve(responses[responseKey]);
+    const content = response.content || {};
+    const mediaType =
+      Object.keys(content).find((type) =>
+        mediaTypeMatches(type, contentType)
+      ) ?? Object.keys(content).find((type) => /[/+]json\b/.test(type));
+
+    const schema = mediaType ? content[mediaType].schema : undefined;
+    if (schema === undefined) {
+      throw new Error(
+        `${method.toUpperCase()} ${pathTemplate} ${responseKey} response ` +
+          `has no schema for ${contentType}`
+      );
+    }
+
+    const selfContained: JsonSchema = {
+      allOf: [schema],
+      components: this.document.components,
+    };
+    this.schemas.set(key, selfContained);
+    return selfContained;
+  }
+}
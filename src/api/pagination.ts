@@ -0,0 +1,327 @@
+import type { ApiClient, ApiResponse, RequestOptions } from "./api-client.js";
+
+/** A dotted path into the response body, e.g. `meta.next`, or a function. */
+export type BodySelector<R> = string | ((body: unknown) => R);
+
+/** One fetched page. */
+export interface Page<T> {
+  /** 1-based. */
+  number: number;
+  /** The URL the page was fetched from, query included. */
+  url: URL;
+  items: T[];
+  body: unknown;
+  response: ApiResponse;
+}
+
+/** The request for the next page: new query parameters, or a full URL. */
+export type NextPage = { params: Record<string, string> } | { url: string };
+
+/**
+ * How an endpoint pages. `items` reads a page's items and `next` names the
+ * following page, or returns `undefined` after the last one.
+ */
+export interface PaginationStrategy<T = unknown> {
+  /** Query parameters for the first page. */
+  first?(): Record<string, string>;
+  items(body: unknown, response: ApiResponse): T[];
+  next(page: Page<T>): NextPage | undefined;
+}
+
+export interface PaginateOptions extends RequestOptions {
+  /**
+   * Fetching more pages than this throws, so a paging bug cannot loop
+   * forever or silently truncate a collection. Defaults to 100.
+   */
+  maxPages?: number;
+}
+
+function select<R>(body: unknown, selector: BodySelector<R>): R {
+  if (typeof selector === "function") return selector(body);
+  return selector
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      body
+    ) as R;
+}
+
+/** Items at `selector`, or the body itself when it is an array. */
+function selectItems<T>(body: unknown, selector?: BodySelector<T[]>): T[] {
+  if (selector === undefined && Array.isArray(body)) return body as T[];
+  const items = select<unknown>(body, selector ?? "data");
+  if (!Array.isArray(items)) {
+    const at =
+      typeof selector === "function" ? "items()" : (selector ?? "data");
+    throw new Error(
+      `Expected an array of items at ${at}, got: ${JSON.stringify(items)}`
+    );
+  }
+  return items as T[];
+}
+
+/** The integer query parameter `name` of `url`, or `fallback`. */
+function intParam(url: URL, name: string, fallback: number): number {
+  const value = Number(url.searchParams.get(name));
+  return url.searchParams.has(name) && Number.isInteger(value)
+    ? value
+    : fallback;
+}
+
+/**
+ * Parses an RFC 8288 `Link` header into URLs keyed by relation type, e.g.
+ * `{ next: "...", last: "..." }`.
+ */
+export function parseLinkHeader(value = ""): Record<string, string> {
+  const links: Record<string, string> = {};
+  for (const match of value.matchAll(/<([^>]*)>([^,<]*)/g)) {
+    const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^;\s]+))/i.exec(match[2]);
+    for (const type of (rel?.[1] ?? rel?.[2] ?? "").split(/\s+/)) {
+      if (type) links[type.toLowerCase()] = match[1];
+    }
+  }
+  return links;
+}
+
+export interface CursorPaginationOptions<T> {
+  /** Where the next cursor is in the body. Paging stops when it is empty. */
+  cursor: BodySelector<string | number | null | undefined>;
+  /** Query parameter that carries the cursor. Defaults to `cursor`. */
+  param?: string;
+  /** Where the items are. Defaults to the body if it is an array, else `data`. */
+  items?: BodySelector<T[]>;
+}
+
+/** Cursor pagination: each page names the cursor of the next. */
+export class CursorPagination<T = unknown> implements PaginationStrategy<T> {
+  private options: CursorPaginationOptions<T>;
+
+  constructor(options: CursorPaginationOptions<T>) {
+    this.options = options;
+  }
+
+  items(body: unknown): T[] {
+    return selectItems(body, this.options.items);
+  }
+
+  next(page: Page<T>): NextPage | undefined {
+    const cursor = select(page.body, this.options.cursor);
+    if (cursor === null || cursor === undefined || cursor === "") return;
+    if (page.items.length === 0) return;
+    return { params: { [this.options.param ?? "cursor"]: String(cursor) } };
+  }
+}
+
+export interface PagePaginationOptions<T> {
+  /** Query parameter for the page number. Defaults to `page`. */
+  param?: string;
+  /** Number of the first page. Defaults to 1. */
+  start?: number;
+  /** Page size; a shorter page is the last one. */
+  pageSize?: number;
+  /** Query parameter for `pageSize`, sent when both are set, e.g. `per_page`. */
+  pageSizeParam?: string;
+  /** Where the total page count is in the body, when the API reports it. */
+  totalPages?: BodySelector<number | undefined>;
+  items?: BodySelector<T[]>;
+}
+
+/** Numbered pages: `?page=1`, `?page=2`, ... until an empty or short page. */
+export class PagePagination<T = unknown> implements PaginationStrategy<T> {
+  private options: PagePaginationOptions<T>;
+
+  constructor(options: PagePaginationOptions<T> = {}) {
+    this.options = options;
+  }
+
+  first(): Record<string, string> {
+    const { param = "page", start = 1, pageSize, pageSizeParam } = this.options;
+    return {
+      [param]: String(start),
+      ...(pageSize && pageSizeParam && { [pageSizeParam]: String(pageSize) }),
+    };
+  }
+
+  items(body: unknown): T[] {
+    return selectItems(body, this.options.items);
+  }
+
+  next(page: Page<T>): NextPage | undefined {
+    const { param = "page", start = 1, pageSize, totalPages } = this.options;
+    const current = intParam(page.url, param, start);
+    const total = totalPages ? select(page.body, totalPages) : undefined;
+
+    if (page.items.length === 0) return;
+    if (pageSize !== undefined && page.items.length < pageSize) return;
+    if (total !== undefined && current - start + 1 >= total) return;
+    return { params: { [param]: String(current + 1) } };
+  }
+}
+
+export interface OffsetPaginationOptions<T> {
+  /** Defaults to `offset`. */
+  offsetParam?: string;
+  /** Defaults to `limit`. */
+  limitParam?: string;
+  /** Items requested per page; a shorter page is the last one. Defaults to 20. */
+  limit?: number;
+  /** Where the total item count is in the body, when the API reports it. */
+  total?: BodySelector<number | undefined>;
+  items?: BodySelector<T[]>;
+}
+
+/** Offset/limit pages: `?offset=0&limit=20`, `?offset=20&limit=20`, ... */
+export class OffsetPagination<T = unknown> implements PaginationStrategy<T> {
+  private options: OffsetPaginationOptions<T>;
+
+  constructor(options: OffsetPaginationOptions<T> = {}) {
+    this.options = options;
+  }
+
+  first(): Record<string, string> {
+    const {
+      offsetParam = "offset",
+      limitParam = "limit",
+      limit = 20,
+    } = this.options;
+    return { [offsetParam]: "0", [limitParam]: String(limit) };
+  }
+
+  items(body: unknown): T[] {
+    return selectItems(body, this.options.items);
+  }
+
+  next(page: Page<T>): NextPage | undefined {
+    const {
+      offsetParam = "offset",
+      limitParam = "limit",
+      limit = 20,
+      total,
+    } = this.options;
+    const offset = intParam(page.url, offsetParam, 0) + page.items.length;
+    const count = total ? select(page.body, total) : undefined;
+
+    if (page.items.length < limit) return;
+    if (count !== undefined && offset >= count) return;
+    return {
+      params: { [offsetParam]: String(offset), [limitParam]: String(limit) },
+    };
+  }
+}
+
+export interface LinkHeaderPaginationOptions<T> {
+  /** Relation type of the next page. Defaults to `next`. */
+  rel?: string;
+  items?: BodySelector<T[]>;
+}
+
+/** Pages linked by the `Link` response header, as in the GitHub API. */
+export class LinkHeaderPagination<
+  T = unknown,
+> implements PaginationStrategy<T> {
+  private options: LinkHeaderPaginationOptions<T>;
+
+  constructor(options: LinkHeaderPaginationOptions<T> = {}) {
+    this.options = options;
+  }
+
+  items(body: unknown): T[] {
+    return selectItems(body, this.options.items);
+  }
+
+  next(page: Page<T>): NextPage | undefined {
+    const links = parseLinkHeader(page.response.headers["link"]);
+    const next = links[(this.options.rel ?? "next").toLowerCase()];
+    return next ? { url: new URL(next, page.url).toString() } : undefined;
+  }
+}
+
+/**
+ * Pages through a list endpoint. Iterating yields every item; `pages()`
+ * yields whole pages. Requests go through the client, so auth, retries and
+ * middleware apply, and a non-2xx page throws an `ApiError`.
+ *
+ * @example
+ * const users = await api
+ *   .paginate<User>("/users", new PagePagination({ pageSize: 50 }))
+ *   .all();
+ *
+ * for await (const order of api.paginate("/orders", strategy)) { ... }
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  private client: ApiClient;
+  private endpoint: string;
+  private strategy: PaginationStrategy<T>;
+  private options: PaginateOptions;
+
+  constructor(
+    client: ApiClient,
+    endpoint: string,
+    strategy: PaginationStrategy<T>,
+    options: PaginateOptions = {}
+  ) {
+    this.client = client;
+    this.endpoint = endpoint;
+    this.strategy = strategy;
+    this.options = options;
+  }
+
+  async *pages(): AsyncGenerator<Page<T>> {
+    const { maxPages = 100, ...request } = this.options;
+    const seen = new Set<string>();
+    let endpoint = this.endpoint;
+    let params = { ...request.params, ...this.strategy.first?.() };
+
+    for (let number = 1; ; number++) {
+      if (number > maxPages) {
+        throw new Error(
+          `Pagination of ${this.endpoint} did not finish within maxPages (${maxPages})`
+        );
+      }
+
+      const response = await (
+        await this.client.get(endpoint, { ...request, params })
+      ).orThrow();
+      const url = new URL(response.url);
+      if (seen.has(url.toString())) {
+        throw new Error(
+          `Pagination of ${this.endpoint} requested ${url} twice; the strategy is not advancing`
+        );
+      }
+      seen.add(url.toString());
+
+      const body = await response.json();
+      const page: Page<T> = {
+        number,
+        url,
+        items: this.strategy.items(body, response),
+        body,
+        response,
+      };
+      yield page;
+
+      const next = this.strategy.next(page);
+      if (!next) return;
+      if ("url" in next) {
+        endpoint = next.url;
+        params = {};
+      } else {
+        params = { ...params, ...next.params };
+      }
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    for await (const page of this.pages()) yield* page.items;
+  }
+
+  /** Every item from every page. */
+  async all(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) items.push(item);
+    return items;
+  }
+}
@@ -0,0 +1,182 @@
+import { randomBytes } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import type { Readable } from "node:stream";
+
+/** A file part of a multipart body, read from `path` or given as `buffer`. */
+export interface MultipartFile {
+  path?: string;
+  buffer?: Buffer;
+  /** Defaults to the base name of `path`, or `blob`. */
+  filename?: string;
+  /** Defaults to a type guessed from the file name. */
+  contentType?: string;
+}
+
+export type MultipartValue = string | number | boolean | Buffer | MultipartFile;
+
+export type FormValue = string | number | boolean;
+
+export interface EncodedBody {
+  contentType: string;
+  content: Buffer;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".csv": "text/csv",
+  ".gif": "image/gif",
+  ".html": "text/html",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".json": "application/json",
+  ".ndjson": "application/x-ndjson",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".txt": "text/plain",
+  ".xml": "application/xml",
+  ".zip": "application/zip",
+};
+
+/** Content type for a file name, `application/octet-stream` when unknown. */
+export function mimeType(filename: string): string {
+  return (
+    MIME_TYPES[path.extname(filename).toLowerCase()] ??
+    "application/octet-stream"
+  );
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+function quote(value: string): string {
+  return value.replace(/[\r\n"]/g, (c) => encodeURIComponent(c));
+}
+
+async function filePart(
+  file: Buffer | MultipartFile
+): Promise<{ filename: string; contentType: string; content: Buffer }> {
+  if (Buffer.isBuffer(file)) {
+    return {
+      filename: "blob",
+      contentType: "application/octet-stream",
+      content: file,
+    };
+  }
+  if (!file.path && !file.buffer) {
+    throw new Error("A multipart file needs a path or a buffer");
+  }
+
+  const filename =
+    file.filename ?? (file.path ? path.basename(file.path) : "blob");
+  return {
+    filename,
+    contentType: file.contentType ?? mimeType(filename),
+    content: file.buffer ?? (await readFile(file.path as string)),
+  };
+}
+
+/**
+ * A request body that is not JSON. `ApiClient` encodes it before the
+ * request enters the middleware pipeline and sends it with its own
+ * `Content-Type`. A `Content-Type` passed in the request's `headers` still
+ * wins.
+ *
+ * @example
+ * await api.post("/avatars", RequestBody.multipart({
+ *   userId: 42,
+ *   avatar: { path: "src/tests/data/avatar.png" },
+ * }));
+ * await api.post("/login", RequestBody.form({ user: "ann", remember: true }));
+ * await api.put("/files/report.pdf", RequestBody.file("report.pdf"));
+ */
+export class RequestBody {
+  private encoder: () => Promise<EncodedBody>;
+
+  private constructor(encoder: () => Promise<EncodedBody>) {
+    this.encoder = encoder;
+  }
+
+  /** `multipart/form-data` with fields and files. An array repeats a field. */
+  static multipart(
+    fields: Record<string, MultipartValue | MultipartValue[]>
+  ): RequestBody {
+    return new RequestBody(async () => {
+      const boundary = `----ApiClientBoundary${randomBytes(12).toString("hex")}`;
+      const parts: Buffer[] = [];
+
+      for (const [name, value] of Object.entries(fields)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          let head = `--${boundary}\r\nContent-Disposition: form-data; name="${quote(name)}"`;
+          let content: Buffer;
+
+          if (typeof item === "object") {
+            const file = await filePart(item);
+            head += `; filename="${quote(file.filename)}"\r\nContent-Type: ${file.contentType}`;
+            content = file.content;
+          } else {
+            content = Buffer.from(String(item));
+          }
+          parts.push(
+            Buffer.from(`${head}\r\n\r\n`),
+            content,
+            Buffer.from("\r\n")
+          );
+        }
+      }
+      parts.push(Buffer.from(`--${boundary}--\r\n`));
+
+      return {
+        contentType: `multipart/form-data; boundary=${boundary}`,
+        content: Buffer.concat(parts),
+      };
+    });
+  }
+
+  /** `application/x-www-form-urlencoded`. An array repeats a field. */
+  static form(fields: Record<string, FormValue | FormValue[]>): RequestBody {
+    return new RequestBody(async () => {
+      const params = new URLSearchParams();
+      for (const [name, value] of Object.entries(fields)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          params.append(name, String(item));
+        }
+      }
+      return {
+        contentType: "application/x-www-form-urlencoded",
+        content: Buffer.from(params.toString()),
+      };
+    });
+  }
+
+  /** Raw bytes, or a stream read to its end before the request is sent. */
+  static binary(
+    content: Buffer | Uint8Array | Readable,
+    contentType = "application/octet-stream"
+  ): RequestBody {
+    return new RequestBody(async () => ({
+      contentType,
+      content:
+        content instanceof Uint8Array
+          ? Buffer.from(content)
+          : await readStream(content),
+    }));
+  }
+
+  /** The raw contents of a file, typed from its extension by default. */
+  static file(filePath: string, contentType = mimeType(filePath)): RequestBody {
+    return new RequestBody(async () => ({
+      contentType,
+      content: await readFile(filePath),
+    }));
+  }
+
+  encode(): Promise<EncodedBody> {
+    return this.encoder();
+  }
+}
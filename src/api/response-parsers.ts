@@ -0,0 +1,123 @@
+import { XMLParser } from "fast-xml-parser";
+import { parseCsvRows } from "../utils/index.js";
+
+/** One event from a `text/event-stream` body. */
+export interface ServerSentEvent {
+  /** `message` unless the event names another type. */
+  event: string;
+  /** Data lines joined with `\n`. */
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export interface XmlOptions {
+  /** Prefix for attribute keys. Defaults to `@_`. */
+  attributePrefix?: string;
+  /** Converts numeric and boolean text to numbers and booleans. Defaults to true. */
+  parseValues?: boolean;
+}
+
+/**
+ * JSON when the text parses as JSON, the text itself otherwise, and
+ * `undefined` for an empty body.
+ */
+export function parseBody(text: string): unknown {
+  if (text === "") return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Parses XML into plain objects: elements become keys, repeated elements
+ * become arrays and attributes become prefixed keys.
+ */
+export function parseXml(text: string, options: XmlOptions = {}): unknown {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: options.attributePrefix ?? "@_",
+    parseTagValue: options.parseValues ?? true,
+    parseAttributeValue: options.parseValues ?? true,
+  });
+  return parser.parse(text);
+}
+
+/**
+ * Parses RFC 4180 CSV into rows of fields. Quoted fields may contain the
+ * delimiter, line breaks and doubled quotes. Empty fields are empty strings.
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  return parseCsvRows(text, { delimiter });
+}
+
+/** Parses newline-delimited JSON, skipping blank lines. */
+export function parseNdjson<T = unknown>(text: string): T[] {
+  return text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line !== "")
+    .map(({ line, index }) => {
+      try {
+        return JSON.parse(line) as T;
+      } catch (error) {
+        throw new Error(
+          `Invalid NDJSON on line ${index + 1}: ${(error as Error).message}`
+        );
+      }
+    });
+}
+
+/**
+ * Parses a `text/event-stream` body into its events. A last event that is
+ * not followed by a blank line is kept, since the body is already complete.
+ */
+export function parseEventStream(text: string): ServerSentEvent[] {
+  const events: ServerSentEvent[] = [];
+  let event: Partial<ServerSentEvent> = {};
+  let data: string[] = [];
+
+  const dispatch = () => {
+    if (data.length > 0) {
+      events.push({
+        ...event,
+        event: event.event || "message",
+        data: data.join("\n"),
+      });
+    }
+    event = {};
+    data = [];
+  };
+
+  for (const line of text.split(/\r\n|\r|\n/)) {
+    if (line === "") {
+      dispatch();
+      continue;
+    }
+    if (line.startsWith(":")) continue;
+
+    const colon = line.indexOf(":");
+    const name = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+    switch (name) {
+      case "event":
+        event.event = value;
+        break;
+      case "data":
+        data.push(value);
+        break;
+      case "id":
+        event.id = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) event.retry = Number(value);
+        break;
+    }
+  }
+  dispatch();
+
+  return events;
+}
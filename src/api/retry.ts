@@ -0,0 +1,157 @@
+import type { APIResponse } from "@playwright/test";
+import { sleep } from "../utils/index.js";
+import type { ApiRequest, Middleware } from "./middleware.js";
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "TRACE", "PUT", "DELETE"];
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+export interface RetryPolicy {
+  /** Attempts in total, including the first. Defaults to 3. */
+  maxAttempts?: number;
+  /** Response statuses worth retrying. Defaults to 408, 429, 502, 503, 504. */
+  statuses?: number[];
+  /**
+   * Methods that are safe to repeat. Defaults to the idempotent methods:
+   * GET, HEAD, OPTIONS, TRACE, PUT and DELETE.
+   */
+  methods?: string[];
+  /**
+   * Other methods are retried only when the request carries this header.
+   * Defaults to `Idempotency-Key`.
+   */
+  idempotencyHeader?: string;
+  /** Retry requests that fail without a response. Defaults to true. */
+  retryNetworkErrors?: boolean;
+  /** Delay before the first retry, in ms. Doubles on every retry. Defaults to 200. */
+  baseDelay?: number;
+  /** Upper bound for a single backoff delay, in ms. Defaults to 5000. */
+  maxDelay?: number;
+  /**
+   * Randomizes each delay between half and all of its value, so parallel
+   * workers do not retry in lockstep. Defaults to true.
+   */
+  jitter?: boolean;
+  /** Wait as long as a `Retry-After` header asks. Defaults to true. */
+  respectRetryAfter?: boolean;
+  /** No retry starts after this much time since the first attempt, in ms. Defaults to 30000. */
+  maxElapsed?: number;
+  /** Called before every retry. */
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+export interface RetryAttempt {
+  method: string;
+  url: string;
+  /** 1 for the first request. */
+  attempt: number;
+  status?: number;
+  error?: string;
+  /** Delay before the next attempt, in ms; absent for the final attempt. */
+  delay?: number;
+}
+
+const attemptsByResponse = new WeakMap<APIResponse, RetryAttempt[]>();
+
+/** Every attempt made for a response, when it was sent with a retry policy. */
+export function retryAttempts(response: APIResponse): RetryAttempt[] {
+  return attemptsByResponse.get(response) ?? [];
+}
+
+/** Parses a `Retry-After` value (seconds or an HTTP date) into ms. */
+export function parseRetryAfter(
+  value: string | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+  if (/^\s*\d+\s*$/.test(value)) return Number(value) * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function isRetryable(request: ApiRequest, policy: RetryPolicy): boolean {
+  const methods = (policy.methods ?? IDEMPOTENT_METHODS).map((m) =>
+    m.toUpperCase()
+  );
+  if (methods.includes(request.method.toUpperCase())) return true;
+
+  const header = (policy.idempotencyHeader ?? "Idempotency-Key").toLowerCase();
+  return Object.keys(request.headers).some((h) => h.toLowerCase() === header);
+}
+
+function backoff(retry: number, policy: RetryPolicy): number {
+  const { baseDelay = 200, maxDelay = 5000, jitter = true } = policy;
+  const delay = Math.min(baseDelay * 2 ** (retry - 1), maxDelay);
+  return jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Retries transient failures with exponential backoff. Only methods that
+ * are safe to repeat are retried, and a retry is skipped when it could not
+ * start within `maxElapsed`; the last response or error is then returned.
+ *
+ * @example
+ * const client = new ApiClient(request, { retry: { maxAttempts: 4 } });
+ */
+export function retry(policy: RetryPolicy = {}): Middleware {
+  const {
+    maxAttempts = 3,
+    statuses = RETRYABLE_STATUSES,
+    retryNetworkErrors = true,
+    respectRetryAfter = true,
+    maxElapsed = 30000,
+  } = policy;
+
+  return async (request, next) => {
+    if (!isRetryable(request, policy)) return next(request);
+
+    const started = Date.now();
+    const attempts: RetryAttempt[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      const record: RetryAttempt = {
+        method: request.method,
+        url: request.url.toString(),
+        attempt,
+      };
+      attempts.push(record);
+
+      let response: APIResponse | undefined;
+      let failure: unknown;
+      try {
+        response = await next(request);
+        record.status = response.status();
+      } catch (error) {
+        failure = error;
+        record.error = error instanceof Error ? error.message : String(error);
+      }
+
+      const transient = response
+        ? statuses.includes(response.status())
+        : retryNetworkErrors;
+
+      let delay = backoff(attempt, policy);
+      const retryAfter = respectRetryAfter
+        ? parseRetryAfter(response?.headers()["retry-after"])
+        : undefined;
+      if (retryAfter !== undefined) delay = retryAfter;
+
+      const canRetry =
+        transient &&
+        attempt < maxAttempts &&
+        Date.now() - started + delay <= maxElapsed;
+
+      if (!canRetry) {
+        if (response) {
+          attemptsByResponse.set(response, attempts);
+          return response;
+        }
+        throw failure;
+      }
+
+      record.delay = Math.round(delay);
+      policy.onRetry?.(record);
+      await sleep(delay);
+    }
+  };
+}
@@ -0,0 +1,102 @@
+import { Ajv, type AnySchema, type ErrorObject } from "ajv";
+import addFormatsModule from "ajv-formats";
+
+// ajv-formats is CommonJS; under NodeNext its default export is nested
+const addFormats = addFormatsModule.default;
+
+export type JsonSchema = Record<string, unknown> | boolean;
+
+export interface SchemaViolation {
+  /** JSON pointer to the offending value, `""` for the document root. */
+  pointer: string;
+  message: string;
+  keyword: string;
+}
+
+export class SchemaValidationError extends Error {
+  readonly violations: SchemaViolation[];
+
+  constructor(violations: SchemaViolation[], context?: string) {
+    super(
+      `${context ? `${context}: ` : ""}response does not match schema ` +
+        `(${violations.length} violation(s))\n${formatViolations(violations)}`
+    );
+    this.name = "SchemaValidationError";
+    this.violations = violations;
+  }
+}
+
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations
+    .map((v) => `  ${v.pointer || "/"}: ${v.message}`)
+    .join("\n");
+}
+
+function toViolation(error: ErrorObject): SchemaViolation {
+  let pointer = error.instancePath;
+  let message = error.message || error.keyword;
+
+  // Point at the missing or unexpected property itself, not its parent
+  if (error.keyword === "required") {
+    pointer += `/${error.params.missingProperty}`;
+    message = "is required";
+  } else if (error.keyword === "additionalProperties") {
+    pointer += `/${error.params.additionalProperty}`;
+    message = "is not allowed";
+  }
+
+  return { pointer, message, keyword: error.keyword };
+}
+
+/**
+ * Creates the shared Ajv instance. Collects every error instead of stopping
+ * at the first one, and tolerates OpenAPI-only keywords such as `example`
+ * and formats such as `int64`.
+ */
+function createAjv(): Ajv {
+  const ajv = new Ajv({ allErrors: true, strict: false, logger: false });
+  addFormats(ajv);
+  for (const format of [
+    "int32",
+    "int64",
+    "float",
+    "double",
+    "byte",
+    "binary",
+    "password",
+  ]) {
+    ajv.addFormat(format, true);
+  }
+  return ajv;
+}
+
+const ajv = createAjv();
+const compiled = new WeakMap<object, ReturnType<Ajv["compile"]>>();
+
+/**
+ * Validates `data` against a JSON Schema and returns every violation sorted
+ * by pointer, or an empty array when it matches. Compiled schemas are cached
+ * per object.
+ */
+export function validateSchema(
+  data: unknown,
+  schema: JsonSchema
+): SchemaViolation[] {
+  if (typeof schema === "boolean") {
+    return schema
+      ? []
+      : [{ pointer: "", message: "no value allowed", keyword: "false schema" }];
+  }
+
+  let validate = compiled.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema as AnySchema);
+    compiled.set(schema, validate);
+  }
+
+  if (validate(data)) return [];
+
+  return (validate.errors || [])
+    .map(toViolation)
+    .sort((a, b) => a.pointer.localeCompare(b.pointer));
+}
@@ -0,0 +1,170 @@
+import { isDeepStrictEqual } from "node:util";
+import type { DatabaseClient, DatabaseProvider } from "./types.js";
+
+/**
+ * Quotes a table or column name for the given provider. Dotted names such as
+ * `schema.table` are quoted part by part.
+ */
+export function quoteIdentifier(
+  provider: DatabaseProvider,
+  identifier: string
+): string {
+  return identifier
+    .split(".")
+    .map((part) => {
+      switch (provider) {
+        case "mysql":
+          return `\`${part.replace(/`/g, "``")}\``;
+        case "mssql":
+          return `[${part.replace(/]/g, "]]")}]`;
+        default:
+          return `"${part.replace(/"/g, '""')}"`;
+      }
+    })
+    .join(".");
+}
+
+/** Splits `schema.table` into its parts; `schema` is null for a bare name. */
+export function splitTableName(table: string): {
+  schema: string | null;
+  name: string;
+} {
+  const dot = table.lastIndexOf(".");
+  return dot === -1
+    ? { schema: null, name: table }
+    : { schema: table.slice(0, dot), name: table.slice(dot + 1) };
+}
+
+/**
+ * Column/value equality filter. `null` matches NULL and an array matches any
+ * of its values.
+ */
+export type RowFilter = Record<string, unknown>;
+
+/**
+ * Compiles a `RowFilter` into a `WHERE ...` clause with `?` placeholders, or
+ * an empty string when the filter has no columns.
+ */
+export function buildWhere(
+  provider: DatabaseProvider,
+  where: RowFilter = {}
+): { sql: string; params: unknown[] } {
+  const clauses: string[] = [];
+  const params: unknown[] = [];
+
+  for (const [column, value] of Object.entries(where)) {
+    const quoted = quoteIdentifier(provider, column);
+
+    if (value === null || value === undefined) {
+      clauses.push(`${quoted} IS NULL`);
+    } else if (Array.isArray(value)) {
+      if (value.length === 0) {
+        clauses.push("1 = 0");
+      } else {
+        clauses.push(`${quoted} IN (${value.map(() => "?").join(", ")})`);
+        params.push(...value);
+      }
+    } else {
+      clauses.push(`${quoted} = ?`);
+      params.push(value);
+    }
+  }
+
+  return {
+    sql: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "",
+    params,
+  };
+}
+
+/** Rows of `table` that match `where`, or all of them without a filter. */
+export async function selectRows(
+  db: DatabaseClient,
+  table: string,
+  where?: RowFilter
+): Promise<Record<string, unknown>[]> {
+  const filter = buildWhere(db.provider, where);
+  const result = await db.query(
+    `SELECT * FROM ${quoteIdentifier(db.provider, table)} ${filter.sql}`,
+    filter.params
+  );
+  return result.rows;
+}
+
+/**
+ * Reads a date the way databases return it. Strings without a zone, such
+ * as SQLite's `2024-01-31 10:00:00`, are taken as UTC.
+ */
+export function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (typeof value === "number") return new Date(value);
+
+  const text = String(value).trim();
+  const local = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(
+    text
+  );
+  return new Date(local ? `${text.replace(" ", "T")}Z` : text);
+}
+
+interface AsymmetricMatcher {
+  asymmetricMatch(other: unknown): boolean;
+}
+
+function isAsymmetricMatcher(value: unknown): value is AsymmetricMatcher {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as AsymmetricMatcher).asymmetricMatch === "function"
+  );
+}
+
+/**
+ * The numeric value of a number, bigint or numeric string, or undefined for
+ * anything else, so blank strings are not read as 0.
+ */
+function asNumber(value: unknown): number | undefined {
+  if (typeof value === "number" || typeof value === "bigint") {
+    return Number(value);
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isNaN(number) ? undefined : number;
+  }
+  return undefined;
+}
+
+/**
+ * Compares a database value with an expected one, tolerating the
+ * representation differences between drivers: DECIMAL and BIGINT columns
+ * arrive as strings, booleans as 0/1, JSON as text and timestamps as
+ * strings or Dates. An asymmetric matcher such as `expect.any(Number)` is
+ * applied to the database value.
+ */
+export function valuesMatch(actual: unknown, expected: unknown): boolean {
+  if (isAsymmetricMatcher(expected)) return expected.asymmetricMatch(actual);
+  if (expected === null || expected === undefined) return actual == null;
+  if (actual === null || actual === undefined) return false;
+
+  if (expected instanceof Date || actual instanceof Date) {
+    return toDate(actual).getTime() === toDate(expected).getTime();
+  }
+  if (typeof expected === "boolean") {
+    return (
+      actual === expected ||
+      asNumber(actual) === Number(expected) ||
+      String(actual) === String(expected)
+    );
+  }
+  if (typeof expected === "number" || typeof expected === "bigint") {
+    return asNumber(actual) === Number(expected);
+  }
+  if (typeof expected === "object") {
+    if (typeof actual !== "string") return isDeepStrictEqual(actual, expected);
+    try {
+      return isDeepStrictEqual(JSON.parse(actual), expected);
+    } catch {
+      return false;
+    }
+  }
+
+  return String(actual) === String(expected);
+}
@@ -3,9 +3,86 @@ export { PostgresClient } from "./providers/postgres.js";
 export { MySqlClient } from "./providers/mysql.js";
 export { MsSqlClient } from "./providers/mssql.js";
 export { SqliteClient } from "./providers/sqlite.js";
+export { rewritePlaceholders } from "./placeholders.js";
+export type { RewrittenQuery } from "./placeholders.js";
+export { withRollback } from "./rollback.js";
+export { DbPoller, DbPollTimeoutError, pollQuery } from "./polling.js";
+export type { PollOptions } from "./polling.js";
+export {
+  buildWhere,
+  quoteIdentifier,
+  selectRows,
+  toDate,
+  valuesMatch,
+} from "./dialect.js";
+export type { RowFilter } from "./dialect.js";
+export {
+  diffSnapshots,
+  formatDiff,
+  snapshot,
+  unexpectedChanges,
+} from "./snapshot.js";
+export type {
+  DbDiff,
+  DbSnapshot,
+  ExpectedDbChanges,
+  RowUpdate,
+  SnapshotOptions,
+  TableDiff,
+  TableSnapshot,
+} from "./snapshot.js";
+export {
+  TablesNotFoundError,
+  checkSchemaDrift,
+  columnKind,
+  diffSchemas,
+  findColumn,
+  findTable,
+  formatSchemaChanges,
+  introspect,
+  readSchemaBaseline,
+  writeSchemaBaseline,
+} from "./introspection/index.js";
+export type {
+  ColumnKind,
+  ColumnSchema,
+  ForeignKeySchema,
+  IndexSchema,
+  IntrospectOptions,
+  SchemaChange,
+  SchemaDriftOptions,
+  SchemaDriftResult,
+  SchemaModel,
+  TableSchema,
+} from "./introspection/index.js";
+export { QueryBuilder } from "./query-builder.js";
+export type { CompiledQuery, Returning, Where } from "./query-builder.js";
+export { splitStatements } from "./statements.js";
+export {
+  MigrationRunner,
+  migrate,
+  loadMigrations,
+} from "./migrations/index.js";
+export type {
+  Migration,
+  MigrationModule,
+  MigrationOptions,
+  MigrationStatus,
+  MigrationStep,
+} from "./migrations/index.js";
+export { Seeder, ref, loadSeed, loadSeedFile, parseCsv } from "./seed/index.js";
+export type {
+  SeedBuilder,
+  SeedData,
+  SeededRows,
+  SeederOptions,
+  SeedRow,
+  SeedSource,
+} from "./seed/index.js";
 export type {
   DatabaseClient,
   DatabaseConfig,
   DatabaseProvider,
+  QueryParams,
   QueryResult,
 } from "./types.js";
@@ -0,0 +1,72 @@
+import dotenv from "dotenv";
+import { DatabaseFactory } from "../database-factory.js";
+import { checkSchemaDrift, formatSchemaChanges } from "./drift.js";
+
+dotenv.config();
+
+const USAGE =
+  "Usage: npm run db:schema -- <baseline.json> [--update] [--schema <name>] [--ignore <table,...>]";
+
+function option(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index === -1) return undefined;
+  const value = args[index + 1];
+  if (!value || value.startsWith("--")) throw new Error(USAGE);
+  return value;
+}
+
+async function main(args: string[]): Promise<void> {
+  const values = new Set(
+    ["--schema", "--ignore"]
+      .map((name) => args.indexOf(name))
+      .filter((index) => index !== -1)
+      .map((index) => index + 1)
+  );
+  const [file, ...extra] = args.filter(
+    (arg, i) => !arg.startsWith("--") && !values.has(i)
+  );
+  if (!file || extra.length > 0) throw new Error(USAGE);
+
+  const update = args.includes("--update");
+  const schema = option(args, "--schema");
+  const ignoreTables = option(args, "--ignore")?.split(",");
+
+  const db = DatabaseFactory.fromEnv();
+  await db.connect();
+
+  try {
+    const result = await checkSchemaDrift(db, file, {
+      schema,
+      ignoreTables,
+      update,
+    });
+
+    if (!result.existed) {
+      console.log(`Wrote schema baseline ${file}`);
+      // A baseline written in CI is never committed, so it cannot pass there
+      if (!update || process.env.CI) {
+        console.log("Review and commit it, or run with --update to accept it.");
+        process.exitCode = 1;
+      }
+    } else if (result.changes.length === 0) {
+      console.log(`Schema matches ${file}`);
+    } else {
+      console.log(
+        `Schema differs from ${file}:\n${formatSchemaChanges(result.changes)}`
+      );
+      if (result.written) {
+        console.log(`Updated ${file}`);
+      } else {
+        console.log("Run again with --update to accept these changes.");
+        process.exitCode = 1;
+      }
+    }
+  } finally {
+    await db.disconnect();
+  }
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
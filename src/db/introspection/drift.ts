@@ -0,0 +1,293 @@
+import { isDeepStrictEqual } from "node:util";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { DEFAULT_MIGRATIONS_TABLE } from "../migrations/runner.js";
+import type { DatabaseClient } from "../types.js";
+import type {
+  ColumnSchema,
+  ForeignKeySchema,
+  IndexSchema,
+  IntrospectOptions,
+  SchemaModel,
+  TableSchema,
+} from "./types.js";
+
+export interface SchemaChange {
+  change: "added" | "removed" | "changed";
+  object: "table" | "column" | "primary key" | "index" | "foreign key";
+  table: string;
+  /** Name of the column, index or key; the table name for tables. */
+  name: string;
+  /** For changes: one `property before -> after` entry per property. */
+  differences: string[];
+}
+
+export interface SchemaDriftOptions extends IntrospectOptions {
+  /**
+   * Tables left out of the comparison. `checkSchemaDrift()` defaults to the
+   * migration history table, `DB_MIGRATIONS_TABLE` or `schema_migrations`.
+   */
+  ignoreTables?: string[];
+}
+
+export interface SchemaDriftResult {
+  /** Differences from the baseline to the live schema. */
+  changes: SchemaChange[];
+  /** Whether the baseline file was written, because it was missing or `update` was set. */
+  written: boolean;
+  /** Whether the baseline file existed before. */
+  existed: boolean;
+}
+
+/** Column properties compared; `kind` and `unique` follow from the others. */
+const COLUMN_PROPERTIES = [
+  "type",
+  "nullable",
+  "default",
+  "autoIncrement",
+] as const;
+
+function print(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+function differences<T extends object>(
+  before: T,
+  after: T,
+  properties: readonly (keyof T)[]
+): string[] {
+  return properties
+    .filter((property) => !isDeepStrictEqual(before[property], after[property]))
+    .map(
+      (property) =>
+        `${String(property)} ${print(before[property])} -> ${print(after[property])}`
+    );
+}
+
+/**
+ * Compares named items of one table, e.g. its columns, reporting those
+ * added, removed or changed in `after`.
+ */
+function compareItems<T>(
+  object: SchemaChange["object"],
+  table: string,
+  before: T[],
+  after: T[],
+  nameOf: (item: T) => string,
+  compare: (before: T, after: T) => string[]
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const old = new Map(before.map((item) => [nameOf(item), item]));
+  const current = new Map(after.map((item) => [nameOf(item), item]));
+
+  for (const [name, item] of old) {
+    const next = current.get(name);
+    if (!next) {
+      changes.push({ change: "removed", object, table, name, differences: [] });
+      continue;
+    }
+    const found = compare(item, next);
+    if (found.length > 0) {
+      changes.push({
+        change: "changed",
+        object,
+        table,
+        name,
+        differences: found,
+      });
+    }
+  }
+  for (const name of current.keys()) {
+    if (!old.has(name)) {
+      changes.push({ change: "added", object, table, name, differences: [] });
+    }
+  }
+
+  return changes;
+}
+
+/** SQLite foreign keys have no name, so they are identified by their columns. */
+function foreignKeyName(key: ForeignKeySchema): string {
+  return key.name ?? `(${key.columns.join(", ")})`;
+}
+
+function compareTables(
+  before: TableSchema,
+  after: TableSchema
+): SchemaChange[] {
+  const table = before.name;
+  const changes = compareItems<ColumnSchema>(
+    "column",
+    table,
+    before.columns,
+    after.columns,
+    (column) => column.name,
+    (a, b) => differences(a, b, COLUMN_PROPERTIES)
+  );
+
+  if (!isDeepStrictEqual(before.primaryKey, after.primaryKey)) {
+    changes.push({
+      change:
+        before.primaryKey.length === 0
+          ? "added"
+          : after.primaryKey.length === 0
+            ? "removed"
+            : "changed",
+      object: "primary key",
+      table,
+      name: table,
+      differences: [
+        `columns ${print(before.primaryKey)} -> ${print(after.primaryKey)}`,
+      ],
+    });
+  }
+
+  changes.push(
+    ...compareItems<IndexSchema>(
+      "index",
+      table,
+      before.indexes,
+      after.indexes,
+      (index) => index.name,
+      (a, b) => differences(a, b, ["columns", "unique"])
+    ),
+    ...compareItems<ForeignKeySchema>(
+      "foreign key",
+      table,
+      before.foreignKeys,
+      after.foreignKeys,
+      foreignKeyName,
+      (a, b) =>
+        differences(a, b, [
+          "referencedTable",
+          "referencedColumns",
+          "onDelete",
+          "onUpdate",
+        ])
+    )
+  );
+
+  return changes;
+}
+
+/**
+ * Lists what changed from `baseline` to `actual`: tables, columns, primary
+ * keys, indexes and foreign keys that were added, removed or changed.
+ */
+export function diffSchemas(
+  baseline: SchemaModel,
+  actual: SchemaModel,
+  options: Pick<SchemaDriftOptions, "ignoreTables"> = {}
+): SchemaChange[] {
+  if (baseline.provider !== actual.provider) {
+    throw new Error(
+      `Schema baseline was taken from ${baseline.provider}, but the database is ${actual.provider}`
+    );
+  }
+
+  const ignored = new Set(options.ignoreTables ?? []);
+  const tablesOf = (schema: SchemaModel) =>
+    schema.tables.filter((table) => !ignored.has(table.name));
+  const changes: SchemaChange[] = [];
+
+  for (const change of compareItems<TableSchema>(
+    "table",
+    "",
+    tablesOf(baseline),
+    tablesOf(actual),
+    (table) => table.name,
+    () => []
+  )) {
+    changes.push({ ...change, table: change.name });
+  }
+
+  const current = new Map(actual.tables.map((table) => [table.name, table]));
+  for (const table of tablesOf(baseline)) {
+    const next = current.get(table.name);
+    if (next) changes.push(...compareTables(table, next));
+  }
+
+  return changes;
+}
+
+const SYMBOLS = { added: "+", removed: "-", changed: "~" };
+
+/** One line per change, e.g. `~ column users.email: type "varchar(255)" -> "text"`. */
+export function formatSchemaChanges(changes: SchemaChange[]): string {
+  return changes
+    .map((change) => {
+      const target =
+        change.object === "table" || change.object === "primary key"
+          ? change.table
+          : `${change.table}.${change.name}`;
+      return (
+        `${SYMBOLS[change.change]} ${change.object} ${target}` +
+        (change.differences.length > 0
+          ? `: ${change.differences.join(", ")}`
+          : "")
+      );
+    })
+    .join("\n");
+}
+
+/** Reads a baseline written by `writeSchemaBaseline()`, or null when missing. */
+export async function readSchemaBaseline(
+  file: string
+): Promise<SchemaModel | null> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  return JSON.parse(text) as SchemaModel;
+}
+
+/** Writes `schema` as stable, diff-friendly JSON. */
+export async function writeSchemaBaseline(
+  file: string,
+  schema: SchemaModel
+): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, `${JSON.stringify(schema, null, 2)}\n`);
+}
+
+/**
+ * Compares the live schema with the baseline in `file`. Like Playwright
+ * snapshots, a missing baseline is written, and `update` rewrites it with
+ * the live schema after reporting what changed.
+ *
+ * @example
+ * const { changes } = await checkSchemaDrift(db, "schema/baseline.json");
+ */
+export async function checkSchemaDrift(
+  db: DatabaseClient,
+  file: string,
+  options: SchemaDriftOptions & { update?: boolean } = {}
+): Promise<SchemaDriftResult> {
+  const {
+    update = false,
+    ignoreTables = [
+      process.env.DB_MIGRATIONS_TABLE || DEFAULT_MIGRATIONS_TABLE,
+    ],
+    ...introspectOptions
+  } = options;
+  const actual = await db.introspect(introspectOptions);
+  const baseline = await readSchemaBaseline(file);
+  const changes = baseline
+    ? diffSchemas(baseline, actual, { ignoreTables })
+    : [];
+
+  const written = baseline === null || (update && changes.length > 0);
+  if (written) {
+    await writeSchemaBaseline(file, {
+      ...actual,
+      tables: actual.tables.filter(
+        (table) => !ignoreTables.includes(table.name)
+      ),
+    });
+  }
+
+  return { changes, written, existed: baseline !== null };
+}
@@ -0,0 +1,28 @@
+export {
+  TablesNotFoundError,
+  columnKind,
+  findColumn,
+  findTable,
+  introspect,
+} from "./introspect.js";
+export {
+  checkSchemaDrift,
+  diffSchemas,
+  formatSchemaChanges,
+  readSchemaBaseline,
+  writeSchemaBaseline,
+} from "./drift.js";
+export type {
+  SchemaChange,
+  SchemaDriftOptions,
+  SchemaDriftResult,
+} from "./drift.js";
+export type {
+  ColumnKind,
+  ColumnSchema,
+  ForeignKeySchema,
+  IndexSchema,
+  IntrospectOptions,
+  SchemaModel,
+  TableSchema,
+} from "./types.js";
@@ -0,0 +1,210 @@
+import type { DatabaseClient } from "../types.js";
+import { readMsSqlCatalog } from "./mssql.js";
+import { readMySqlCatalog } from "./mysql.js";
+import { readPostgresCatalog } from "./postgres.js";
+import { readSqliteCatalog } from "./sqlite.js";
+import type {
+  CatalogRows,
+  ColumnKind,
+  ColumnSchema,
+  IndexSchema,
+  IntrospectOptions,
+  SchemaModel,
+  TableSchema,
+} from "./types.js";
+
+/** Thrown when tables passed to `introspect()` do not exist. */
+export class TablesNotFoundError extends Error {
+  readonly tables: string[];
+  readonly schema: string;
+
+  constructor(tables: string[], schema: string) {
+    super(`Table(s) not found in schema ${schema}: ${tables.join(", ")}`);
+    this.name = "TablesNotFoundError";
+    this.tables = tables;
+    this.schema = schema;
+  }
+}
+
+const KINDS: [RegExp, ColumnKind][] = [
+  [/^(tinyint\(1\)$|bool\b|boolean\b|bit\b)/, "boolean"],
+  [/^(uuid|uniqueidentifier)\b/, "uuid"],
+  [/^jsonb?\b/, "json"],
+  [
+    /^(tinyint|smallint|mediumint|int|integer|bigint|int[248])\b|serial$/,
+    "integer",
+  ],
+  [/^(decimal|numeric|money|smallmoney)\b/, "decimal"],
+  [/^(real|float|double)\b/, "float"],
+  [/^date$/, "date"],
+  [/^time\b(?!stamp)/, "time"],
+  [
+    /^(datetime|datetime2|datetimeoffset|smalldatetime|timestamp)\b/,
+    "datetime",
+  ],
+  [
+    /^(bytea|blob|tinyblob|mediumblob|longblob|binary|varbinary|image)\b/,
+    "binary",
+  ],
+  [
+    /^(text|tinytext|mediumtext|longtext|ntext|clob)\b|^n?varchar\(max\)$/,
+    "text",
+  ],
+  [/char|^(citext|enum|set)\b/, "string"],
+];
+
+/**
+ * Maps a declared type to a portable kind. SQLite's free-form type names
+ * follow its affinity rules, so `VARCHAR(20)` is a string there too.
+ */
+export function columnKind(type: string): ColumnKind {
+  const normalized = type.toLowerCase().trim();
+  if (normalized === "") return "other";
+  return KINDS.find(([pattern]) => pattern.test(normalized))?.[1] ?? "other";
+}
+
+function groupBy<T>(rows: T[], key: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const group = groups.get(key(row));
+    if (group) group.push(row);
+    else groups.set(key(row), [row]);
+  }
+  return groups;
+}
+
+function assemble(
+  provider: SchemaModel["provider"],
+  catalog: CatalogRows,
+  only?: string[]
+): SchemaModel {
+  const wanted = only ? new Set(only) : null;
+  const columns = groupBy(catalog.columns, (row) => row.table);
+  const indexes = groupBy(catalog.indexes, (row) => row.table);
+  const foreignKeys = groupBy(catalog.foreignKeys, (row) => row.table);
+  const tables: TableSchema[] = [];
+
+  for (const [table, tableColumns] of columns) {
+    if (wanted && !wanted.has(table)) continue;
+
+    const tableIndexes = [
+      ...groupBy(indexes.get(table) ?? [], (row) => row.name).values(),
+    ].map((rows) => ({
+      name: rows[0].name,
+      columns: rows.map((row) => row.column),
+      unique: rows[0].unique,
+      primary: rows[0].primary,
+    }));
+    const primaryKey = tableIndexes.find((index) => index.primary)?.columns;
+    const uniqueColumns = new Set(
+      tableIndexes
+        .filter((index) => index.unique && index.columns.length === 1)
+        .map((index) => index.columns[0])
+    );
+
+    tables.push({
+      name: table,
+      columns: tableColumns.map(
+        (column): ColumnSchema => ({
+          name: column.name,
+          type: column.type,
+          kind: columnKind(column.type),
+          nullable: column.nullable,
+          default: column.default,
+          autoIncrement: column.autoIncrement,
+          unique: uniqueColumns.has(column.name),
+        })
+      ),
+      primaryKey: primaryKey ?? [],
+      indexes: tableIndexes
+        .filter((index) => !index.primary)
+        .map(
+          ({ name, columns, unique }): IndexSchema => ({
+            name,
+            columns,
+            unique,
+          })
+        )
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      foreignKeys: [
+        ...groupBy(
+          foreignKeys.get(table) ?? [],
+          (row) => row.name ?? `#${row.id}`
+        ).values(),
+      ].map((rows) => ({
+        name: rows[0].name,
+        columns: rows.map((row) => row.column),
+        referencedTable: rows[0].referencedTable,
+        referencedColumns: rows.map((row) => row.referencedColumn),
+        onDelete: rows[0].onDelete,
+        onUpdate: rows[0].onUpdate,
+      })),
+    });
+  }
+
+  if (wanted) {
+    const missing = [...wanted].filter((table) => !columns.has(table));
+    if (missing.length > 0) {
+      throw new TablesNotFoundError(missing, catalog.schema);
+    }
+  }
+
+  return {
+    provider,
+    schema: catalog.schema,
+    tables: tables.sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * Reads the tables, columns, indexes and foreign keys of a schema into a
+ * model that has the same shape for every provider.
+ *
+ * @example
+ * const schema = await introspect(db, { tables: ["users"] });
+ * const email = findColumn(schema, "users", "email");
+ * expect(email).toMatchObject({ nullable: false, unique: true });
+ */
+export async function introspect(
+  db: DatabaseClient,
+  options: IntrospectOptions = {}
+): Promise<SchemaModel> {
+  let catalog: CatalogRows;
+  switch (db.provider) {
+    case "postgres":
+      catalog = await readPostgresCatalog(db, options.schema);
+      break;
+    case "mysql":
+      catalog = await readMySqlCatalog(db, options.schema);
+      break;
+    case "mssql":
+      catalog = await readMsSqlCatalog(db, options.schema);
+      break;
+    case "sqlite":
+      catalog = await readSqliteCatalog(db, options.schema);
+      break;
+    default:
+      throw new Error(`Unsupported database provider: ${db.provider}`);
+  }
+
+  return assemble(db.provider, catalog, options.tables);
+}
+
+/** The table named `table`, or undefined. */
+export function findTable(
+  schema: SchemaModel,
+  table: string
+): TableSchema | undefined {
+  return schema.tables.find((candidate) => candidate.name === table);
+}
+
+/** The column `column` of `table`, or undefined. */
+export function findColumn(
+  schema: SchemaModel,
+  table: string,
+  column: string
+): ColumnSchema | undefined {
+  return findTable(schema, table)?.columns.find(
+    (candidate) => candidate.name === column
+  );
+}
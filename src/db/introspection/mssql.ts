@@ -0,0 +1,148 @@
+import type { DatabaseClient } from "../types.js";
+import type { CatalogRows, ForeignKeyRow } from "./types.js";
+
+interface MsSqlColumn {
+  table: string;
+  name: string;
+  typeName: string;
+  maxLength: number;
+  precision: number;
+  scale: number;
+  nullable: boolean;
+  identity: boolean;
+  default: string | null;
+}
+
+interface MsSqlIndexColumn {
+  table: string;
+  name: string;
+  unique: boolean;
+  primary: boolean;
+  column: string;
+}
+
+/** Rebuilds the declared type, e.g. `nvarchar(50)`, from `sys.columns`. */
+function formatType(column: MsSqlColumn): string {
+  const type = column.typeName.toLowerCase();
+  switch (type) {
+    case "char":
+    case "varchar":
+    case "binary":
+    case "varbinary":
+      return `${type}(${column.maxLength === -1 ? "max" : column.maxLength})`;
+    case "nchar":
+    case "nvarchar":
+      // max_length is in bytes, two per character
+      return `${type}(${column.maxLength === -1 ? "max" : column.maxLength / 2})`;
+    case "decimal":
+    case "numeric":
+      return `${type}(${column.precision},${column.scale})`;
+    case "datetime2":
+    case "datetimeoffset":
+    case "time":
+      return `${type}(${column.scale})`;
+    default:
+      return type;
+  }
+}
+
+/** `SET_NULL` -> `SET NULL`, matching the other providers. */
+function formatAction(action: string): string {
+  return action.replace(/_/g, " ");
+}
+
+/**
+ * Reads the catalog from the `sys.*` views. The schema defaults to the
+ * user's default schema, usually `dbo`.
+ */
+export async function readMsSqlCatalog(
+  db: DatabaseClient,
+  schema?: string
+): Promise<CatalogRows> {
+  const name =
+    schema ??
+    (await db.query<{ name: string }>("SELECT SCHEMA_NAME() AS name")).rows[0]
+      .name;
+
+  const columns = await db.query<MsSqlColumn>(
+    `SELECT t.name AS [table],
+            c.name AS name,
+            ty.name AS typeName,
+            c.max_length AS maxLength,
+            c.precision AS [precision],
+            c.scale AS scale,
+            c.is_nullable AS nullable,
+            c.is_identity AS [identity],
+            OBJECT_DEFINITION(c.default_object_id) AS [default]
+     FROM sys.tables t
+     JOIN sys.schemas s ON s.schema_id = t.schema_id
+     JOIN sys.columns c ON c.object_id = t.object_id
+     JOIN sys.types ty ON ty.user_type_id = c.user_type_id
+     WHERE s.name = ?
+     ORDER BY t.name, c.column_id`,
+    [name]
+  );
+
+  const indexes = await db.query<MsSqlIndexColumn>(
+    `SELECT t.name AS [table],
+            i.name AS name,
+            i.is_unique AS [unique],
+            i.is_primary_key AS [primary],
+            c.name AS [column]
+     FROM sys.indexes i
+     JOIN sys.tables t ON t.object_id = i.object_id
+     JOIN sys.schemas s ON s.schema_id = t.schema_id
+     JOIN sys.index_columns ic
+       ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+     JOIN sys.columns c
+       ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+     WHERE s.name = ? AND i.type > 0 AND ic.is_included_column = 0
+     ORDER BY t.name, i.name, ic.key_ordinal`,
+    [name]
+  );
+
+  const foreignKeys = await db.query<ForeignKeyRow>(
+    `SELECT t.name AS [table],
+            fk.name AS name,
+            c.name AS [column],
+            rt.name AS referencedTable,
+            rc.name AS referencedColumn,
+            fk.delete_referential_action_desc AS onDelete,
+            fk.update_referential_action_desc AS onUpdate
+     FROM sys.foreign_keys fk
+     JOIN sys.tables t ON t.object_id = fk.parent_object_id
+     JOIN sys.schemas s ON s.schema_id = t.schema_id
+     JOIN sys.tables rt ON rt.object_id = fk.referenced_object_id
+     JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+     JOIN sys.columns c
+       ON c.object_id = fkc.parent_object_id AND c.column_id = fkc.parent_column_id
+     JOIN sys.columns rc
+       ON rc.object_id = fkc.referenced_object_id
+      AND rc.column_id = fkc.referenced_column_id
+     WHERE s.name = ?
+     ORDER BY t.name, fk.name, fkc.constraint_column_id`,
+    [name]
+  );
+
+  return {
+    schema: name,
+    columns: columns.rows.map((column) => ({
+      table: column.table,
+      name: column.name,
+      type: formatType(column),
+      nullable: Boolean(column.nullable),
+      default: column.default,
+      autoIncrement: Boolean(column.identity),
+    })),
+    indexes: indexes.rows.map((index) => ({
+      ...index,
+      unique: Boolean(index.unique),
+      primary: Boolean(index.primary),
+    })),
+    foreignKeys: foreignKeys.rows.map((key) => ({
+      ...key,
+      onDelete: formatAction(key.onDelete),
+      onUpdate: formatAction(key.onUpdate),
+    })),
+  };
+}
@@ -0,0 +1,107 @@
+import type { DatabaseClient } from "../types.js";
+import type { CatalogRows } from "./types.js";
+
+interface MySqlColumn {
+  table: string;
+  name: string;
+  type: string;
+  nullable: string;
+  default: string | null;
+  extra: string;
+}
+
+interface MySqlIndexColumn {
+  table: string;
+  name: string;
+  nonUnique: number | string;
+  column: string | null;
+}
+
+interface MySqlForeignKeyColumn {
+  table: string;
+  name: string;
+  column: string;
+  referencedTable: string;
+  referencedColumn: string;
+  onDelete: string;
+  onUpdate: string;
+}
+
+/**
+ * Reads the catalog from `information_schema`. The schema is a database
+ * name, the connection's database by default.
+ */
+export async function readMySqlCatalog(
+  db: DatabaseClient,
+  schema?: string
+): Promise<CatalogRows> {
+  const name =
+    schema ??
+    (await db.query<{ name: string }>("SELECT DATABASE() AS name")).rows[0]
+      .name;
+
+  const columns = await db.query<MySqlColumn>(
+    `SELECT c.TABLE_NAME AS \`table\`,
+            c.COLUMN_NAME AS name,
+            c.COLUMN_TYPE AS type,
+            c.IS_NULLABLE AS nullable,
+            c.COLUMN_DEFAULT AS \`default\`,
+            c.EXTRA AS extra
+     FROM information_schema.COLUMNS c
+     JOIN information_schema.TABLES t
+       ON t.TABLE_SCHEMA = c.TABLE_SCHEMA AND t.TABLE_NAME = c.TABLE_NAME
+     WHERE c.TABLE_SCHEMA = ? AND t.TABLE_TYPE = 'BASE TABLE'
+     ORDER BY c.TABLE_NAME, c.ORDINAL_POSITION`,
+    [name]
+  );
+
+  const indexes = await db.query<MySqlIndexColumn>(
+    `SELECT TABLE_NAME AS \`table\`,
+            INDEX_NAME AS name,
+            NON_UNIQUE AS nonUnique,
+            COLUMN_NAME AS \`column\`
+     FROM information_schema.STATISTICS
+     WHERE TABLE_SCHEMA = ?
+     ORDER BY TABLE_NAME, INDEX_NAME, SEQ_IN_INDEX`,
+    [name]
+  );
+
+  const foreignKeys = await db.query<MySqlForeignKeyColumn>(
+    `SELECT k.TABLE_NAME AS \`table\`,
+            k.CONSTRAINT_NAME AS name,
+            k.COLUMN_NAME AS \`column\`,
+            k.REFERENCED_TABLE_NAME AS referencedTable,
+            k.REFERENCED_COLUMN_NAME AS referencedColumn,
+            r.DELETE_RULE AS onDelete,
+            r.UPDATE_RULE AS onUpdate
+     FROM information_schema.KEY_COLUMN_USAGE k
+     JOIN information_schema.REFERENTIAL_CONSTRAINTS r
+       ON r.CONSTRAINT_SCHEMA = k.CONSTRAINT_SCHEMA
+      AND r.CONSTRAINT_NAME = k.CONSTRAINT_NAME
+      AND r.TABLE_NAME = k.TABLE_NAME
+     WHERE k.TABLE_SCHEMA = ? AND k.REFERENCED_TABLE_NAME IS NOT NULL
+     ORDER BY k.TABLE_NAME, k.CONSTRAINT_NAME, k.ORDINAL_POSITION`,
+    [name]
+  );
+
+  return {
+    schema: name,
+    columns: columns.rows.map((column) => ({
+      table: column.table,
+      name: column.name,
+      type: column.type.toLowerCase(),
+      nullable: column.nullable === "YES",
+      default: column.default,
+      autoIncrement: /auto_increment/i.test(column.extra),
+    })),
+    indexes: indexes.rows.map((index) => ({
+      table: index.table,
+      name: index.name,
+      unique: Number(index.nonUnique) === 0,
+      primary: index.name === "PRIMARY",
+      // Functional key parts (8.0.13+) have no column name
+      column: index.column ?? "(expression)",
+    })),
+    foreignKeys: foreignKeys.rows,
+  };
+}
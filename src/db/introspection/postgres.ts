@@ -0,0 +1,97 @@
+import type { DatabaseClient } from "../types.js";
+import type {
+  CatalogRows,
+  ColumnRow,
+  ForeignKeyRow,
+  IndexRow,
+} from "./types.js";
+
+const REFERENTIAL_ACTIONS: Record<string, string> = {
+  a: "NO ACTION",
+  r: "RESTRICT",
+  c: "CASCADE",
+  n: "SET NULL",
+  d: "SET DEFAULT",
+};
+
+/**
+ * Reads the catalog from `pg_catalog`, which, unlike `information_schema`,
+ * has formatted types, index key order and foreign key column pairs.
+ */
+export async function readPostgresCatalog(
+  db: DatabaseClient,
+  schema?: string
+): Promise<CatalogRows> {
+  const name =
+    schema ??
+    (await db.query<{ name: string }>("SELECT current_schema() AS name"))
+      .rows[0].name;
+
+  const columns = await db.query<ColumnRow>(
+    `SELECT c.relname AS "table",
+            a.attname AS "name",
+            format_type(a.atttypid, a.atttypmod) AS "type",
+            NOT a.attnotnull AS "nullable",
+            pg_get_expr(d.adbin, d.adrelid) AS "default",
+            (a.attidentity <> ''
+              OR COALESCE(pg_get_expr(d.adbin, d.adrelid), '') LIKE 'nextval(%')
+              AS "autoIncrement"
+     FROM pg_attribute a
+     JOIN pg_class c ON c.oid = a.attrelid
+     JOIN pg_namespace n ON n.oid = c.relnamespace
+     LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+     WHERE n.nspname = ? AND c.relkind IN ('r', 'p')
+       AND a.attnum > 0 AND NOT a.attisdropped
+     ORDER BY c.relname, a.attnum`,
+    [name]
+  );
+
+  const indexes = await db.query<IndexRow>(
+    `SELECT t.relname AS "table",
+            i.relname AS "name",
+            ix.indisunique AS "unique",
+            ix.indisprimary AS "primary",
+            pg_get_indexdef(ix.indexrelid, k.ord::int, true) AS "column"
+     FROM pg_index ix
+     JOIN pg_class t ON t.oid = ix.indrelid
+     JOIN pg_class i ON i.oid = ix.indexrelid
+     JOIN pg_namespace n ON n.oid = t.relnamespace
+     CROSS JOIN LATERAL unnest(ix.indkey) WITH ORDINALITY AS k(attnum, ord)
+     WHERE n.nspname = ? AND t.relkind IN ('r', 'p')
+       AND k.ord <= ix.indnkeyatts
+     ORDER BY t.relname, i.relname, k.ord`,
+    [name]
+  );
+
+  const foreignKeys = await db.query<ForeignKeyRow>(
+    `SELECT t.relname AS "table",
+            con.conname AS "name",
+            a.attname AS "column",
+            rt.relname AS "referencedTable",
+            ra.attname AS "referencedColumn",
+            con.confdeltype AS "onDelete",
+            con.confupdtype AS "onUpdate"
+     FROM pg_constraint con
+     JOIN pg_class t ON t.oid = con.conrelid
+     JOIN pg_namespace n ON n.oid = t.relnamespace
+     JOIN pg_class rt ON rt.oid = con.confrelid
+     CROSS JOIN LATERAL unnest(con.conkey, con.confkey)
+       WITH ORDINALITY AS k(attnum, refnum, ord)
+     JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+     JOIN pg_attribute ra ON ra.attrelid = con.confrelid AND ra.attnum = k.refnum
+     WHERE con.contype = 'f' AND n.nspname = ?
+     ORDER BY t.relname, con.conname, k.ord`,
+    [name]
+  );
+
+  return {
+    schema: name,
+    columns: columns.rows,
+    indexes: indexes.rows,
+    foreignKeys: foreignKeys.rows.map((row) => ({
+      ...row,
+      onDelete: REFERENTIAL_ACTIONS[row.onDelete] ?? row.onDelete,
+      onUpdate: REFERENTIAL_ACTIONS[row.onUpdate] ?? row.onUpdate,
+    })),
+  };
+}
@@ -0,0 +1,160 @@
+import type { DatabaseClient } from "../types.js";
+import type {
+  CatalogRows,
+  ColumnRow,
+  ForeignKeyRow,
+  IndexRow,
+} from "./types.js";
+
+interface PragmaColumn {
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+interface PragmaIndex {
+  name: string;
+  unique: number;
+  origin: "c" | "u" | "pk";
+}
+
+interface PragmaForeignKey {
+  id: number;
+  table: string;
+  from: string;
+  to: string | null;
+  on_update: string;
+  on_delete: string;
+}
+
+/**
+ * Reads the catalog through the PRAGMA table-valued functions. The schema is
+ * the attached database name, `main` by default.
+ */
+export async function readSqliteCatalog(
+  db: DatabaseClient,
+  schema = "main"
+): Promise<CatalogRows> {
+  const { rows: tables } = await db.query<{ name: string }>(
+    `SELECT name FROM pragma_table_list WHERE schema = ? AND type = 'table'
+       AND name NOT LIKE 'sqlite_%' ORDER BY name`,
+    [schema]
+  );
+  const catalog: CatalogRows = {
+    schema,
+    columns: [],
+    indexes: [],
+    foreignKeys: [],
+  };
+  const primaryKeys = new Map<string, string[]>();
+
+  for (const { name: table } of tables) {
+    const { rows: columns } = await db.query<PragmaColumn>(
+      "SELECT * FROM pragma_table_info(?, ?) ORDER BY cid",
+      [table, schema]
+    );
+    const primaryKey = columns
+      .filter((column) => column.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map((column) => column.name);
+    primaryKeys.set(table, primaryKey);
+
+    catalog.columns.push(
+      ...columns.map((column): ColumnRow => {
+        // A lone INTEGER PRIMARY KEY is an alias for the rowid
+        const rowid =
+          column.pk > 0 &&
+          primaryKey.length === 1 &&
+          column.type.toUpperCase() === "INTEGER";
+        return {
+          table,
+          name: column.name,
+          type: column.type.toLowerCase(),
+          nullable: column.notnull === 0 && column.pk === 0,
+          default: column.dflt_value,
+          autoIncrement: rowid,
+        };
+      })
+    );
+    catalog.indexes.push(
+      ...primaryKey.map(
+        (column): IndexRow => ({
+          table,
+          name: "PRIMARY",
+          unique: true,
+          primary: true,
+          column,
+        })
+      )
+    );
+
+    const { rows: indexes } = await db.query<PragmaIndex>(
+      "SELECT * FROM pragma_index_list(?, ?) WHERE origin <> 'pk' ORDER BY name",
+      [table, schema]
+    );
+    for (const index of indexes) {
+      const { rows: indexColumns } = await db.query<{ name: string | null }>(
+        "SELECT name FROM pragma_index_info(?, ?) ORDER BY seqno",
+        [index.name, schema]
+      );
+      catalog.indexes.push(
+        ...indexColumns.map(
+          (column): IndexRow => ({
+            table,
+            name: index.name,
+            unique: index.unique === 1,
+            primary: false,
+            column: column.name ?? "(expression)",
+          })
+        )
+      );
+    }
+
+    const { rows: foreignKeys } = await db.query<PragmaForeignKey>(
+      "SELECT * FROM pragma_foreign_key_list(?, ?) ORDER BY id, seq",
+      [table, schema]
+    );
+    for (const key of foreignKeys) {
+      // `to` is null when the reference names only the parent table
+      const position = foreignKeys
+        .filter((other) => other.id === key.id)
+        .indexOf(key);
+      const referencedColumn =
+        key.to ??
+        (await parentKey(db, schema, key.table, primaryKeys))[position];
+      catalog.foreignKeys.push({
+        table,
+        name: null,
+        id: key.id,
+        column: key.from,
+        referencedTable: key.table,
+        referencedColumn,
+        onDelete: key.on_delete,
+        onUpdate: key.on_update,
+      } satisfies ForeignKeyRow);
+    }
+  }
+
+  return catalog;
+}
+
+async function parentKey(
+  db: DatabaseClient,
+  schema: string,
+  table: string,
+  known: Map<string, string[]>
+): Promise<string[]> {
+  const cached = known.get(table);
+  if (cached) return cached;
+
+  const { rows } = await db.query<PragmaColumn>(
+    "SELECT * FROM pragma_table_info(?, ?)",
+    [table, schema]
+  );
+  return rows
+    .filter((column) => column.pk > 0)
+    .sort((a, b) => a.pk - b.pk)
+    .map((column) => column.name);
+}
@@ -0,0 +1,116 @@
+import type { DatabaseProvider } from "../types.js";
+
+/** Portable category of a column type, for assertions that span providers. */
+export type ColumnKind =
+  | "integer"
+  | "decimal"
+  | "float"
+  | "boolean"
+  | "string"
+  | "text"
+  | "date"
+  | "time"
+  | "datetime"
+  | "json"
+  | "uuid"
+  | "binary"
+  | "other";
+
+export interface ColumnSchema {
+  name: string;
+  /** Declared type as the database reports it, lower-cased, e.g. `varchar(255)`. */
+  type: string;
+  kind: ColumnKind;
+  nullable: boolean;
+  /** Default expression in the provider's own syntax, or null. */
+  default: string | null;
+  /** Identity, AUTO_INCREMENT, serial or SQLite rowid alias. */
+  autoIncrement: boolean;
+  /** Whether the primary key or a unique index covers exactly this column. */
+  unique: boolean;
+}
+
+export interface IndexSchema {
+  name: string;
+  columns: string[];
+  unique: boolean;
+}
+
+export interface ForeignKeySchema {
+  /** Constraint name; SQLite foreign keys have none. */
+  name: string | null;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  /** Referential actions, e.g. `CASCADE` or `NO ACTION`. */
+  onDelete: string;
+  onUpdate: string;
+}
+
+export interface TableSchema {
+  name: string;
+  columns: ColumnSchema[];
+  /** Primary key columns in key order, or `[]`. */
+  primaryKey: string[];
+  /** Indexes other than the primary key, including unique constraints. */
+  indexes: IndexSchema[];
+  foreignKeys: ForeignKeySchema[];
+}
+
+/**
+ * Tables of one schema, sorted by name, in the same shape for every
+ * provider. Plain data, so it can be serialized as JSON.
+ */
+export interface SchemaModel {
+  provider: DatabaseProvider;
+  /** Schema (or SQLite database) that was read, e.g. `public` or `dbo`. */
+  schema: string;
+  tables: TableSchema[];
+}
+
+export interface IntrospectOptions {
+  /** Schema to read. Defaults to the connection's current schema. */
+  schema?: string;
+  /** Only these tables. Defaults to every base table in the schema. */
+  tables?: string[];
+}
+
+/** One column, as each provider's catalog query returns it. */
+export interface ColumnRow {
+  table: string;
+  name: string;
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  autoIncrement: boolean;
+}
+
+/** One column of an index; rows of the same index arrive in key order. */
+export interface IndexRow {
+  table: string;
+  name: string;
+  unique: boolean;
+  primary: boolean;
+  column: string;
+}
+
+/** One column pair of a foreign key, in key order. */
+export interface ForeignKeyRow {
+  table: string;
+  name: string | null;
+  /** Groups the rows of an unnamed (SQLite) key. */
+  id?: number;
+  column: string;
+  referencedTable: string;
+  referencedColumn: string;
+  onDelete: string;
+  onUpdate: string;
+}
+
+/** Catalog rows of one schema, before they are assembled into a model. */
+export interface CatalogRows {
+  schema: string;
+  columns: ColumnRow[];
+  indexes: IndexRow[];
+  foreignKeys: ForeignKeyRow[];
+}
@@ -0,0 +1,9 @@
+export { MigrationRunner, migrate } from "./runner.js";
+export { loadMigrations } from "./loader.js";
+export type {
+  Migration,
+  MigrationModule,
+  MigrationOptions,
+  MigrationStatus,
+  MigrationStep,
+} from "./types.js";
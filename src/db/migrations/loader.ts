@@ -0,0 +1,121 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { DatabaseProvider } from "../types.js";
+import type { Migration, MigrationModule } from "./types.js";
+
+/**
+ * `<version>_<name>[.<provider>].up.sql`, `...down.sql`, or
+ * `<version>_<name>[.<provider>].ts|js|mjs`
+ */
+const MIGRATION_FILE =
+  /^(\d+)_([\w-]+?)(?:\.(postgres|mysql|mssql|sqlite))?(?:\.(up|down)\.sql|\.(ts|js|mjs))$/;
+
+interface MigrationFile {
+  version: string;
+  name: string;
+  provider?: DatabaseProvider;
+  direction?: "up" | "down";
+  filePath: string;
+}
+
+/** Orders versions numerically, so `9` sorts before `10`. */
+export function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function parseFileName(
+  directory: string,
+  fileName: string
+): MigrationFile | null {
+  if (fileName.endsWith(".d.ts")) return null;
+
+  const match = MIGRATION_FILE.exec(fileName);
+  if (!match) return null;
+
+  return {
+    version: match[1],
+    name: match[2],
+    provider: match[3] as DatabaseProvider | undefined,
+    direction: match[4] as "up" | "down" | undefined,
+    filePath: path.join(directory, fileName),
+  };
+}
+
+async function loadStep(
+  file: MigrationFile
+): Promise<Pick<Migration, "up" | "down">> {
+  if (file.direction) {
+    const sql = await readFile(file.filePath, "utf8");
+    return file.direction === "up" ? { up: sql } : { up: "", down: sql };
+  }
+
+  const module = (await import(
+    pathToFileURL(path.resolve(file.filePath)).href
+  )) as MigrationModule;
+
+  if (typeof module.up !== "function") {
+    throw new Error(`Migration ${file.filePath} does not export up()`);
+  }
+
+  const { up, down } = module;
+
+  return {
+    up: (client) => up(client),
+    down: down ? (client) => down(client) : undefined,
+  };
+}
+
+/**
+ * Reads the migrations in `directory` that apply to `provider`, ordered by
+ * version. A file named for the provider replaces the generic file for the
+ * same step; versions with only other providers' files are skipped.
+ */
+export async function loadMigrations(
+  directory: string,
+  provider: DatabaseProvider
+): Promise<Migration[]> {
+  const files = (await readdir(directory))
+    .map((fileName) => parseFileName(directory, fileName))
+    .filter((file): file is MigrationFile => file !== null);
+
+  const versions = new Map<string, MigrationFile[]>();
+  for (const file of files) {
+    versions.set(file.version, [...(versions.get(file.version) || []), file]);
+  }
+
+  const migrations: Migration[] = [];
+
+  for (const [version, candidates] of versions) {
+    const pick = (isDown: boolean) => {
+      const matching = candidates.filter(
+        (f) => (f.direction === "down") === isDown
+      );
+      return (
+        matching.find((f) => f.provider === provider) ??
+        matching.find((f) => !f.provider)
+      );
+    };
+
+    const upFile = pick(false);
+    const downFile = pick(true);
+
+    if (!upFile) {
+      if (downFile) {
+        throw new Error(`Migration ${version}_${downFile.name} has no up step`);
+      }
+      continue;
+    }
+
+    const { up, down } = await loadStep(upFile);
+
+    migrations.push({
+      version,
+      name: upFile.name,
+      up,
+      down: downFile ? (await loadStep(downFile)).down : down,
+    });
+  }
+
+  return migrations.sort((a, b) => compareVersions(a.version, b.version));
+}
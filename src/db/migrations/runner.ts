@@ -0,0 +1,183 @@
+import type { DatabaseClient } from "../types.js";
+import { quoteIdentifier } from "../dialect.js";
+import { splitStatements } from "../statements.js";
+import { compareVersions, loadMigrations } from "./loader.js";
+import type {
+  Migration,
+  MigrationOptions,
+  MigrationStatus,
+  MigrationStep,
+} from "./types.js";
+
+/** History table used when `MigrationOptions.table` is not given. */
+export const DEFAULT_MIGRATIONS_TABLE = "schema_migrations";
+
+interface HistoryRow {
+  version: string;
+  applied_at: string;
+}
+
+/**
+ * Applies and reverts versioned migrations from a directory, recording each
+ * applied version in a history table. Every migration runs in its own
+ * transaction (MySQL still commits DDL implicitly).
+ *
+ * @example
+ * const runner = new MigrationRunner(db, { directory: "migrations" });
+ * await runner.up();
+ */
+export class MigrationRunner {
+  private client: DatabaseClient;
+  private directory: string;
+  private table: string;
+
+  constructor(client: DatabaseClient, options: MigrationOptions) {
+    this.client = client;
+    this.directory = options.directory;
+    this.table = options.table || DEFAULT_MIGRATIONS_TABLE;
+  }
+
+  private get quotedTable(): string {
+    return quoteIdentifier(this.client.provider, this.table);
+  }
+
+  private async ensureHistoryTable(): Promise<void> {
+    const columns = `(
+      version VARCHAR(255) NOT NULL PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      applied_at VARCHAR(32) NOT NULL
+    )`;
+
+    if (this.client.provider === "mssql") {
+      await this.client.execute(
+        `IF OBJECT_ID(N'${this.table.replace(/'/g, "''")}', N'U') IS NULL
+         CREATE TABLE ${this.quotedTable} ${columns}`
+      );
+    } else {
+      await this.client.execute(
+        `CREATE TABLE IF NOT EXISTS ${this.quotedTable} ${columns}`
+      );
+    }
+  }
+
+  private async applied(): Promise<Map<string, string>> {
+    await this.ensureHistoryTable();
+
+    const result = await this.client.query<HistoryRow>(
+      `SELECT version, applied_at FROM ${this.quotedTable}`
+    );
+
+    return new Map(result.rows.map((r) => [r.version, r.applied_at]));
+  }
+
+  private async runStep(
+    client: DatabaseClient,
+    step: MigrationStep
+  ): Promise<void> {
+    if (typeof step === "function") {
+      await step(client);
+      return;
+    }
+
+    for (const statement of splitStatements(step, client.provider)) {
+      await client.execute(statement);
+    }
+  }
+
+  async status(): Promise<MigrationStatus[]> {
+    const applied = await this.applied();
+    const migrations = await loadMigrations(
+      this.directory,
+      this.client.provider
+    );
+
+    return migrations.map((m) => ({
+      version: m.version,
+      name: m.name,
+      appliedAt: applied.get(m.version) ?? null,
+    }));
+  }
+
+  /**
+   * Applies pending migrations in version order, up to and including `to`
+   * when given. Returns the migrations that were applied.
+   */
+  async up(options: { to?: string } = {}): Promise<Migration[]> {
+    const { to } = options;
+    const applied = await this.applied();
+    const migrations = await loadMigrations(
+      this.directory,
+      this.client.provider
+    );
+    const pending = migrations.filter(
+      (m) =>
+        !applied.has(m.version) &&
+        (to === undefined || compareVersions(m.version, to) <= 0)
+    );
+
+    for (const migration of pending) {
+      await this.client.transaction(async (tx) => {
+        await this.runStep(tx, migration.up);
+        await tx.execute(
+          `INSERT INTO ${this.quotedTable} (version, name, applied_at) VALUES (?, ?, ?)`,
+          [migration.version, migration.name, new Date().toISOString()]
+        );
+      });
+    }
+
+    return pending;
+  }
+
+  /**
+   * Reverts the most recently applied migrations: one by default, `steps`
+   * of them, or every migration newer than `to`. Returns the migrations
+   * that were reverted.
+   */
+  async down(
+    options: { steps?: number; to?: string } = {}
+  ): Promise<Migration[]> {
+    const { steps = 1, to } = options;
+    const applied = await this.applied();
+    const migrations = await loadMigrations(
+      this.directory,
+      this.client.provider
+    );
+    const candidates = migrations
+      .filter((m) => applied.has(m.version))
+      .reverse();
+
+    const toRevert =
+      to !== undefined
+        ? candidates.filter((m) => compareVersions(m.version, to) > 0)
+        : candidates.slice(0, steps);
+
+    for (const migration of toRevert) {
+      const { down } = migration;
+      if (down === undefined) {
+        throw new Error(
+          `Migration ${migration.version}_${migration.name} has no down step`
+        );
+      }
+
+      await this.client.transaction(async (tx) => {
+        await this.runStep(tx, down);
+        await tx.execute(`DELETE FROM ${this.quotedTable} WHERE version = ?`, [
+          migration.version,
+        ]);
+      });
+    }
+
+    return toRevert;
+  }
+}
+
+/**
+ * Brings the database behind `client` up to the latest migration.
+ * Convenient in a Playwright global setup.
+ */
+export async function migrate(
+  client: DatabaseClient,
+  options: MigrationOptions
+): Promise<Migration[]> {
+  return new MigrationRunner(client, options).up();
+}
@@ -0,0 +1,36 @@
+import type { DatabaseClient } from "../types.js";
+
+/** A SQL script, or a function that changes the schema through a client. */
+export type MigrationStep =
+  | string
+  | ((client: DatabaseClient) => Promise<void>);
+
+export interface Migration {
+  version: string;
+  name: string;
+  up: MigrationStep;
+  down?: MigrationStep;
+}
+
+/**
+ * Shape of a `.ts`/`.js` migration module. Use `client.provider` inside the
+ * functions, or a `<version>_<name>.<provider>.ts` file, for provider-specific
+ * changes.
+ */
+export interface MigrationModule {
+  up(client: DatabaseClient): Promise<void>;
+  down?(client: DatabaseClient): Promise<void>;
+}
+
+export interface MigrationOptions {
+  /** Directory holding the migration files. */
+  directory: string;
+  /** History table name. Defaults to `schema_migrations`. */
+  table?: string;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  appliedAt: string | null;
+}
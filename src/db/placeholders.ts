@@ -0,0 +1,262 @@
+import type { DatabaseProvider, QueryParams } from "./types.js";
+
+export interface RewrittenQuery {
+  sql: string;
+  params?: unknown[];
+}
+
+type Placeholder =
+  | { kind: "positional"; start: number; end: number }
+  | { kind: "numbered"; start: number; end: number; index: number }
+  | { kind: "named"; start: number; end: number; name: string };
+
+const IDENTIFIER_START = /[A-Za-z_]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_]/;
+const DOLLAR_TAG = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/;
+const DOLLAR_NUMBER = /^\$(\d+)/;
+
+/**
+ * Returns the index just past a quoted section starting at `start`.
+ * A doubled closing quote is treated as an escaped quote.
+ */
+export function skipQuoted(
+  sql: string,
+  start: number,
+  close: string,
+  backslashEscapes = false
+): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (backslashEscapes && ch === "\\") {
+      i += 2;
+      continue;
+    }
+    if (ch === close) {
+      if (sql[i + 1] === close) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  return sql.length;
+}
+
+/**
+ * Finds every placeholder in `sql`, ignoring anything inside string
+ * literals, quoted identifiers, dollar-quoted bodies and comments.
+ */
+function scanPlaceholders(
+  sql: string,
+  provider: DatabaseProvider
+): Placeholder[] {
+  const placeholders: Placeholder[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (ch === "'") {
+      i = skipQuoted(sql, i, "'", provider === "mysql");
+    } else if (ch === '"') {
+      i = skipQuoted(sql, i, '"', provider === "mysql");
+    } else if (ch === "`") {
+      i = skipQuoted(sql, i, "`");
+    } else if (ch === "[" && (provider === "mssql" || provider === "sqlite")) {
+      i = skipQuoted(sql, i, "]");
+    } else if (ch === "-" && next === "-") {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (ch === "/" && next === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (ch === "$") {
+      const rest = sql.slice(i);
+      const tag = DOLLAR_TAG.exec(rest);
+      const number = DOLLAR_NUMBER.exec(rest);
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? sql.length : end + tag[0].length;
+      } else if (number) {
+        placeholders.push({
+          kind: "numbered",
+          start: i,
+          end: i + number[0].length,
+          index: parseInt(number[1], 10),
+        });
+        i += number[0].length;
+      } else {
+        i++;
+      }
+    } else if (ch === "?") {
+      placeholders.push({ kind: "positional", start: i, end: i + 1 });
+      i++;
+    } else if (ch === ":") {
+      if (next === ":") {
+        // Postgres type cast, e.g. `value::int`
+        i += 2;
+      } else if (next && IDENTIFIER_START.test(next)) {
+        let end = i + 2;
+        while (end < sql.length && IDENTIFIER_PART.test(sql[end])) end++;
+        placeholders.push({
+          kind: "named",
+          start: i,
+          end,
+          name: sql.slice(i + 1, end),
+        });
+        i = end;
+      } else {
+        i++;
+      }
+    } else {
+      i++;
+    }
+  }
+
+  return placeholders;
+}
+
+/**
+ * Returns the provider's native placeholder for a parameter slot, or null
+ * when the driver only understands `?` markers that consume one value each.
+ */
+function formatPlaceholder(
+  provider: DatabaseProvider,
+  slot: number
+): string | null {
+  switch (provider) {
+    case "postgres":
+      return `$${slot + 1}`;
+    case "mssql":
+      return `@p${slot}`;
+    default:
+      return null;
+  }
+}
+
+function resolveValue(
+  placeholder: Placeholder,
+  params: QueryParams,
+  ordinal: number
+): unknown {
+  switch (placeholder.kind) {
+    case "positional":
+      return (params as unknown[])[ordinal];
+    case "numbered":
+      return (params as unknown[])[placeholder.index - 1];
+    case "named":
+      return (params as Record<string, unknown>)[placeholder.name];
+  }
+}
+
+function validate(
+  placeholders: Placeholder[],
+  params: QueryParams
+): Placeholder["kind"] | null {
+  if (placeholders.length === 0) return null;
+
+  const kind = placeholders[0].kind;
+  if (placeholders.some((p) => p.kind !== kind)) {
+    throw new Error(
+      "Cannot mix ?, $n and :name placeholder styles in a single statement"
+    );
+  }
+
+  if (kind === "named") {
+    if (Array.isArray(params)) {
+      throw new Error(
+        "Named :param placeholders require an object of parameter values"
+      );
+    }
+    for (const p of placeholders) {
+      if (p.kind === "named" && !(p.name in params)) {
+        throw new Error(`Missing value for named parameter :${p.name}`);
+      }
+    }
+    return kind;
+  }
+
+  if (!Array.isArray(params)) {
+    throw new Error(
+      "Positional ? and $n placeholders require an array of parameter values"
+    );
+  }
+
+  if (kind === "positional" && placeholders.length !== params.length) {
+    throw new Error(
+      `Expected ${placeholders.length} parameter(s) for ? placeholders, got ${params.length}`
+    );
+  }
+
+  if (kind === "numbered") {
+    const max = Math.max(
+      ...placeholders.map((p) => (p.kind === "numbered" ? p.index : 0))
+    );
+    if (max > params.length) {
+      throw new Error(
+        `Placeholder $${max} has no value: only ${params.length} parameter(s) given`
+      );
+    }
+  }
+
+  return kind;
+}
+
+/**
+ * Rewrites `?`, `$n` and `:name` placeholders into the form the given
+ * provider's driver expects, and flattens `params` into the matching
+ * positional array. Placeholders inside string literals, quoted identifiers
+ * and comments are left alone.
+ *
+ * When `params` is omitted the SQL is returned untouched, so statements that
+ * legitimately contain `?` or `:` (e.g. Postgres JSON operators) still work.
+ */
+export function rewritePlaceholders(
+  sql: string,
+  params: QueryParams | undefined,
+  provider: DatabaseProvider
+): RewrittenQuery {
+  if (params === undefined) {
+    return { sql };
+  }
+
+  const placeholders = scanPlaceholders(sql, provider);
+  const kind = validate(placeholders, params);
+
+  if (kind === null) {
+    return { sql, params: Array.isArray(params) ? params : [] };
+  }
+
+  const values: unknown[] = [];
+  const slots = new Map<string, number>();
+  let output = "";
+  let cursor = 0;
+
+  placeholders.forEach((placeholder, ordinal) => {
+    const value = resolveValue(placeholder, params, ordinal);
+    const key =
+      placeholder.kind === "named"
+        ? `:${placeholder.name}`
+        : placeholder.kind === "numbered"
+          ? `$${placeholder.index}`
+          : `?${ordinal}`;
+
+    let slot = slots.get(key);
+    if (slot === undefined || formatPlaceholder(provider, slot) === null) {
+      slot = values.length;
+      values.push(value);
+      slots.set(key, slot);
+    }
+
+    output += sql.slice(cursor, placeholder.start);
+    output += formatPlaceholder(provider, slot) ?? "?";
+    cursor = placeholder.end;
+  });
+
+  output += sql.slice(cursor);
+
+  return { sql: output, params: values };
+}
@@ -0,0 +1,189 @@
+import type { DatabaseClient, QueryParams } from "./types.js";
+import { buildWhere, quoteIdentifier } from "./dialect.js";
+import type { RowFilter } from "./dialect.js";
+import { sleep } from "../utils/index.js";
+
+type Row = Record<string, unknown>;
+
+const MAX_REPORTED_ROWS = 20;
+
+export interface PollOptions {
+  /** Total time to keep retrying, in ms. Defaults to 10000. */
+  timeout?: number;
+  /** Delay before the second attempt, in ms. Defaults to 100. */
+  interval?: number;
+  /** Factor applied to the delay after every attempt. Defaults to 1.5. */
+  backoff?: number;
+  /** Upper bound for the delay between attempts, in ms. Defaults to 2000. */
+  maxInterval?: number;
+  /** Prefix for the timeout error message. */
+  message?: string;
+}
+
+export class DbPollTimeoutError extends Error {
+  readonly lastRows: Row[];
+  readonly attempts: number;
+  readonly lastError?: unknown;
+
+  constructor(
+    message: string,
+    lastRows: Row[],
+    attempts: number,
+    lastError?: unknown
+  ) {
+    super(message);
+    this.name = "DbPollTimeoutError";
+    this.lastRows = lastRows;
+    this.attempts = attempts;
+    this.lastError = lastError;
+  }
+}
+
+function describeLastRows(rows: Row[]): string {
+  if (rows.length === 0) return "Last observed rows: none";
+
+  const shown = rows.slice(0, MAX_REPORTED_ROWS);
+  const more =
+    rows.length > shown.length
+      ? `\n... and ${rows.length - shown.length} more`
+      : "";
+  return `Last observed rows (${rows.length}):\n${JSON.stringify(shown, null, 2)}${more}`;
+}
+
+/**
+ * Re-runs a query until `predicate` accepts its rows, waiting longer between
+ * each attempt. Query errors (e.g. a table that does not exist yet) count as
+ * failed attempts. Resolves with the accepted rows, or rejects with a
+ * `DbPollTimeoutError` reporting the last rows observed.
+ */
+export async function pollQuery<T = Row>(
+  client: DatabaseClient,
+  sql: string,
+  params: QueryParams | undefined,
+  predicate: (rows: T[]) => boolean,
+  options: PollOptions = {}
+): Promise<T[]> {
+  const {
+    timeout = 10000,
+    interval = 100,
+    backoff = 1.5,
+    maxInterval = 2000,
+  } = options;
+  const deadline = Date.now() + timeout;
+
+  let delay = interval;
+  let attempts = 0;
+  let lastRows: T[] = [];
+  let lastError: unknown;
+
+  for (;;) {
+    attempts++;
+    try {
+      const result = await client.query<T>(sql, params);
+      lastRows = result.rows;
+      lastError = undefined;
+      if (predicate(lastRows)) return lastRows;
+    } catch (error) {
+      lastError = error;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+
+    await sleep(Math.min(delay, remaining));
+    delay = Math.min(delay * backoff, maxInterval);
+  }
+
+  const reason = lastError
+    ? `Last query failed: ${lastError instanceof Error ? lastError.message : String(lastError)}`
+    : describeLastRows(lastRows as Row[]);
+
+  throw new DbPollTimeoutError(
+    `${options.message || "Condition not met"} after ${attempts} attempt(s) in ${timeout}ms\n` +
+      `Query: ${sql.trim()}\n${reason}`,
+    lastRows as Row[],
+    attempts,
+    lastError
+  );
+}
+
+/**
+ * Polling helpers bound to one client, for database state that is written
+ * asynchronously (queues, background jobs) after an API call.
+ *
+ * @example
+ * await api.post("/users", { email });
+ * const user = await dbPoll.waitForRow("users", { email });
+ */
+export class DbPoller {
+  private client: DatabaseClient;
+  private defaults: PollOptions;
+
+  constructor(client: DatabaseClient, defaults: PollOptions = {}) {
+    this.client = client;
+    this.defaults = defaults;
+  }
+
+  private select(table: string, where?: RowFilter) {
+    const filter = buildWhere(this.client.provider, where);
+    return {
+      sql: `SELECT * FROM ${quoteIdentifier(this.client.provider, table)} ${filter.sql}`,
+      params: filter.params,
+    };
+  }
+
+  async until<T = Row>(
+    sql: string,
+    params: QueryParams | undefined,
+    predicate: (rows: T[]) => boolean,
+    options: PollOptions = {}
+  ): Promise<T[]> {
+    return pollQuery(this.client, sql, params, predicate, {
+      ...this.defaults,
+      ...options,
+    });
+  }
+
+  /**
+   * Waits for a row matching `where` (and `match`, when given) and
+   * resolves with it.
+   */
+  async waitForRow<T = Row>(
+    table: string,
+    where: RowFilter,
+    options: PollOptions & { match?: (row: T) => boolean } = {}
+  ): Promise<T> {
+    const { match = () => true, ...pollOptions } = options;
+    const { sql, params } = this.select(table, where);
+    const rows = await this.until<T>(sql, params, (r) => r.some(match), {
+      message: `No row in ${table} matching ${JSON.stringify(where)}`,
+      ...pollOptions,
+    });
+    return rows.find(match) as T;
+  }
+
+  async waitForNoRow(
+    table: string,
+    where: RowFilter,
+    options: PollOptions = {}
+  ): Promise<void> {
+    const { sql, params } = this.select(table, where);
+    await this.until(sql, params, (rows) => rows.length === 0, {
+      message: `Rows still present in ${table} matching ${JSON.stringify(where)}`,
+      ...options,
+    });
+  }
+
+  async waitForRowCount(
+    table: string,
+    count: number,
+    where?: RowFilter,
+    options: PollOptions = {}
+  ): Promise<Row[]> {
+    const { sql, params } = this.select(table, where);
+    return this.until(sql, params, (rows) => rows.length === count, {
+      message: `Expected ${count} row(s) in ${table}`,
+      ...options,
+    });
+  }
+}
@@ -1,11 +1,50 @@
 import sql from "mssql";
-import type { DatabaseClient, DatabaseConfig, QueryResult } from "../types.js";
+import type {
+  DatabaseClient,
+  DatabaseConfig,
+  QueryParams,
+  QueryResult,
+} from "../types.js";
+import { introspect } from "../introspection/introspect.js";
+import type { IntrospectOptions, SchemaModel } from "../introspection/types.js";
+import { rewritePlaceholders } from "../placeholders.js";
+import { QueryBuilder } from "../query-builder.js";
+import { snapshot } from "../snapshot.js";
+import type { DbSnapshot, SnapshotOptions } from "../snapshot.js";
+
+function convertParams(request: sql.Request, params?: unknown[]): sql.Request {
+  if (!params) return request;
+
+  params.forEach((param, index) => {
+    request.input(`p${index}`, param);
+  });
+
+  return request;
+}
+
+async function runQuery<T>(
+  request: sql.Request,
+  sqlQuery: string,
+  params?: QueryParams
+): Promise<QueryResult<T>> {
+  const rewritten = rewritePlaceholders(sqlQuery, params, "mssql");
+  convertParams(request, rewritten.params);
+
+  const result = await request.query(rewritten.sql);
+
+  return {
+    rows: result.recordset as T[],
+    rowCount: result.rowsAffected[0] || result.recordset?.length || 0,
+    fields: result.recordset?.columns
+      ? Object.keys(result.recordset.columns)
+      : undefined,
+  };
+}
 
 export class MsSqlClient implements DatabaseClient {
+  readonly provider = "mssql" as const;
   private pool: sql.ConnectionPool | null = null;
-  private currentTransaction: sql.Transaction | null = null;
   private config: DatabaseConfig;
-  private isTransaction = false;
 
   constructor(config: DatabaseConfig) {
     this.config = config;
@@ -37,89 +76,151 @@ export class MsSqlClient implements DatabaseClient {
   }
 
   async disconnect(): Promise<void> {
-    if (this.currentTransaction) {
-      this.currentTransaction = null;
-    }
     if (this.pool) {
       await this.pool.close();
       this.pool = null;
     }
   }
 
-  private convertParams(
-    request: sql.Request,
-    params?: unknown[]
-  ): sql.Request {
-    if (!params) return request;
+  async query<T = Record<string, unknown>>(
+    sqlQuery: string,
+    params?: QueryParams
+  ): Promise<QueryResult<T>> {
+    if (!this.pool) {
+      throw new Error("Database not connected. Call connect() first.");
+    }
 
-    params.forEach((param, index) => {
-      request.input(`p${index}`, param);
-    });
+    return runQuery<T>(new sql.Request(this.pool), sqlQuery, params);
+  }
 
-    return request;
+  async execute(sqlQuery: string, params?: QueryParams): Promise<number> {
+    const result = await this.query(sqlQuery, params);
+    return result.rowCount;
   }
 
-  private convertSql(sqlQuery: string, params?: unknown[]): string {
-    if (!params) return sqlQuery;
+  async introspect(options?: IntrospectOptions): Promise<SchemaModel> {
+    return introspect(this, options);
+  }
 
-    let convertedSql = sqlQuery;
-    params.forEach((_, index) => {
-      convertedSql = convertedSql.replace("?", `@p${index}`);
-    });
+  from<T extends object = Record<string, unknown>>(
+    table: string
+  ): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, table);
+  }
 
-    return convertedSql;
+  async snapshot(
+    tables: string[],
+    options?: SnapshotOptions
+  ): Promise<DbSnapshot> {
+    return snapshot(this, tables, options);
   }
 
-  async query<T = Record<string, unknown>>(
-    sqlQuery: string,
-    params?: unknown[]
-  ): Promise<QueryResult<T>> {
+  async transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T> {
     if (!this.pool) {
       throw new Error("Database not connected. Call connect() first.");
     }
 
-    const request = this.isTransaction
-      ? new sql.Request(this.currentTransaction!)
-      : new sql.Request(this.pool);
+    const transaction = new sql.Transaction(this.pool);
+    // Nothing to roll back when BEGIN fails, so it stays outside the try
+    await transaction.begin();
+    const tx = new MsSqlTransactionClient(transaction);
+
+    try {
+      const result = await fn(tx);
+      await transaction.commit();
+      return result;
+    } catch (error) {
+      // Report what went wrong in the transaction, not the failed ROLLBACK,
+      // e.g. when SQL Server already aborted it
+      await transaction.rollback().catch(() => undefined);
+      throw error;
+    } finally {
+      tx.close();
+    }
+  }
+}
+
+/**
+ * A client bound to one open `sql.Transaction`. Queries issued through it
+ * run inside that transaction, and nested `transaction()` calls become
+ * savepoints. Its lifecycle is owned by `MsSqlClient`.
+ */
+class MsSqlTransactionClient implements DatabaseClient {
+  readonly provider = "mssql" as const;
+  private transactionHandle: sql.Transaction | null;
+  private savepointDepth = 0;
+
+  constructor(transaction: sql.Transaction) {
+    this.transactionHandle = transaction;
+  }
+
+  close(): void {
+    this.transactionHandle = null;
+  }
 
-    this.convertParams(request, params);
-    const convertedSql = this.convertSql(sqlQuery, params);
+  async connect(): Promise<void> {}
 
-    const result = await request.query(convertedSql);
+  async disconnect(): Promise<void> {}
 
-    return {
-      rows: result.recordset as T[],
-      rowCount: result.rowsAffected[0] || result.recordset?.length || 0,
-      fields: result.recordset?.columns
-        ? Object.keys(result.recordset.columns)
-        : undefined,
-    };
+  async query<T = Record<string, unknown>>(
+    sqlQuery: string,
+    params?: QueryParams
+  ): Promise<QueryResult<T>> {
+    if (!this.transactionHandle) {
+      throw new Error("Transaction has already finished.");
+    }
+
+    return runQuery<T>(
+      new sql.Request(this.transactionHandle),
+      sqlQuery,
+      params
+    );
   }
 
-  async execute(sqlQuery: string, params?: unknown[]): Promise<number> {
+  async execute(sqlQuery: string, params?: QueryParams): Promise<number> {
     const result = await this.query(sqlQuery, params);
     return result.rowCount;
   }
 
+  async introspect(options?: IntrospectOptions): Promise<SchemaModel> {
+    return introspect(this, options);
+  }
+
+  from<T extends object = Record<string, unknown>>(
+    table: string
+  ): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, table);
+  }
+
+  async snapshot(
+    tables: string[],
+    options?: SnapshotOptions
+  ): Promise<DbSnapshot> {
+    return snapshot(this, tables, options);
+  }
+
+  /**
+   * SQL Server has no RELEASE SAVEPOINT; a committed savepoint simply
+   * becomes part of the enclosing transaction.
+   */
   async transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T> {
-    if (!this.pool) {
-      throw new Error("Database not connected. Call connect() first.");
+    if (!this.transactionHandle) {
+      throw new Error("Transaction has already finished.");
     }
 
-    this.currentTransaction = new sql.Transaction(this.pool);
-    this.isTransaction = true;
+    const transaction = this.transactionHandle;
+    const name = `sp_${++this.savepointDepth}`;
 
     try {
-      await this.currentTransaction.begin();
-      const result = await fn(this);
-      await this.currentTransaction.commit();
-      return result;
+      await new sql.Request(transaction).query(`SAVE TRANSACTION ${name}`);
+      return await fn(this);
     } catch (error) {
-      await this.currentTransaction.rollback();
+      await new sql.Request(transaction)
+        .query(`ROLLBACK TRANSACTION ${name}`)
+        .catch(() => undefined);
       throw error;
     } finally {
-      this.currentTransaction = null;
-      this.isTransaction = false;
+      this.savepointDepth--;
     }
   }
 }
@@ -1,11 +1,56 @@
 import mysql from "mysql2/promise";
-import type { DatabaseClient, DatabaseConfig, QueryResult } from "../types.js";
+import type {
+  DatabaseClient,
+  DatabaseConfig,
+  QueryParams,
+  QueryResult,
+} from "../types.js";
+import { introspect } from "../introspection/introspect.js";
+import type { IntrospectOptions, SchemaModel } from "../introspection/types.js";
+import { rewritePlaceholders } from "../placeholders.js";
+import { QueryBuilder } from "../query-builder.js";
+import { snapshot } from "../snapshot.js";
+import type { DbSnapshot, SnapshotOptions } from "../snapshot.js";
+
+type Executor = mysql.Pool | mysql.PoolConnection;
+
+async function runQuery<T>(
+  executor: Executor,
+  sql: string,
+  params?: QueryParams
+): Promise<QueryResult<T>> {
+  const rewritten = rewritePlaceholders(sql, params, "mysql");
+  const [rows, fields] = await executor.execute(
+    rewritten.sql,
+    rewritten.params
+  );
+
+  const resultRows = Array.isArray(rows) ? rows : [];
+
+  return {
+    rows: resultRows as T[],
+    rowCount: Array.isArray(rows)
+      ? rows.length
+      : (rows as mysql.ResultSetHeader).affectedRows || 0,
+    fields: fields?.map((f) => f.name),
+  };
+}
+
+async function runExecute(
+  executor: Executor,
+  sql: string,
+  params?: QueryParams
+): Promise<number> {
+  const rewritten = rewritePlaceholders(sql, params, "mysql");
+  const [result] = await executor.execute(rewritten.sql, rewritten.params);
+
+  return (result as mysql.ResultSetHeader).affectedRows || 0;
+}
 
 export class MySqlClient implements DatabaseClient {
+  readonly provider = "mysql" as const;
   private pool: mysql.Pool | null = null;
-  private connection: mysql.PoolConnection | null = null;
   private config: DatabaseConfig;
-  private isTransaction = false;
 
   constructor(config: DatabaseConfig) {
     this.config = config;
@@ -26,10 +71,6 @@ export class MySqlClient implements DatabaseClient {
   }
 
   async disconnect(): Promise<void> {
-    if (this.connection) {
-      this.connection.release();
-      this.connection = null;
-    }
     if (this.pool) {
       await this.pool.end();
       this.pool = null;
@@ -38,35 +79,38 @@ export class MySqlClient implements DatabaseClient {
 
   async query<T = Record<string, unknown>>(
     sql: string,
-    params?: unknown[]
+    params?: QueryParams
   ): Promise<QueryResult<T>> {
     if (!this.pool) {
       throw new Error("Database not connected. Call connect() first.");
     }
 
-    const conn = this.isTransaction ? this.connection! : this.pool;
-    const [rows, fields] = await conn.execute(sql, params);
-
-    const resultRows = Array.isArray(rows) ? rows : [];
-
-    return {
-      rows: resultRows as T[],
-      rowCount: Array.isArray(rows)
-        ? rows.length
-        : (rows as mysql.ResultSetHeader).affectedRows || 0,
-      fields: fields?.map((f) => f.name),
-    };
+    return runQuery<T>(this.pool, sql, params);
   }
 
-  async execute(sql: string, params?: unknown[]): Promise<number> {
+  async execute(sql: string, params?: QueryParams): Promise<number> {
     if (!this.pool) {
       throw new Error("Database not connected. Call connect() first.");
     }
 
-    const conn = this.isTransaction ? this.connection! : this.pool;
-    const [result] = await conn.execute(sql, params);
+    return runExecute(this.pool, sql, params);
+  }
+
+  async introspect(options?: IntrospectOptions): Promise<SchemaModel> {
+    return introspect(this, options);
+  }
 
-    return (result as mysql.ResultSetHeader).affectedRows || 0;
+  from<T extends object = Record<string, unknown>>(
+    table: string
+  ): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, table);
+  }
+
+  async snapshot(
+    tables: string[],
+    options?: SnapshotOptions
+  ): Promise<DbSnapshot> {
+    return snapshot(this, tables, options);
   }
 
   async transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T> {
@@ -74,21 +118,109 @@ export class MySqlClient implements DatabaseClient {
       throw new Error("Database not connected. Call connect() first.");
     }
 
-    this.connection = await this.pool.getConnection();
-    this.isTransaction = true;
+    const connection = await this.pool.getConnection();
+    const tx = new MySqlTransactionClient(connection);
+    let rolledBack = true;
+
+    try {
+      await connection.beginTransaction();
+      const result = await fn(tx);
+      await connection.commit();
+      return result;
+    } catch (error) {
+      // Report what went wrong in the transaction, not the failed ROLLBACK
+      await connection.rollback().catch(() => {
+        rolledBack = false;
+      });
+      throw error;
+    } finally {
+      tx.close();
+      // A connection that could not roll back is discarded, not reused
+      if (rolledBack) connection.release();
+      else connection.destroy();
+    }
+  }
+}
+
+/**
+ * A client bound to one pooled connection with an open transaction. Queries
+ * issued through it run inside that transaction, and nested `transaction()`
+ * calls become savepoints. Its lifecycle is owned by `MySqlClient`.
+ */
+class MySqlTransactionClient implements DatabaseClient {
+  readonly provider = "mysql" as const;
+  private connection: mysql.PoolConnection | null;
+  private savepointDepth = 0;
+
+  constructor(connection: mysql.PoolConnection) {
+    this.connection = connection;
+  }
+
+  close(): void {
+    this.connection = null;
+  }
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async query<T = Record<string, unknown>>(
+    sql: string,
+    params?: QueryParams
+  ): Promise<QueryResult<T>> {
+    if (!this.connection) {
+      throw new Error("Transaction has already finished.");
+    }
+
+    return runQuery<T>(this.connection, sql, params);
+  }
+
+  async execute(sql: string, params?: QueryParams): Promise<number> {
+    if (!this.connection) {
+      throw new Error("Transaction has already finished.");
+    }
+
+    return runExecute(this.connection, sql, params);
+  }
+
+  async introspect(options?: IntrospectOptions): Promise<SchemaModel> {
+    return introspect(this, options);
+  }
+
+  from<T extends object = Record<string, unknown>>(
+    table: string
+  ): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, table);
+  }
+
+  async snapshot(
+    tables: string[],
+    options?: SnapshotOptions
+  ): Promise<DbSnapshot> {
+    return snapshot(this, tables, options);
+  }
+
+  async transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T> {
+    if (!this.connection) {
+      throw new Error("Transaction has already finished.");
+    }
+
+    const connection = this.connection;
+    const name = `sp_${++this.savepointDepth}`;
 
     try {
-      await this.connection.beginTransaction();
+      await connection.query(`SAVEPOINT ${name}`);
       const result = await fn(this);
-      await this.connection.commit();
+      await connection.query(`RELEASE SAVEPOINT ${name}`);
       return result;
     } catch (error) {
-      await this.connection.rollback();
+      await connection
+        .query(`ROLLBACK TO SAVEPOINT ${name}`)
+        .then(() => connection.query(`RELEASE SAVEPOINT ${name}`))
+        .catch(() => undefined);
       throw error;
     } finally {
-      this.connection.release();
-      this.connection = null;
-      this.isTransaction = false;
+      this.savepointDepth--;
     }
   }
 }
@@ -1,13 +1,38 @@
 import pg from "pg";
-import type { DatabaseClient, DatabaseConfig, QueryResult } from "../types.js";
+import type {
+  DatabaseClient,
+  DatabaseConfig,
+  QueryParams,
+  QueryResult,
+} from "../types.js";
+import { introspect } from "../introspection/introspect.js";
+import type { IntrospectOptions, SchemaModel } from "../introspection/types.js";
+import { rewritePlaceholders } from "../placeholders.js";
+import { QueryBuilder } from "../query-builder.js";
+import { snapshot } from "../snapshot.js";
+import type { DbSnapshot, SnapshotOptions } from "../snapshot.js";
 
 const { Pool } = pg;
 
+async function runQuery<T>(
+  executor: pg.Pool | pg.PoolClient,
+  sql: string,
+  params?: QueryParams
+): Promise<QueryResult<T>> {
+  const rewritten = rewritePlaceholders(sql, params, "postgres");
+  const result = await executor.query(rewritten.sql, rewritten.params);
+
+  return {
+    rows: result.rows as T[],
+    rowCount: result.rowCount || 0,
+    fields: result.fields?.map((f) => f.name),
+  };
+}
+
 export class PostgresClient implements DatabaseClient {
+  readonly provider = "postgres" as const;
   private pool: pg.Pool | null = null;
-  private client: pg.PoolClient | null = null;
   private config: DatabaseConfig;
-  private isTransaction = false;
 
   constructor(config: DatabaseConfig) {
     this.config = config;
@@ -33,10 +58,6 @@ export class PostgresClient implements DatabaseClient {
   }
 
   async disconnect(): Promise<void> {
-    if (this.client) {
-      this.client.release();
-      this.client = null;
-    }
     if (this.pool) {
       await this.pool.end();
       this.pool = null;
@@ -45,47 +66,141 @@ export class PostgresClient implements DatabaseClient {
 
   async query<T = Record<string, unknown>>(
     sql: string,
-    params?: unknown[]
+    params?: QueryParams
   ): Promise<QueryResult<T>> {
     if (!this.pool) {
       throw new Error("Database not connected. Call connect() first.");
     }
 
-    const client = this.isTransaction ? this.client! : this.pool;
-    const result = await client.query(sql, params);
-
-    return {
-      rows: result.rows as T[],
-      rowCount: result.rowCount || 0,
-      fields: result.fields?.map((f) => f.name),
-    };
+    return runQuery<T>(this.pool, sql, params);
   }
 
-  async execute(sql: string, params?: unknown[]): Promise<number> {
+  async execute(sql: string, params?: QueryParams): Promise<number> {
     const result = await this.query(sql, params);
     return result.rowCount;
   }
 
+  async introspect(options?: IntrospectOptions): Promise<SchemaModel> {
+    return introspect(this, options);
+  }
+
+  from<T extends object = Record<string, unknown>>(
+    table: string
+  ): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, table);
+  }
+
+  async snapshot(
+    tables: string[],
+    options?: SnapshotOptions
+  ): Promise<DbSnapshot> {
+    return snapshot(this, tables, options);
+  }
+
   async transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T> {
     if (!this.pool) {
       throw new Error("Database not connected. Call connect() first.");
     }
 
-    this.client = await this.pool.connect();
-    this.isTransaction = true;
+    const client = await this.pool.connect();
+    const tx = new PostgresTransactionClient(client);
+    let rollbackError: Error | undefined;
+
+    try {
+      await client.query("BEGIN");
+      const result = await fn(tx);
+      await client.query("COMMIT");
+      return result;
+    } catch (error) {
+      // Report what went wrong in the transaction, not the failed ROLLBACK
+      await client.query("ROLLBACK").catch((e: Error) => {
+        rollbackError = e;
+      });
+      throw error;
+    } finally {
+      tx.close();
+      // A connection that could not roll back is discarded, not reused
+      client.release(rollbackError);
+    }
+  }
+}
+
+/**
+ * A client bound to one pooled connection with an open transaction. Queries
+ * issued through it run inside that transaction, and nested `transaction()`
+ * calls become savepoints. Its lifecycle is owned by `PostgresClient`.
+ */
+class PostgresTransactionClient implements DatabaseClient {
+  readonly provider = "postgres" as const;
+  private client: pg.PoolClient | null;
+  private savepointDepth = 0;
+
+  constructor(client: pg.PoolClient) {
+    this.client = client;
+  }
+
+  close(): void {
+    this.client = null;
+  }
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async query<T = Record<string, unknown>>(
+    sql: string,
+    params?: QueryParams
+  ): Promise<QueryResult<T>> {
+    if (!this.client) {
+      throw new Error("Transaction has already finished.");
+    }
+
+    return runQuery<T>(this.client, sql, params);
+  }
+
+  async execute(sql: string, params?: QueryParams): Promise<number> {
+    const result = await this.query(sql, params);
+    return result.rowCount;
+  }
+
+  async introspect(options?: IntrospectOptions): Promise<SchemaModel> {
+    return introspect(this, options);
+  }
+
+  from<T extends object = Record<string, unknown>>(
+    table: string
+  ): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, table);
+  }
+
+  async snapshot(
+    tables: string[],
+    options?: SnapshotOptions
+  ): Promise<DbSnapshot> {
+    return snapshot(this, tables, options);
+  }
+
+  async transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T> {
+    if (!this.client) {
+      throw new Error("Transaction has already finished.");
+    }
+
+    const client = this.client;
+    const name = `sp_${++this.savepointDepth}`;
 
     try {
-      await this.client.query("BEGIN");
+      await client.query(`SAVEPOINT ${name}`);
       const result = await fn(this);
-      await this.client.query("COMMIT");
+      await client.query(`RELEASE SAVEPOINT ${name}`);
       return result;
     } catch (error) {
-      await this.client.query("ROLLBACK");
+      await client
+        .query(`ROLLBACK TO SAVEPOINT ${name}`)
+        .then(() => client.query(`RELEASE SAVEPOINT ${name}`))
+        .catch(() => undefined);
       throw error;
     } finally {
-      this.client.release();
-      this.client = null;
-      this.isTransaction = false;
+      this.savepointDepth--;
     }
   }
 }
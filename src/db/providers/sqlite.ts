@@ -1,9 +1,62 @@
 import Database from "better-sqlite3";
-import type { DatabaseClient, DatabaseConfig, QueryResult } from "../types.js";
+import type {
+  DatabaseClient,
+  DatabaseConfig,
+  QueryParams,
+  QueryResult,
+} from "../types.js";
+import { introspect } from "../introspection/introspect.js";
+import type { IntrospectOptions, SchemaModel } from "../introspection/types.js";
+import { rewritePlaceholders } from "../placeholders.js";
+import { QueryBuilder } from "../query-builder.js";
+import { snapshot } from "../snapshot.js";
+import type { DbSnapshot, SnapshotOptions } from "../snapshot.js";
+
+/**
+ * better-sqlite3 only binds numbers, strings, bigints, buffers and null, so
+ * map the other values other drivers accept onto those.
+ */
+function toSqliteValue(value: unknown): unknown {
+  if (typeof value === "boolean") return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+function runQuery<T>(
+  db: Database.Database,
+  sql: string,
+  params?: QueryParams
+): QueryResult<T> {
+  const rewritten = rewritePlaceholders(sql, params, "sqlite");
+  const stmt = db.prepare(rewritten.sql);
+  const rows = stmt.all(...(rewritten.params || []).map(toSqliteValue)) as T[];
+
+  return {
+    rows,
+    rowCount: rows.length,
+    fields: rows.length > 0 ? Object.keys(rows[0] as object) : undefined,
+  };
+}
+
+function runExecute(
+  db: Database.Database,
+  sql: string,
+  params?: QueryParams
+): number {
+  const rewritten = rewritePlaceholders(sql, params, "sqlite");
+  const stmt = db.prepare(rewritten.sql);
+  const result = stmt.run(...(rewritten.params || []).map(toSqliteValue));
+
+  return result.changes;
+}
 
 export class SqliteClient implements DatabaseClient {
+  readonly provider = "sqlite" as const;
   private db: Database.Database | null = null;
   private config: DatabaseConfig;
+  /** Settles when the running top-level transaction, if any, has finished. */
+  private transactions: Promise<unknown> = Promise.resolve();
 
   constructor(config: DatabaseConfig) {
     this.config = config;
@@ -25,42 +78,166 @@ export class SqliteClient implements DatabaseClient {
 
   async query<T = Record<string, unknown>>(
     sql: string,
-    params?: unknown[]
+    params?: QueryParams
   ): Promise<QueryResult<T>> {
     if (!this.db) {
       throw new Error("Database not connected. Call connect() first.");
     }
 
-    const stmt = this.db.prepare(sql);
-    const rows = stmt.all(...(params || [])) as T[];
-
-    return {
-      rows,
-      rowCount: rows.length,
-      fields: rows.length > 0 ? Object.keys(rows[0] as object) : undefined,
-    };
+    return runQuery<T>(this.db, sql, params);
   }
 
-  async execute(sql: string, params?: unknown[]): Promise<number> {
+  async execute(sql: string, params?: QueryParams): Promise<number> {
     if (!this.db) {
       throw new Error("Database not connected. Call connect() first.");
     }
 
-    const stmt = this.db.prepare(sql);
-    const result = stmt.run(...(params || []));
+    return runExecute(this.db, sql, params);
+  }
+
+  async introspect(options?: IntrospectOptions): Promise<SchemaModel> {
+    return introspect(this, options);
+  }
+
+  from<T extends object = Record<string, unknown>>(
+    table: string
+  ): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, table);
+  }
 
-    return result.changes;
+  async snapshot(
+    tables: string[],
+    options?: SnapshotOptions
+  ): Promise<DbSnapshot> {
+    return snapshot(this, tables, options);
   }
 
+  /**
+   * Runs `fn` between explicit BEGIN and COMMIT statements. better-sqlite3's
+   * own `db.transaction()` only supports synchronous callbacks, so it would
+   * commit before any awaited work inside `fn` finished.
+   *
+   * There is only one connection, so overlapping calls are queued: each
+   * starts once the previous one has committed or rolled back. `fn` receives
+   * a client bound to its transaction, on which nested `transaction()` calls
+   * become SAVEPOINTs. Calling `transaction()` on this client from inside
+   * `fn` would wait for `fn` itself, so nest through the bound client.
+   * Plain queries on this client still share the connection, and with it
+   * the open transaction.
+   */
   async transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T> {
     if (!this.db) {
       throw new Error("Database not connected. Call connect() first.");
     }
 
-    const transaction = this.db.transaction(async () => {
-      return await fn(this);
-    });
+    const turn = this.transactions.then(() => this.runTransaction(fn));
+    this.transactions = turn.catch(() => undefined);
+    return turn;
+  }
+
+  private async runTransaction<T>(
+    fn: (client: DatabaseClient) => Promise<T>
+  ): Promise<T> {
+    if (!this.db) {
+      throw new Error("Database not connected. Call connect() first.");
+    }
+
+    const db = this.db;
+    const tx = new SqliteTransactionClient(db);
+    db.exec("BEGIN");
+
+    try {
+      const result = await fn(tx);
+      db.exec("COMMIT");
+      return result;
+    } catch (error) {
+      // SQLite may already have rolled back on its own (e.g. SQLITE_FULL)
+      if (db.inTransaction) db.exec("ROLLBACK");
+      throw error;
+    } finally {
+      tx.close();
+    }
+  }
+}
+
+/**
+ * A client for the duration of one `SqliteClient` transaction. Nested
+ * `transaction()` calls become savepoints, and it stops working once the
+ * transaction has finished. Its lifecycle is owned by `SqliteClient`.
+ */
+class SqliteTransactionClient implements DatabaseClient {
+  readonly provider = "sqlite" as const;
+  private db: Database.Database | null;
+  private savepointDepth = 0;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  close(): void {
+    this.db = null;
+  }
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async query<T = Record<string, unknown>>(
+    sql: string,
+    params?: QueryParams
+  ): Promise<QueryResult<T>> {
+    if (!this.db) {
+      throw new Error("Transaction has already finished.");
+    }
+
+    return runQuery<T>(this.db, sql, params);
+  }
+
+  async execute(sql: string, params?: QueryParams): Promise<number> {
+    if (!this.db) {
+      throw new Error("Transaction has already finished.");
+    }
+
+    return runExecute(this.db, sql, params);
+  }
+
+  async introspect(options?: IntrospectOptions): Promise<SchemaModel> {
+    return introspect(this, options);
+  }
+
+  from<T extends object = Record<string, unknown>>(
+    table: string
+  ): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, table);
+  }
+
+  async snapshot(
+    tables: string[],
+    options?: SnapshotOptions
+  ): Promise<DbSnapshot> {
+    return snapshot(this, tables, options);
+  }
+
+  async transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T> {
+    if (!this.db) {
+      throw new Error("Transaction has already finished.");
+    }
+
+    const db = this.db;
+    const name = `sp_${++this.savepointDepth}`;
 
-    return transaction() as T;
+    db.exec(`SAVEPOINT ${name}`);
+    try {
+      const result = await fn(this);
+      db.exec(`RELEASE SAVEPOINT ${name}`);
+      return result;
+    } catch (error) {
+      if (db.inTransaction) {
+        db.exec(`ROLLBACK TO SAVEPOINT ${name}; RELEASE SAVEPOINT ${name}`);
+      }
+      throw error;
+    } finally {
+      this.savepointDepth--;
+    }
   }
 }
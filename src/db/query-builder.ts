@@ -0,0 +1,401 @@
+import { buildWhere, quoteIdentifier, splitTableName } from "./dialect.js";
+import type { DatabaseClient } from "./types.js";
+
+type Row = Record<string, unknown>;
+
+/** Equality filter on the columns of `T`; arrays match any of their values. */
+export type Where<T> = { [K in keyof T]?: T[K] | T[K][] | null };
+
+/** Columns to return from `insert()`, `update()` or `delete()`. */
+export type Returning<T> = (keyof T & string)[] | "*";
+
+type Returned<T, R extends Returning<T>> = R extends (infer K)[]
+  ? Pick<T, K & keyof T>
+  : T;
+
+export interface CompiledQuery {
+  sql: string;
+  params: unknown[];
+}
+
+/**
+ * Builds dialect-correct statements for one table: quoting, `LIMIT` or
+ * `TOP`/`OFFSET ... FETCH`, and `RETURNING`, `OUTPUT` or, on MySQL, a
+ * follow-up `SELECT` keyed by `LAST_INSERT_ID()`. Values are always bound
+ * as parameters.
+ *
+ * @example
+ * const user = await db
+ *   .from<User>("users")
+ *   .where({ email })
+ *   .select("id", "name")
+ *   .first();
+ * const [created] = await db.from<User>("users").insert(newUser, ["id"]);
+ * await db.from<User>("users").where({ id }).update({ status: "locked" });
+ */
+export class QueryBuilder<T extends object = Row> {
+  private db: DatabaseClient;
+  private table: string;
+  private filter: Row = {};
+  private columns: string[] = [];
+  private order: string[] = [];
+  private limitCount: number | null = null;
+  private offsetCount: number | null = null;
+
+  constructor(db: DatabaseClient, table: string) {
+    this.db = db;
+    this.table = table;
+  }
+
+  /** Adds equality conditions; repeated calls are combined with AND. */
+  where(filter: Where<T>): this {
+    this.filter = { ...this.filter, ...filter };
+    return this;
+  }
+
+  /**
+   * A builder for the same query that selects only `columns`. Defaults to
+   * all of them.
+   */
+  select<K extends keyof T & string>(
+    ...columns: K[]
+  ): QueryBuilder<Pick<T, K>> {
+    const builder = new QueryBuilder<Pick<T, K>>(this.db, this.table);
+    builder.filter = { ...this.filter };
+    builder.columns = columns;
+    builder.order = [...this.order];
+    builder.limitCount = this.limitCount;
+    builder.offsetCount = this.offsetCount;
+    return builder;
+  }
+
+  orderBy(column: keyof T & string, direction: "asc" | "desc" = "asc"): this {
+    this.order.push(`${this.quote(column)} ${direction.toUpperCase()}`);
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = checkCount("limit", count);
+    return this;
+  }
+
+  offset(count: number): this {
+    this.offsetCount = checkCount("offset", count);
+    return this;
+  }
+
+  /** The SELECT statement, with `?` placeholders. */
+  toSQL(): CompiledQuery {
+    const { provider } = this.db;
+    const where = this.whereClause();
+    const columns = this.columns.length
+      ? this.columns.map((column) => this.quote(column)).join(", ")
+      : "*";
+    const limit = this.limitCount;
+    const offset = this.offsetCount;
+    let orderBy = this.order.length ? ` ORDER BY ${this.order.join(", ")}` : "";
+    let top = "";
+    let page = "";
+
+    if (provider === "mssql") {
+      if (offset !== null) {
+        // OFFSET ... FETCH is only valid after an ORDER BY
+        orderBy ||= " ORDER BY (SELECT NULL)";
+        page =
+          ` OFFSET ${offset} ROWS` +
+          (limit !== null ? ` FETCH NEXT ${limit} ROWS ONLY` : "");
+      } else if (limit !== null) {
+        top = `TOP (${limit}) `;
+      }
+    } else if (limit !== null || offset !== null) {
+      // MySQL and SQLite need a LIMIT before an OFFSET
+      const all = {
+        mysql: "18446744073709551615",
+        sqlite: "-1",
+        postgres: "ALL",
+      };
+      page =
+        ` LIMIT ${limit ?? all[provider]}` +
+        (offset !== null ? ` OFFSET ${offset}` : "");
+    }
+
+    return {
+      sql: `SELECT ${top}${columns} FROM ${this.quote(this.table)}${where.sql}${orderBy}${page}`,
+      params: where.params,
+    };
+  }
+
+  async all(): Promise<T[]> {
+    const { sql, params } = this.toSQL();
+    return (await this.db.query<T>(sql, params)).rows;
+  }
+
+  /** The first matching row, or undefined. */
+  async first(): Promise<T | undefined> {
+    const limit = this.limitCount;
+    this.limitCount = 1;
+    try {
+      return (await this.all())[0];
+    } finally {
+      this.limitCount = limit;
+    }
+  }
+
+  async count(): Promise<number> {
+    const where = this.whereClause();
+    const { rows } = await this.db.query<{ count: unknown }>(
+      `SELECT COUNT(*) AS count FROM ${this.quote(this.table)}${where.sql}`,
+      where.params
+    );
+    return Number(rows[0].count);
+  }
+
+  /**
+   * Inserts one row or several with the same columns. Resolves to the number
+   * of rows inserted, or to the inserted rows when `returning` is given.
+   */
+  insert(values: Partial<T> | Partial<T>[]): Promise<number>;
+  insert<R extends Returning<T>>(
+    values: Partial<T> | Partial<T>[],
+    returning: R
+  ): Promise<Returned<T, R>[]>;
+  async insert(
+    values: Partial<T> | Partial<T>[],
+    returning?: Returning<T>
+  ): Promise<unknown> {
+    const rows = (Array.isArray(values) ? values : [values]) as Row[];
+    const columns = Object.keys(rows[0] ?? {});
+    if (rows.length === 0 || columns.length === 0) {
+      throw new Error(`Nothing to insert into ${this.table}`);
+    }
+    for (const row of rows) {
+      const keys = Object.keys(row);
+      if (
+        keys.length !== columns.length ||
+        !keys.every((key) => columns.includes(key))
+      ) {
+        throw new Error(
+          `Rows inserted into ${this.table} together must have the same columns: ${columns.join(", ")}`
+        );
+      }
+    }
+
+    const tuple = `(${columns.map(() => "?").join(", ")})`;
+    const params = rows.flatMap((row) => columns.map((column) => row[column]));
+    const into = `INSERT INTO ${this.quote(this.table)} (${columns.map((c) => this.quote(c)).join(", ")})`;
+    const valuesSql = `VALUES ${rows.map(() => tuple).join(", ")}`;
+
+    if (!returning) {
+      return this.db.execute(`${into} ${valuesSql}`, params);
+    }
+
+    switch (this.db.provider) {
+      case "mssql":
+        return this.returnRows(
+          `${into} ${this.output("INSERTED", returning)} ${valuesSql}`,
+          params
+        );
+      case "mysql":
+        return this.db.transaction(async (tx) => {
+          await tx.execute(`${into} ${valuesSql}`, params);
+          const key = await this.primaryKey(tx);
+          const keys = rows.every((row) => row[key] !== undefined)
+            ? rows.map((row) => row[key])
+            : await insertedIds(tx, rows.length);
+          return this.selectByKey(tx, key, keys, returning);
+        });
+      default:
+        return this.returnRows(
+          `${into} ${valuesSql}${this.returningClause(returning)}`,
+          params
+        );
+    }
+  }
+
+  /**
+   * Updates the rows matching `where()`. Resolves to the number of rows
+   * changed, or to the updated rows when `returning` is given.
+   */
+  update(values: Partial<T>): Promise<number>;
+  update<R extends Returning<T>>(
+    values: Partial<T>,
+    returning: R
+  ): Promise<Returned<T, R>[]>;
+  async update(values: Partial<T>, returning?: Returning<T>): Promise<unknown> {
+    const entries = Object.entries(values);
+    if (entries.length === 0) {
+      throw new Error(`Nothing to update in ${this.table}`);
+    }
+
+    const where = this.whereClause();
+    const set = `SET ${entries.map(([column]) => `${this.quote(column)} = ?`).join(", ")}`;
+    const params = [...entries.map(([, value]) => value), ...where.params];
+    const update = `UPDATE ${this.quote(this.table)} ${set}`;
+
+    if (!returning) {
+      return this.db.execute(`${update}${where.sql}`, params);
+    }
+
+    switch (this.db.provider) {
+      case "mssql":
+        return this.returnRows(
+          `${update} ${this.output("INSERTED", returning)}${where.sql}`,
+          params
+        );
+      case "mysql":
+        // Find the rows first: the update may change the filtered columns
+        return this.db.transaction(async (tx) => {
+          const key = await this.primaryKey(tx);
+          const { rows } = await tx.query(
+            `SELECT ${this.quote(key)} FROM ${this.quote(this.table)}${where.sql}`,
+            where.params
+          );
+          const keys = rows.map((row) => row[key]);
+          if (keys.length === 0) return [];
+
+          const byKey = buildWhere("mysql", { [key]: keys });
+          await tx.execute(`${update} ${byKey.sql}`, [
+            ...entries.map(([, value]) => value),
+            ...byKey.params,
+          ]);
+          return this.selectByKey(tx, key, keys, returning);
+        });
+      default:
+        return this.returnRows(
+          `${update}${where.sql}${this.returningClause(returning)}`,
+          params
+        );
+    }
+  }
+
+  /**
+   * Deletes the rows matching `where()`. Resolves to the number of rows
+   * deleted, or to the deleted rows when `returning` is given.
+   */
+  delete(): Promise<number>;
+  delete<R extends Returning<T>>(returning: R): Promise<Returned<T, R>[]>;
+  async delete(returning?: Returning<T>): Promise<unknown> {
+    const where = this.whereClause();
+    const from = `DELETE FROM ${this.quote(this.table)}`;
+
+    if (!returning) {
+      return this.db.execute(`${from}${where.sql}`, where.params);
+    }
+
+    switch (this.db.provider) {
+      case "mssql":
+        return this.returnRows(
+          `${from} ${this.output("DELETED", returning)}${where.sql}`,
+          where.params
+        );
+      case "mysql":
+        return this.db.transaction(async (tx) => {
+          const { rows } = await tx.query(
+            `SELECT ${this.columnList(returning)} FROM ${this.quote(this.table)}${where.sql}`,
+            where.params
+          );
+          await tx.execute(`${from}${where.sql}`, where.params);
+          return rows;
+        });
+      default:
+        return this.returnRows(
+          `${from}${where.sql}${this.returningClause(returning)}`,
+          where.params
+        );
+    }
+  }
+
+  private quote(identifier: string): string {
+    return quoteIdentifier(this.db.provider, identifier);
+  }
+
+  private whereClause(): CompiledQuery {
+    const where = buildWhere(this.db.provider, this.filter);
+    return { sql: where.sql ? ` ${where.sql}` : "", params: where.params };
+  }
+
+  private columnList(returning: Returning<T>): string {
+    return returning === "*"
+      ? "*"
+      : returning.map((column) => this.quote(column)).join(", ");
+  }
+
+  private returningClause(returning: Returning<T>): string {
+    return ` RETURNING ${this.columnList(returning)}`;
+  }
+
+  /** MSSQL's `OUTPUT INSERTED.col, ...`, placed before VALUES or WHERE. */
+  private output(
+    prefix: "INSERTED" | "DELETED",
+    returning: Returning<T>
+  ): string {
+    return returning === "*"
+      ? `OUTPUT ${prefix}.*`
+      : `OUTPUT ${returning.map((column) => `${prefix}.${this.quote(column)}`).join(", ")}`;
+  }
+
+  private async returnRows(sql: string, params: unknown[]): Promise<Row[]> {
+    return (await this.db.query(sql, params)).rows;
+  }
+
+  /** The single-column primary key that MySQL reads rows back by. */
+  private async primaryKey(db: DatabaseClient): Promise<string> {
+    const { schema, name } = splitTableName(this.table);
+    const model = await db.introspect({
+      schema: schema ?? undefined,
+      tables: [name],
+    });
+    const [key, ...rest] = model.tables[0].primaryKey;
+    if (!key || rest.length > 0) {
+      throw new Error(
+        `Returning rows on MySQL needs a single-column primary key on ${this.table}`
+      );
+    }
+    return key;
+  }
+
+  private async selectByKey(
+    db: DatabaseClient,
+    key: string,
+    keys: unknown[],
+    returning: Returning<T>
+  ): Promise<Row[]> {
+    const byKey = buildWhere(db.provider, { [key]: keys });
+    const { rows } = await db.query(
+      `SELECT ${this.columnList(returning)} FROM ${this.quote(this.table)} ${byKey.sql}`,
+      byKey.params
+    );
+    // Keep the order of `keys`, which follows the statement's rows
+    const position = new Map(keys.map((value, i) => [String(value), i]));
+    return rows.sort(
+      (a, b) =>
+        (position.get(String(a[key])) ?? 0) -
+        (position.get(String(b[key])) ?? 0)
+    );
+  }
+}
+
+function checkCount(name: string, count: number): number {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${name} must be a non-negative integer, got ${count}`);
+  }
+  return count;
+}
+
+/**
+ * Ids of the rows a multi-row MySQL INSERT just generated. `LAST_INSERT_ID()`
+ * returns the first. InnoDB reserves the ids of a multi-row VALUES insert in
+ * one block, so the rest follow `auto_increment_increment` apart.
+ */
+async function insertedIds(
+  db: DatabaseClient,
+  count: number
+): Promise<number[]> {
+  const { rows } = await db.query<{
+    id: number | string;
+    step: number | string;
+  }>("SELECT LAST_INSERT_ID() AS id, @@auto_increment_increment AS step");
+  const first = Number(rows[0].id);
+  const step = Number(rows[0].step);
+  return Array.from({ length: count }, (_, i) => first + i * step);
+}
@@ -0,0 +1,33 @@
+import type { DatabaseClient } from "./types.js";
+
+class RollbackSignal extends Error {
+  constructor() {
+    super("Rollback requested");
+    this.name = "RollbackSignal";
+  }
+}
+
+/**
+ * Runs `fn` inside a transaction that is always rolled back, even when `fn`
+ * succeeds. If the client is already in a transaction this becomes a
+ * savepoint, so only the work done by `fn` is undone.
+ */
+export async function withRollback<T>(
+  client: DatabaseClient,
+  fn: (client: DatabaseClient) => Promise<T>
+): Promise<T> {
+  let result: T | undefined;
+
+  try {
+    await client.transaction(async (tx) => {
+      result = await fn(tx);
+      throw new RollbackSignal();
+    });
+  } catch (error) {
+    if (!(error instanceof RollbackSignal)) {
+      throw error;
+    }
+  }
+
+  return result as T;
+}
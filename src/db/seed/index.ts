@@ -0,0 +1,10 @@
+export { Seeder, ref } from "./seeder.js";
+export { loadSeed, loadSeedFile, parseCsv } from "./loaders.js";
+export type {
+  SeedBuilder,
+  SeedData,
+  SeededRows,
+  SeederOptions,
+  SeedRow,
+  SeedSource,
+} from "./types.js";
@@ -0,0 +1,79 @@
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { parse as parseYaml } from "yaml";
+import { parseCsvRows } from "../../utils/index.js";
+import type { SeedData, SeedRow } from "./types.js";
+
+const SUPPORTED_EXTENSIONS = [".json", ".yaml", ".yml", ".csv"];
+
+/**
+ * Parses CSV text into rows of strings. Supports quoted fields containing
+ * commas, newlines and doubled quotes. Empty unquoted fields become null.
+ */
+export function parseCsv(text: string): Array<Array<string | null>> {
+  return parseCsvRows(text, { emptyAsNull: true });
+}
+
+/**
+ * Converts a CSV file into seed rows for a single table. An `_alias` column
+ * names each row; without one, rows are aliased by their 1-based line number.
+ */
+function csvToSeedData(table: string, text: string): SeedData {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return { [table]: {} };
+
+  const rows: Record<string, SeedRow> = {};
+
+  records.forEach((record, index) => {
+    const row: SeedRow = {};
+    let alias = String(index + 1);
+
+    header.forEach((column, i) => {
+      if (column === "_alias") {
+        alias = record[i] ?? alias;
+      } else if (column !== null) {
+        row[column] = record[i] ?? null;
+      }
+    });
+
+    rows[alias] = row;
+  });
+
+  return { [table]: rows };
+}
+
+export async function loadSeedFile(filePath: string): Promise<SeedData> {
+  const text = await readFile(filePath, "utf8");
+  const extension = path.extname(filePath).toLowerCase();
+
+  switch (extension) {
+    case ".json":
+      return JSON.parse(text) as SeedData;
+    case ".yaml":
+    case ".yml":
+      return (parseYaml(text) ?? {}) as SeedData;
+    case ".csv":
+      return csvToSeedData(path.basename(filePath, extension), text);
+    default:
+      throw new Error(`Unsupported seed file type: ${filePath}`);
+  }
+}
+
+/**
+ * Loads a seed file, or every supported file in a directory in name order.
+ */
+export async function loadSeed(target: string): Promise<SeedData[]> {
+  if (!(await stat(target)).isDirectory()) {
+    return [await loadSeedFile(target)];
+  }
+
+  const entries = (await readdir(target))
+    .filter((name) =>
+      SUPPORTED_EXTENSIONS.includes(path.extname(name).toLowerCase())
+    )
+    .sort();
+
+  return Promise.all(
+    entries.map((name) => loadSeedFile(path.join(target, name)))
+  );
+}
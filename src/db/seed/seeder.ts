@@ -0,0 +1,260 @@
+import type { DatabaseClient } from "../types.js";
+import { quoteIdentifier } from "../dialect.js";
+import { loadSeed } from "./loaders.js";
+import type {
+  SeedData,
+  SeededRows,
+  SeederOptions,
+  SeedRow,
+  SeedSource,
+} from "./types.js";
+
+const REFERENCE = /^@([A-Za-z_]\w*)\.([^.]+)(?:\.([^.]+))?$/;
+
+interface SeedNode {
+  table: string;
+  alias: string;
+  row: SeedRow;
+}
+
+interface Reference {
+  table: string;
+  alias: string;
+  column?: string;
+}
+
+interface InsertedRow {
+  table: string;
+  primaryKey: string;
+  id: unknown;
+}
+
+/**
+ * Builds a reference to another seeded row for use in TypeScript builders,
+ * e.g. `{ user_id: ref("users", "john") }`.
+ */
+export function ref(table: string, alias: string, column?: string): string {
+  return column ? `@${table}.${alias}.${column}` : `@${table}.${alias}`;
+}
+
+function parseReference(value: unknown): Reference | null {
+  if (typeof value !== "string" || value.startsWith("@@")) return null;
+
+  const match = REFERENCE.exec(value);
+  if (!match) return null;
+
+  return { table: match[1], alias: match[2], column: match[3] };
+}
+
+function nodeKey(table: string, alias: string): string {
+  return `${table}.${alias}`;
+}
+
+/**
+ * Orders rows so that every row comes after the rows it references.
+ * Rows without dependencies keep their declaration order.
+ */
+function orderNodes(nodes: SeedNode[], existing: SeededRows): SeedNode[] {
+  const byKey = new Map(nodes.map((n) => [nodeKey(n.table, n.alias), n]));
+  const ordered: SeedNode[] = [];
+  const state = new Map<string, "visiting" | "done">();
+
+  const visit = (node: SeedNode, path: string[]) => {
+    const key = nodeKey(node.table, node.alias);
+    if (state.get(key) === "done") return;
+    if (state.get(key) === "visiting") {
+      throw new Error(
+        `Circular seed reference: ${[...path, key].join(" -> ")}`
+      );
+    }
+
+    state.set(key, "visiting");
+    for (const value of Object.values(node.row)) {
+      const reference = parseReference(value);
+      if (!reference) continue;
+
+      const target = byKey.get(nodeKey(reference.table, reference.alias));
+      if (target) {
+        visit(target, [...path, key]);
+      } else if (!existing[reference.table]?.[reference.alias]) {
+        throw new Error(`Unknown seed reference ${String(value)} in ${key}`);
+      }
+    }
+    state.set(key, "done");
+    ordered.push(node);
+  };
+
+  nodes.forEach((node) => visit(node, []));
+  return ordered;
+}
+
+async function insertRow(
+  client: DatabaseClient,
+  table: string,
+  row: SeedRow,
+  primaryKey: string
+): Promise<unknown> {
+  const q = (name: string) => quoteIdentifier(client.provider, name);
+  const columns = Object.keys(row);
+  const values = columns.map((column) => row[column]);
+  const columnList = `(${columns.map(q).join(", ")})`;
+  const valueList = columns.length
+    ? `VALUES (${columns.map(() => "?").join(", ")})`
+    : "DEFAULT VALUES";
+  const into = `INSERT INTO ${q(table)}${columns.length ? ` ${columnList}` : ""}`;
+
+  switch (client.provider) {
+    case "mssql": {
+      const result = await client.query(
+        `${into} OUTPUT INSERTED.${q(primaryKey)} ${valueList}`,
+        values
+      );
+      return result.rows[0]?.[primaryKey];
+    }
+    case "mysql": {
+      await client.execute(
+        columns.length ? `${into} ${valueList}` : `${into} () VALUES ()`,
+        values
+      );
+      if (primaryKey in row) return row[primaryKey];
+
+      const result = await client.query<{ id: unknown }>(
+        "SELECT LAST_INSERT_ID() AS id"
+      );
+      return result.rows[0]?.id;
+    }
+    default: {
+      const result = await client.query(
+        `${into} ${valueList} RETURNING ${q(primaryKey)}`,
+        values
+      );
+      return result.rows[0]?.[primaryKey];
+    }
+  }
+}
+
+/**
+ * Inserts declarative seed data through a `DatabaseClient` and remembers
+ * what it inserted so `teardown()` can remove exactly those rows.
+ *
+ * @example
+ * const seeder = new Seeder(db);
+ * const seed = await seeder.seed("src/tests/data/seed");
+ * await api.get(`/users/${seed.users.john.id}`);
+ * await seeder.teardown();
+ */
+export class Seeder {
+  private client: DatabaseClient;
+  private primaryKeys: Record<string, string>;
+  private seeded: SeededRows = {};
+  private inserted: InsertedRow[] = [];
+
+  constructor(client: DatabaseClient, options: SeederOptions = {}) {
+    this.client = client;
+    this.primaryKeys = options.primaryKeys || {};
+  }
+
+  private primaryKeyOf(table: string): string {
+    return this.primaryKeys[table] || "id";
+  }
+
+  private async resolveSources(sources: SeedSource[]): Promise<SeedData[]> {
+    const data: SeedData[] = [];
+
+    for (const source of sources) {
+      if (typeof source === "string") {
+        data.push(...(await loadSeed(source)));
+      } else if (typeof source === "function") {
+        data.push(await source());
+      } else {
+        data.push(source);
+      }
+    }
+
+    return data;
+  }
+
+  private resolveRow(row: SeedRow, seeded: SeededRows): SeedRow {
+    const resolved: SeedRow = {};
+
+    for (const [column, value] of Object.entries(row)) {
+      const reference = parseReference(value);
+      if (reference) {
+        const target = seeded[reference.table][reference.alias];
+        resolved[column] =
+          target[reference.column || this.primaryKeyOf(reference.table)];
+      } else if (typeof value === "string" && value.startsWith("@@")) {
+        resolved[column] = value.slice(1);
+      } else {
+        resolved[column] = value;
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Inserts the rows from every source in a single transaction, ordered so
+   * referenced rows exist first. Rows may reference rows from earlier
+   * `seed()` calls on the same seeder.
+   */
+  async seed(...sources: SeedSource[]): Promise<SeededRows> {
+    const nodes: SeedNode[] = [];
+    const seen = new Set<string>();
+
+    for (const data of await this.resolveSources(sources)) {
+      for (const [table, rows] of Object.entries(data)) {
+        for (const [alias, row] of Object.entries(rows || {})) {
+          const key = nodeKey(table, alias);
+          if (seen.has(key) || this.seeded[table]?.[alias]) {
+            throw new Error(`Duplicate seed alias: ${key}`);
+          }
+          seen.add(key);
+          nodes.push({ table, alias, row: row || {} });
+        }
+      }
+    }
+
+    const ordered = orderNodes(nodes, this.seeded);
+    const seeded: SeededRows = structuredClone(this.seeded);
+    const inserted: InsertedRow[] = [];
+
+    await this.client.transaction(async (tx) => {
+      for (const node of ordered) {
+        const primaryKey = this.primaryKeyOf(node.table);
+        const row = this.resolveRow(node.row, seeded);
+        const id = await insertRow(tx, node.table, row, primaryKey);
+
+        seeded[node.table] ??= {};
+        seeded[node.table][node.alias] = { ...row, [primaryKey]: id };
+        inserted.push({ table: node.table, primaryKey, id });
+      }
+    });
+
+    this.seeded = seeded;
+    this.inserted.push(...inserted);
+
+    return seeded;
+  }
+
+  /**
+   * Deletes every row inserted by this seeder, newest first, so rows are
+   * removed before the rows they reference.
+   */
+  async teardown(): Promise<void> {
+    const rows = [...this.inserted].reverse();
+    const q = (name: string) => quoteIdentifier(this.client.provider, name);
+
+    await this.client.transaction(async (tx) => {
+      for (const row of rows) {
+        await tx.execute(
+          `DELETE FROM ${q(row.table)} WHERE ${q(row.primaryKey)} = ?`,
+          [row.id]
+        );
+      }
+    });
+
+    this.inserted = [];
+    this.seeded = {};
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Column values for one seeded row. A string of the form `@table.alias`
+ * refers to the primary key of another seeded row, and `@table.alias.column`
+ * to any of its columns. Start a string with `@@` for a literal `@`.
+ */
+export type SeedRow = Record<string, unknown>;
+
+/** Rows to insert, keyed by table name and then by row alias. */
+export type SeedData = Record<string, Record<string, SeedRow>>;
+
+export type SeedBuilder = () => SeedData | Promise<SeedData>;
+
+/** A seed file or directory path, an inline data object or a builder. */
+export type SeedSource = string | SeedData | SeedBuilder;
+
+/** Inserted rows (including generated primary keys), by table and alias. */
+export type SeededRows = Record<
+  string,
+  Record<string, Record<string, unknown>>
+>;
+
+export interface SeederOptions {
+  /** Primary key column per table. Defaults to `id`. */
+  primaryKeys?: Record<string, string>;
+}
@@ -0,0 +1,278 @@
+import { isDeepStrictEqual } from "node:util";
+import { quoteIdentifier, splitTableName } from "./dialect.js";
+import type { DatabaseClient } from "./types.js";
+
+type Row = Record<string, unknown>;
+
+export interface SnapshotOptions {
+  /**
+   * Columns left out of the snapshot, so changes to them are not reported:
+   * names for every table, or names per table.
+   */
+  ignoreColumns?: string[] | Record<string, string[]>;
+  /**
+   * Primary key columns per table. By default they are read from the
+   * database; a table without one is keyed by `id`, or by the whole row.
+   */
+  primaryKeys?: Record<string, string | string[]>;
+}
+
+export interface TableSnapshot {
+  primaryKey: string[];
+  /** Columns left out of `rows`. */
+  ignoredColumns: string[];
+  rows: Row[];
+}
+
+/** Contents of a set of tables at one point in time. */
+export interface DbSnapshot {
+  takenAt: Date;
+  tables: Record<string, TableSnapshot>;
+}
+
+export interface RowUpdate {
+  /** Primary key values of the row. */
+  key: Row;
+  before: Row;
+  after: Row;
+  /** Columns whose value changed. */
+  changed: string[];
+}
+
+export interface TableDiff {
+  inserted: Row[];
+  updated: RowUpdate[];
+  deleted: Row[];
+}
+
+export type DbDiff = Record<string, TableDiff>;
+
+/** Expected number of inserted, updated and deleted rows per table. */
+export type ExpectedDbChanges = Record<
+  string,
+  { inserted?: number; updated?: number; deleted?: number }
+>;
+
+const MAX_REPORTED_ROWS = 20;
+
+/** Primary key columns of `table` in key order, or `[]` when it has none. */
+async function readPrimaryKey(
+  db: DatabaseClient,
+  table: string
+): Promise<string[]> {
+  const { schema, name } = splitTableName(table);
+  const model = await db.introspect({
+    schema: schema ?? undefined,
+    tables: [name],
+  });
+  return model.tables[0].primaryKey;
+}
+
+function ignoredColumns(options: SnapshotOptions, table: string): Set<string> {
+  const { ignoreColumns = [] } = options;
+  return new Set(
+    Array.isArray(ignoreColumns) ? ignoreColumns : (ignoreColumns[table] ?? [])
+  );
+}
+
+/**
+ * Reads every row of `tables`. Take one before and one after the code under
+ * test, and compare them with `diffSnapshots()` or `toHaveChanges()`. Every
+ * client exposes it as `db.snapshot(tables, options)`.
+ *
+ * @example
+ * const before = await db.snapshot(["users", "orders"], {
+ *   ignoreColumns: ["updated_at"],
+ * });
+ * await api.post("/users", payload);
+ * await expect(db).toHaveChanges(before, { users: { inserted: 1 } });
+ */
+export async function snapshot(
+  db: DatabaseClient,
+  tables: string[],
+  options: SnapshotOptions = {}
+): Promise<DbSnapshot> {
+  const result: DbSnapshot = { takenAt: new Date(), tables: {} };
+
+  for (const table of tables) {
+    const ignored = ignoredColumns(options, table);
+    const { rows } = await db.query(
+      `SELECT * FROM ${quoteIdentifier(db.provider, table)}`
+    );
+    const configured = options.primaryKeys?.[table];
+    let primaryKey = configured
+      ? [configured].flat()
+      : await readPrimaryKey(db, table);
+    if (
+      !configured &&
+      primaryKey.length === 0 &&
+      rows.length > 0 &&
+      "id" in rows[0]
+    ) {
+      primaryKey = ["id"];
+    }
+
+    result.tables[table] = {
+      primaryKey,
+      ignoredColumns: [...ignored],
+      rows: rows.map((row) =>
+        Object.fromEntries(
+          Object.entries(row).filter(([column]) => !ignored.has(column))
+        )
+      ),
+    };
+  }
+
+  return result;
+}
+
+function keyOf(row: Row, primaryKey: string[]): Row {
+  return Object.fromEntries(primaryKey.map((column) => [column, row[column]]));
+}
+
+/** JSON that keeps bigints, which `JSON.stringify` rejects, as strings. */
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_, item) =>
+    typeof item === "bigint" ? `${item}n` : item
+  );
+}
+
+/**
+ * Rows grouped by primary key, or by their whole content without one, so
+ * identical rows of a table without a key are counted rather than merged.
+ */
+function indexRows(snapshot: TableSnapshot): Map<string, Row[]> {
+  const index = new Map<string, Row[]>();
+  for (const row of snapshot.rows) {
+    const key = serialize(
+      snapshot.primaryKey.length > 0 ? keyOf(row, snapshot.primaryKey) : row
+    );
+    const rows = index.get(key);
+    if (rows) rows.push(row);
+    else index.set(key, [row]);
+  }
+  return index;
+}
+
+/**
+ * Compares two snapshots of the same tables. Rows are matched by primary
+ * key; without one, a changed row shows as deleted and inserted.
+ */
+export function diffSnapshots(before: DbSnapshot, after: DbSnapshot): DbDiff {
+  const diff: DbDiff = {};
+
+  for (const [table, old] of Object.entries(before.tables)) {
+    const current = after.tables[table];
+    if (!current) {
+      throw new Error(`Table ${table} is missing from the second snapshot`);
+    }
+
+    const oldRows = indexRows(old);
+    const newRows = indexRows(current);
+    const tableDiff: TableDiff = { inserted: [], updated: [], deleted: [] };
+
+    for (const [key, rows] of newRows) {
+      const previousRows = oldRows.get(key) ?? [];
+      rows.forEach((row, i) => {
+        const previous = previousRows[i];
+        if (!previous) {
+          tableDiff.inserted.push(row);
+          return;
+        }
+        const columns = new Set([
+          ...Object.keys(previous),
+          ...Object.keys(row),
+        ]);
+        const changed = [...columns].filter(
+          (column) => !isDeepStrictEqual(previous[column], row[column])
+        );
+        if (changed.length > 0) {
+          tableDiff.updated.push({
+            key: keyOf(row, current.primaryKey),
+            before: previous,
+            after: row,
+            changed,
+          });
+        }
+      });
+    }
+    for (const [key, rows] of oldRows) {
+      const remaining = newRows.get(key)?.length ?? 0;
+      tableDiff.deleted.push(...rows.slice(remaining));
+    }
+
+    diff[table] = tableDiff;
+  }
+
+  return diff;
+}
+
+function printValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `<${value.length} bytes>`;
+  if (typeof value === "bigint") return String(value);
+  return serialize(value) ?? String(value);
+}
+
+function printRow(row: Row): string {
+  return `{ ${Object.entries(row)
+    .map(([column, value]) => `${column}: ${printValue(value)}`)
+    .join(", ")} }`;
+}
+
+/** Describes a diff with one line per changed row. */
+export function formatDiff(diff: DbDiff): string {
+  const sections = Object.entries(diff).map(([table, changes]) => {
+    const lines = [
+      ...changes.inserted.map((row) => `  + ${printRow(row)}`),
+      ...changes.updated.map(
+        (u) =>
+          `  ~ ${printRow(u.key)}: ` +
+          u.changed
+            .map(
+              (c) =>
+                `${c} ${printValue(u.before[c])} -> ${printValue(u.after[c])}`
+            )
+            .join(", ")
+      ),
+      ...changes.deleted.map((row) => `  - ${printRow(row)}`),
+    ];
+    const shown = lines.slice(0, MAX_REPORTED_ROWS);
+    if (lines.length > shown.length) {
+      shown.push(`  ... and ${lines.length - shown.length} more`);
+    }
+    return (
+      `${table}: ${changes.inserted.length} inserted, ` +
+      `${changes.updated.length} updated, ${changes.deleted.length} deleted` +
+      (shown.length > 0 ? `\n${shown.join("\n")}` : "")
+    );
+  });
+
+  return sections.join("\n");
+}
+
+/**
+ * Tables whose changes differ from `expected`. Tables that are not listed,
+ * and counts that are not given, are expected to be unchanged.
+ */
+export function unexpectedChanges(
+  diff: DbDiff,
+  expected: ExpectedDbChanges
+): string[] {
+  for (const table of Object.keys(expected)) {
+    if (!diff[table]) {
+      throw new Error(`Table ${table} is not in the snapshot`);
+    }
+  }
+
+  return Object.entries(diff)
+    .filter(([table, changes]) => {
+      const wanted = expected[table] ?? {};
+      return (
+        changes.inserted.length !== (wanted.inserted ?? 0) ||
+        changes.updated.length !== (wanted.updated ?? 0) ||
+        changes.deleted.length !== (wanted.deleted ?? 0)
+      );
+    })
+    .map(([table]) => table);
+}
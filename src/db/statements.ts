@@ -0,0 +1,72 @@
+import type { DatabaseProvider } from "./types.js";
+import { skipQuoted } from "./placeholders.js";
+
+const DOLLAR_TAG = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/;
+const GO_SEPARATOR = /^\s*GO\s*$/gim;
+
+/**
+ * Splits a SQL script into individual statements on `;`, ignoring semicolons
+ * inside string literals, quoted identifiers, dollar-quoted bodies and
+ * comments. Needed because prepared statements (SQLite, MySQL) run only one
+ * statement at a time.
+ *
+ * MSSQL scripts are split on `GO` lines instead, since procedure and trigger
+ * bodies must be sent as a batch of their own.
+ */
+export function splitStatements(
+  sql: string,
+  provider: DatabaseProvider
+): string[] {
+  if (provider === "mssql") {
+    return sql
+      .split(GO_SEPARATOR)
+      .map((batch) => batch.trim())
+      .filter(Boolean);
+  }
+
+  const statements: string[] = [];
+  let start = 0;
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (ch === "'" || ch === '"' || ch === "`") {
+      i = skipQuoted(sql, i, ch, provider === "mysql" && ch !== "`");
+    } else if (ch === "-" && next === "-") {
+      const end = sql.indexOf("\n", i);
+      i = end === -1 ? sql.length : end + 1;
+    } else if (ch === "/" && next === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      i = end === -1 ? sql.length : end + 2;
+    } else if (ch === "$") {
+      const tag = DOLLAR_TAG.exec(sql.slice(i));
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        i = end === -1 ? sql.length : end + tag[0].length;
+      } else {
+        i++;
+      }
+    } else if (ch === ";") {
+      statements.push(sql.slice(start, i));
+      start = ++i;
+    } else {
+      i++;
+    }
+  }
+
+  statements.push(sql.slice(start));
+
+  return statements.map((s) => s.trim()).filter(isExecutable);
+}
+
+/** Drops fragments that contain nothing but whitespace and comments. */
+function isExecutable(statement: string): boolean {
+  return (
+    statement
+      .replace(/--[^\n]*/g, "")
+      .replace(/\/\*[\s\S]*?\*\//g, "")
+      .trim() !== ""
+  );
+}
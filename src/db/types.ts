@@ -1,3 +1,7 @@
+import type { IntrospectOptions, SchemaModel } from "./introspection/types.js";
+import type { QueryBuilder } from "./query-builder.js";
+import type { DbSnapshot, SnapshotOptions } from "./snapshot.js";
+
 export type DatabaseProvider = "postgres" | "mysql" | "mssql" | "sqlite";
 
 export interface DatabaseConfig {
@@ -16,6 +20,12 @@ export interface DatabaseConfig {
   ssl?: boolean | object;
 }
 
+/**
+ * Statement parameters. Arrays bind `?` or `$n` placeholders; objects bind
+ * named `:param` placeholders. Every provider accepts all three styles.
+ */
+export type QueryParams = unknown[] | Record<string, unknown>;
+
 export interface QueryResult<T = Record<string, unknown>> {
   rows: T[];
   rowCount: number;
@@ -23,12 +33,37 @@ export interface QueryResult<T = Record<string, unknown>> {
 }
 
 export interface DatabaseClient {
+  readonly provider: DatabaseProvider;
   connect(): Promise<void>;
   disconnect(): Promise<void>;
   query<T = Record<string, unknown>>(
     sql: string,
-    params?: unknown[]
+    params?: QueryParams
   ): Promise<QueryResult<T>>;
-  execute(sql: string, params?: unknown[]): Promise<number>;
+  execute(sql: string, params?: QueryParams): Promise<number>;
+  /**
+   * Reads the tables, columns, indexes and foreign keys of a schema into a
+   * model that has the same shape for every provider.
+   */
+  introspect(options?: IntrospectOptions): Promise<SchemaModel>;
+  /**
+   * Starts a dialect-aware query on `table`, e.g.
+   * `db.from<User>("users").where({ email }).first()`.
+   */
+  from<T extends object = Record<string, unknown>>(
+    table: string
+  ): QueryBuilder<T>;
+  /**
+   * Reads every row of `tables`, to compare with a later snapshot, e.g.
+   * `await expect(db).toHaveChanges(await db.snapshot(["users"]), {...})`.
+   */
+  snapshot(tables: string[], options?: SnapshotOptions): Promise<DbSnapshot>;
+  /**
+   * Runs `fn` in a transaction that commits when it resolves and rolls back
+   * when it rejects. `fn` receives a client bound to the transaction; queries
+   * on the outer client keep running outside it. Calling `transaction()` on
+   * the bound client opens a savepoint, so nested work can be undone without
+   * aborting the outer transaction.
+   */
   transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T>;
 }
@@ -0,0 +1,135 @@
+import type { ExpectMatcherState, MatcherReturnType } from "@playwright/test";
+import { ApiResponse, formatViolations, validateSchema } from "../api/index.js";
+import type {
+  JsonSchema,
+  MockRequestFilter,
+  MockServer,
+} from "../api/index.js";
+import type { DatabaseClient } from "../db/index.js";
+import {
+  formatReconciliation,
+  isReconciled,
+  reconcile,
+} from "../reconcile/index.js";
+import type { EntityMapping, ReconcileOptions } from "../reconcile/index.js";
+
+const MAX_PRINTED_BODY = 2000;
+
+/**
+ * `expect` matchers for `ApiResponse` and `MockServer`.
+ *
+ * @example
+ * await expect(response).toMatchSchema(userSchema);
+ * await expect(response).toMatchSchema(
+ *   spec.responseSchema({ operationId: "getUser" }, 200)
+ * );
+ * expect(mockServer).toHaveReceived("POST", "/users", {
+ *   body: { name: "Ann" },
+ *   times: 1,
+ * });
+ * await expect(response).toMatchDatabase(db, userEntity);
+ */
+export const apiMatchers = {
+  async toMatchSchema(
+    this: ExpectMatcherState,
+    response: ApiResponse,
+    schema: JsonSchema
+  ): Promise<MatcherReturnType> {
+    const body = await response.json();
+    const violations = validateSchema(body, schema);
+    const pass = violations.length === 0;
+
+    const printed = JSON.stringify(body, null, 2) ?? String(body);
+    const bodyPreview =
+      printed.length > MAX_PRINTED_BODY
+        ? `${printed.slice(0, MAX_PRINTED_BODY)}\n...`
+        : printed;
+
+    return {
+      name: "toMatchSchema",
+      pass,
+      actual: body,
+      message: () =>
+        `${this.utils.matcherHint("toMatchSchema", "response", "schema", {
+          isNot: this.isNot,
+        })}\n\n` +
+        (pass
+          ? `Expected ${response.status} ${response.url} not to match the schema`
+          : `${response.status} ${response.url} has ${violations.length} schema violation(s):\n` +
+            formatViolations(violations)) +
+        `\n\nReceived body:\n${bodyPreview}`,
+    };
+  },
+
+  /**
+   * Passes when the server received `method` `path` with the given query,
+   * headers and body fields: exactly `times` times when set, else at least
+   * once.
+   */
+  toHaveReceived(
+    this: ExpectMatcherState,
+    server: MockServer,
+    method: string,
+    path: string,
+    expected: MockRequestFilter & { times?: number } = {}
+  ): MatcherReturnType {
+    const { times, ...filter } = expected;
+    const count = server.received(method, path, filter).length;
+    const pass = times === undefined ? count > 0 : count === times;
+    const wanted = times === undefined ? "at least once" : `${times} time(s)`;
+    const received =
+      server.requests
+        .map((r) => `  ${r.method} ${r.path} ${r.text}`.trimEnd())
+        .join("\n") || "  none";
+
+    return {
+      name: "toHaveReceived",
+      pass,
+      expected: times,
+      actual: count,
+      message: () =>
+        `${this.utils.matcherHint("toHaveReceived", "server", "request", {
+          isNot: this.isNot,
+        })}\n\n` +
+        `Expected ${method} ${path}${
+          Object.keys(filter).length > 0
+            ? ` matching ${JSON.stringify(filter)}`
+            : ""
+        } ${pass ? "not " : ""}to be received ${wanted}, ` +
+        `received ${count} time(s)\n\nAll requests:\n${received}`,
+    };
+  },
+
+  /**
+   * Passes when the entity, or every entity of a list, in the response
+   * matches its row field by field. See `reconcile()`.
+   */
+  async toMatchDatabase(
+    this: ExpectMatcherState,
+    received: ApiResponse | unknown,
+    db: DatabaseClient,
+    mapping: EntityMapping,
+    options?: ReconcileOptions
+  ): Promise<MatcherReturnType> {
+    const report = await reconcile(received, db, mapping, options);
+    const pass = isReconciled(report);
+
+    return {
+      name: "toMatchDatabase",
+      pass,
+      actual: report,
+      message: () =>
+        `${this.utils.matcherHint(
+          "toMatchDatabase",
+          "response",
+          "db, mapping",
+          {
+            isNot: this.isNot,
+          }
+        )}\n\n` +
+        (pass
+          ? `Expected ${report.compared} API entities not to match ${report.table}`
+          : formatReconciliation(report)),
+    };
+  },
+};
@@ -1,35 +1,217 @@
-import { test as base } from "@playwright/test";
-import { ApiClient } from "../api/index.js";
-import { DatabaseFactory, DatabaseClient } from "../db/index.js";
+import { test as base, expect as baseExpect } from "@playwright/test";
+import type { TestInfo } from "@playwright/test";
+import {
+  ApiClient,
+  Cassette,
+  ExchangeRecorder,
+  GraphQLClient,
+  MockServer,
+  authFromEnv,
+  cassettePathFor,
+} from "../api/index.js";
+import type {
+  AuthStrategy,
+  CassetteMatchField,
+  CassetteMode,
+  RetryAttempt,
+  RetryPolicy,
+} from "../api/index.js";
+import {
+  DatabaseFactory,
+  DatabaseClient,
+  DbPoller,
+  PollOptions,
+  Seeder,
+  withRollback,
+} from "../db/index.js";
+import { apiMatchers } from "./api-matchers.js";
+import { dbMatchers } from "./db-matchers.js";
 import dotenv from "dotenv";
 
 dotenv.config();
 
+/**
+ * - `none`: writes made through `db` are kept.
+ * - `rollback`: each test runs inside a transaction that is rolled back in
+ *   teardown, whether the test passed or failed.
+ */
+export type DbIsolation = "none" | "rollback";
+
+/**
+ * When the `api` fixture attaches its recorded HTTP exchanges (HAR and cURL)
+ * to the test report.
+ */
+export type ApiLogMode = "on" | "off" | "on-failure";
+
+export interface TestOptions {
+  dbIsolation: DbIsolation;
+  /** Defaults for the `dbPoll` helpers (timeout, interval, backoff). */
+  dbPollOptions: PollOptions;
+  /**
+   * Request-level retries for `api`; `false`, the default, disables them.
+   * Retries are listed as `api-retry` annotations in the report.
+   */
+  apiRetry: RetryPolicy | false;
+  apiLog: ApiLogMode;
+  /**
+   * Record/replay mode for `api`, `API_VCR_MODE` by default. Cassettes are
+   * kept per test under `API_CASSETTE_DIR` (`src/tests/data/cassettes`).
+   */
+  apiVcrMode: CassetteMode;
+  /** Request parts compared when replaying. */
+  apiVcrMatch: CassetteMatchField[];
+  /** GraphQL endpoint for `gql`, `GRAPHQL_ENDPOINT` or `/graphql` by default. */
+  graphqlEndpoint: string;
+}
+
+export interface WorkerFixtures {
+  /**
+   * Auth strategies used by `api`, built from env by default. Worker-scoped
+   * so cached OAuth2 tokens are reused across tests.
+   */
+  apiAuth: AuthStrategy[];
+}
+
 export interface TestFixtures {
   api: ApiClient;
+  /**
+   * A local HTTP server for stubbing the API under test. Using it points
+   * `api` at the server, and a request that no route matched fails the test.
+   */
+  mockServer: MockServer;
+  /** A GraphQL client that sends through `api`. */
+  gql: GraphQLClient;
   db: DatabaseClient;
+  dbPoll: DbPoller;
+  seeder: Seeder;
 }
 
-export const test = base.extend<TestFixtures>({
-  api: async ({ request }, use) => {
+function describeRetry(attempt: RetryAttempt): string {
+  const outcome = attempt.status ?? attempt.error ?? "no response";
+  return `${attempt.method} ${attempt.url} -> ${outcome} (attempt ${attempt.attempt}, retrying in ${attempt.delay}ms)`;
+}
+
+const VCR_MODES: CassetteMode[] = ["off", "record", "replay", "auto"];
+
+async function openCassette(
+  mode: CassetteMode,
+  match: CassetteMatchField[],
+  testInfo: TestInfo
+): Promise<Cassette | undefined> {
+  if (!VCR_MODES.includes(mode)) {
+    throw new Error(
+      `API_VCR_MODE must be one of ${VCR_MODES.join(", ")}, got: ${mode}`
+    );
+  }
+  if (mode === "off") return undefined;
+
+  const directory = process.env.API_CASSETTE_DIR || "src/tests/data/cassettes";
+  return Cassette.open({
+    path: cassettePathFor(testInfo, directory),
+    mode,
+    match,
+  });
+}
+
+export const test = base.extend<TestFixtures & TestOptions, WorkerFixtures>({
+  dbIsolation: ["none", { option: true }],
+  dbPollOptions: [{}, { option: true }],
+  apiRetry: [false, { option: true }],
+  apiLog: ["on-failure", { option: true }],
+  apiVcrMode: [
+    (process.env.API_VCR_MODE as CassetteMode) || "off",
+    { option: true },
+  ],
+  apiVcrMatch: [["method", "path", "query", "body"], { option: true }],
+  graphqlEndpoint: [
+    process.env.GRAPHQL_ENDPOINT || "/graphql",
+    { option: true },
+  ],
+
+  apiAuth: [
+    // eslint-disable-next-line no-empty-pattern
+    async ({}, use) => {
+      await use(authFromEnv());
+    },
+    { scope: "worker", option: true },
+  ],
+
+  api: async (
+    { request, apiAuth, apiRetry, apiLog, apiVcrMode, apiVcrMatch },
+    use,
+    testInfo
+  ) => {
+    const onRetry = (attempt: RetryAttempt) => {
+      testInfo.annotations.push({
+        type: "api-retry",
+        description: describeRetry(attempt),
+      });
+      if (apiRetry) apiRetry.onRetry?.(attempt);
+    };
+    const recorder = new ExchangeRecorder();
+    const cassette = await openCassette(apiVcrMode, apiVcrMatch, testInfo);
     const apiClient = new ApiClient(request, {
       baseURL: process.env.BASE_URL,
-      headers: {
-        Authorization: process.env.API_TOKEN
-          ? `Bearer ${process.env.API_TOKEN}`
-          : "",
-      },
+      auth: apiAuth,
+      retry: apiRetry ? { ...apiRetry, onRetry } : undefined,
+      recorder: apiLog === "off" ? undefined : recorder,
+      cassette,
     });
     await use(apiClient);
+    await cassette?.save();
+
+    const failed = testInfo.status !== testInfo.expectedStatus;
+    if (apiLog === "on" || (apiLog === "on-failure" && failed)) {
+      await recorder.attach(testInfo);
+    }
+  },
+
+  mockServer: async ({ api }, use, testInfo) => {
+    const server = await MockServer.start();
+    api.setBaseURL(server.url);
+    try {
+      await use(server);
+    } finally {
+      await server.stop();
+    }
+
+    const passed = testInfo.status === testInfo.expectedStatus;
+    if (passed && server.unmatched.length > 0) {
+      const requests = server.unmatched
+        .map((r) => `  ${r.method} ${r.path}`)
+        .join("\n");
+      throw new Error(`MockServer received unstubbed requests:\n${requests}`);
+    }
+  },
+
+  gql: async ({ api, graphqlEndpoint }, use) => {
+    await use(new GraphQLClient(api, { endpoint: graphqlEndpoint }));
   },
 
-  // eslint-disable-next-line no-empty-pattern
-  db: async ({}, use) => {
+  db: async ({ dbIsolation }, use) => {
     const db = DatabaseFactory.fromEnv();
     await db.connect();
-    await use(db);
-    await db.disconnect();
+
+    try {
+      if (dbIsolation === "rollback") {
+        await withRollback(db, (tx) => use(tx));
+      } else {
+        await use(db);
+      }
+    } finally {
+      await db.disconnect();
+    }
+  },
+
+  dbPoll: async ({ db, dbPollOptions }, use) => {
+    await use(new DbPoller(db, dbPollOptions));
+  },
+
+  seeder: async ({ db }, use) => {
+    const seeder = new Seeder(db);
+    await use(seeder);
+    await seeder.teardown();
   },
 });
 
-export { expect } from "@playwright/test";
+export const expect = baseExpect.extend({ ...apiMatchers, ...dbMatchers });
@@ -0,0 +1,333 @@
+import { test } from "@playwright/test";
+import type { ExpectMatcherState, MatcherReturnType } from "@playwright/test";
+import {
+  TablesNotFoundError,
+  checkSchemaDrift,
+  diffSnapshots,
+  findColumn,
+  formatDiff,
+  formatSchemaChanges,
+  selectRows,
+  unexpectedChanges,
+  valuesMatch,
+} from "../db/index.js";
+import type {
+  ColumnSchema,
+  DatabaseClient,
+  DbSnapshot,
+  ExpectedDbChanges,
+  RowFilter,
+  SchemaDriftOptions,
+  SchemaModel,
+} from "../db/index.js";
+
+type Row = Record<string, unknown>;
+
+const MAX_PRINTED_ROWS = 20;
+
+function rowMatches(row: Row, partial: Row): boolean {
+  return Object.entries(partial).every(([column, expected]) =>
+    valuesMatch(row[column], expected)
+  );
+}
+
+function describeRows(
+  state: ExpectMatcherState,
+  rows: Row[],
+  label = "Received rows"
+): string {
+  if (rows.length === 0) return `${label}: none`;
+
+  const shown = rows.slice(0, MAX_PRINTED_ROWS);
+  const more =
+    rows.length > shown.length
+      ? `\n... and ${rows.length - shown.length} more`
+      : "";
+  return `${label} (${rows.length}):\n${state.utils.printReceived(shown)}${more}`;
+}
+
+function describeFilter(table: string, where?: RowFilter): string {
+  return where && Object.keys(where).length
+    ? `${table} where ${JSON.stringify(where)}`
+    : table;
+}
+
+/**
+ * Pairs every expected partial row with a distinct actual row. Returns the
+ * unmatched expectations, or an empty array when all of them matched.
+ */
+function unmatchedPartials(rows: Row[], partials: Row[]): Row[] {
+  const remaining = [...rows];
+  return partials.filter((partial) => {
+    const index = remaining.findIndex((row) => rowMatches(row, partial));
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+/** Keeps only the columns mentioned by the expectations, for a focused diff. */
+function project(rows: Row[], partials: Row[]): Row[] {
+  const columns = new Set(partials.flatMap((p) => Object.keys(p)));
+  return rows.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).filter(([column]) => columns.has(column))
+    )
+  );
+}
+
+/**
+ * `expect` matchers that query a `DatabaseClient`.
+ *
+ * @example
+ * await expect(db).toHaveRow("users", { email });
+ * await expect(db).toHaveRowCount("orders", 2, { user_id: 1 });
+ * await expect(db).toMatchRows("orders", { user_id: 1 }, [{ status: "paid" }]);
+ * await expect(db).toHaveChanges(before, { users: { inserted: 1 } });
+ * await expect(db).toHaveColumn("users", "email", { unique: true });
+ * await expect(db).toMatchSchemaBaseline("src/tests/data/schema.json");
+ */
+export const dbMatchers = {
+  async toHaveRow(
+    this: ExpectMatcherState,
+    db: DatabaseClient,
+    table: string,
+    where: RowFilter
+  ): Promise<MatcherReturnType> {
+    const rows = await selectRows(db, table, where);
+    const pass = rows.length > 0;
+    // On failure, show what the table does contain
+    const context = pass ? rows : await selectRows(db, table);
+
+    return {
+      name: "toHaveRow",
+      pass,
+      expected: where,
+      actual: rows,
+      message: () =>
+        `${this.utils.matcherHint("toHaveRow", "db", "table, where", {
+          isNot: this.isNot,
+        })}\n\n` +
+        (pass
+          ? `Expected no row in ${describeFilter(table, where)}\n\n${describeRows(this, rows)}`
+          : `Expected a row in ${describeFilter(table, where)}\n\n` +
+            describeRows(this, context, `All rows in ${table}`)),
+    };
+  },
+
+  async toNotHaveRow(
+    this: ExpectMatcherState,
+    db: DatabaseClient,
+    table: string,
+    where: RowFilter
+  ): Promise<MatcherReturnType> {
+    const rows = await selectRows(db, table, where);
+    const pass = rows.length === 0;
+
+    return {
+      name: "toNotHaveRow",
+      pass,
+      expected: where,
+      actual: rows,
+      message: () =>
+        `${this.utils.matcherHint("toNotHaveRow", "db", "table, where", {
+          isNot: this.isNot,
+        })}\n\n` +
+        (pass
+          ? `Expected a row in ${describeFilter(table, where)}\n\n${describeRows(this, rows)}`
+          : `Expected no row in ${describeFilter(table, where)}\n\n${describeRows(this, rows)}`),
+    };
+  },
+
+  async toHaveRowCount(
+    this: ExpectMatcherState,
+    db: DatabaseClient,
+    table: string,
+    count: number,
+    where?: RowFilter
+  ): Promise<MatcherReturnType> {
+    const rows = await selectRows(db, table, where);
+    const pass = rows.length === count;
+
+    return {
+      name: "toHaveRowCount",
+      pass,
+      expected: count,
+      actual: rows.length,
+      message: () =>
+        `${this.utils.matcherHint("toHaveRowCount", "db", "table, count", {
+          isNot: this.isNot,
+        })}\n\n` +
+        `Expected ${describeFilter(table, where)} ${this.isNot ? "not " : ""}to have ${this.utils.printExpected(count)} row(s)\n` +
+        `Received: ${this.utils.printReceived(rows.length)}\n\n${describeRows(this, rows)}`,
+    };
+  },
+
+  async toMatchRows(
+    this: ExpectMatcherState,
+    db: DatabaseClient,
+    table: string,
+    where: RowFilter,
+    partialRows: Row[]
+  ): Promise<MatcherReturnType> {
+    const rows = await selectRows(db, table, where);
+    const missing = unmatchedPartials(rows, partialRows);
+    const pass = missing.length === 0 && rows.length === partialRows.length;
+
+    return {
+      name: "toMatchRows",
+      pass,
+      expected: partialRows,
+      actual: rows,
+      message: () =>
+        `${this.utils.matcherHint("toMatchRows", "db", "table, where, rows", {
+          isNot: this.isNot,
+        })}\n\n` +
+        `Rows in ${describeFilter(table, where)} ${this.isNot ? "should not match" : "do not match"} (order ignored)\n\n` +
+        (missing.length
+          ? `Unmatched expectations:\n${this.utils.printExpected(missing)}\n\n`
+          : "") +
+        this.utils.printDiffOrStringify(
+          partialRows,
+          project(rows, partialRows),
+          "Expected",
+          "Received",
+          false
+        ),
+    };
+  },
+
+  /**
+   * Snapshots the tables of `before` again and compares the number of
+   * inserted, updated and deleted rows per table. Tables and counts left out
+   * of `expected` must be unchanged.
+   */
+  async toHaveChanges(
+    this: ExpectMatcherState,
+    db: DatabaseClient,
+    before: DbSnapshot,
+    expected: ExpectedDbChanges
+  ): Promise<MatcherReturnType> {
+    const tables = Object.keys(before.tables);
+    const after = await db.snapshot(tables, {
+      primaryKeys: Object.fromEntries(
+        tables.map((table) => [table, before.tables[table].primaryKey])
+      ),
+      ignoreColumns: Object.fromEntries(
+        tables.map((table) => [table, before.tables[table].ignoredColumns])
+      ),
+    });
+    const diff = diffSnapshots(before, after);
+    const unexpected = unexpectedChanges(diff, expected);
+    const pass = unexpected.length === 0;
+
+    return {
+      name: "toHaveChanges",
+      pass,
+      expected,
+      actual: diff,
+      message: () =>
+        `${this.utils.matcherHint("toHaveChanges", "db", "before, expected", {
+          isNot: this.isNot,
+        })}\n\n` +
+        (pass
+          ? `Expected changes other than ${this.utils.printExpected(expected)}\n\n`
+          : `Unexpected changes in ${unexpected.join(", ")}\n` +
+            `Expected: ${this.utils.printExpected(expected)}\n\n`) +
+        formatDiff(diff),
+    };
+  },
+
+  /**
+   * Introspects `table` and checks that `column` exists with the given
+   * properties, e.g. `{ kind: "string", nullable: false, unique: true }`.
+   */
+  async toHaveColumn(
+    this: ExpectMatcherState,
+    db: DatabaseClient,
+    table: string,
+    column: string,
+    expected: Partial<ColumnSchema> = {}
+  ): Promise<MatcherReturnType> {
+    let schema: SchemaModel;
+    try {
+      schema = await db.introspect({ tables: [table] });
+    } catch (error) {
+      if (!(error instanceof TablesNotFoundError)) throw error;
+      return {
+        name: "toHaveColumn",
+        pass: false,
+        expected,
+        actual: undefined,
+        message: () =>
+          `${this.utils.matcherHint("toHaveColumn", "db", "table, column", {
+            isNot: this.isNot,
+          })}\n\n` +
+          `Expected ${table} to have a column ${column}, but there is no table ${table}`,
+      };
+    }
+    const actual = findColumn(schema, table, column);
+    const pass =
+      actual !== undefined &&
+      Object.entries(expected).every(([key, value]) =>
+        valuesMatch(actual[key as keyof ColumnSchema], value)
+      );
+
+    return {
+      name: "toHaveColumn",
+      pass,
+      expected,
+      actual,
+      message: () =>
+        `${this.utils.matcherHint("toHaveColumn", "db", "table, column", {
+          isNot: this.isNot,
+        })}\n\n` +
+        (actual === undefined
+          ? `Expected ${table} to have a column ${column}\n` +
+            `Columns: ${schema.tables[0].columns.map((c) => c.name).join(", ")}`
+          : `Expected ${table}.${column} ${this.isNot ? "not " : ""}to match ${this.utils.printExpected(expected)}\n` +
+            `Received: ${this.utils.printReceived(actual)}`),
+    };
+  },
+
+  /**
+   * Compares the live schema with a committed baseline. A missing baseline
+   * is written and fails the assertion, and `--update-snapshots` rewrites a
+   * baseline that no longer matches, like Playwright's own snapshots.
+   */
+  async toMatchSchemaBaseline(
+    this: ExpectMatcherState,
+    db: DatabaseClient,
+    file: string,
+    options: SchemaDriftOptions = {}
+  ): Promise<MatcherReturnType> {
+    const updateSnapshots = test.info().config.updateSnapshots;
+    const result = await checkSchemaDrift(db, file, {
+      ...options,
+      update: updateSnapshots === "all" || updateSnapshots === "changed",
+    });
+    const pass =
+      result.existed && (result.changes.length === 0 || result.written);
+
+    return {
+      name: "toMatchSchemaBaseline",
+      pass,
+      expected: file,
+      actual: result.changes,
+      message: () =>
+        `${this.utils.matcherHint("toMatchSchemaBaseline", "db", "file", {
+          isNot: this.isNot,
+        })}\n\n` +
+        (!result.existed
+          ? `Schema baseline ${file} did not exist; wrote the live schema to it`
+          : result.changes.length === 0
+            ? `Expected the schema to differ from ${file}`
+            : `Schema differs from ${file}` +
+              (result.written ? " (baseline updated)" : "") +
+              `:\n${formatSchemaChanges(result.changes)}` +
+              (result.written
+                ? ""
+                : "\n\nRun with --update-snapshots to accept these changes.")),
+    };
+  },
+};
@@ -0,0 +1,25 @@
+import dotenv from "dotenv";
+import { DatabaseFactory, migrate } from "../db/index.js";
+
+dotenv.config();
+
+/**
+ * Brings the test database up to the latest migration before any project
+ * runs. Does nothing unless DB_MIGRATIONS_DIR is set.
+ */
+export default async function globalSetup(): Promise<void> {
+  const directory = process.env.DB_MIGRATIONS_DIR;
+  if (!directory) return;
+
+  const db = DatabaseFactory.fromEnv();
+  await db.connect();
+
+  try {
+    await migrate(db, {
+      directory,
+      table: process.env.DB_MIGRATIONS_TABLE,
+    });
+  } finally {
+    await db.disconnect();
+  }
+}
@@ -1,2 +1,10 @@
 export { test, expect } from "./base.fixture.js";
-export type { TestFixtures } from "./base.fixture.js";
+export { apiMatchers } from "./api-matchers.js";
+export { dbMatchers } from "./db-matchers.js";
+export type {
+  ApiLogMode,
+  DbIsolation,
+  TestFixtures,
+  TestOptions,
+  WorkerFixtures,
+} from "./base.fixture.js";
@@ -0,0 +1,10 @@
+export { formatReconciliation, isReconciled, reconcile } from "./reconcile.js";
+export type {
+  EntityMapping,
+  FieldMapping,
+  FieldMismatch,
+  ReconcileOptions,
+  ReconciliationReport,
+} from "./reconcile.js";
+export { snakeCase, transforms } from "./transforms.js";
+export type { FieldTransform } from "./transforms.js";
@@ -0,0 +1,260 @@
+import { isDeepStrictEqual } from "node:util";
+import { ApiResponse } from "../api/index.js";
+import { selectRows, valuesMatch } from "../db/index.js";
+import type { DatabaseClient, RowFilter } from "../db/index.js";
+import { snakeCase } from "./transforms.js";
+import type { FieldTransform } from "./transforms.js";
+
+export interface FieldMapping {
+  /** Column name. Defaults to the field name, converted by `naming`. */
+  column?: string;
+  /** Applied to both values before they are compared. */
+  transform?: FieldTransform;
+  /** Applied to the API value only, e.g. to turn cents into an amount. */
+  api?: FieldTransform;
+  /** Applied to the column value only. */
+  db?: FieldTransform;
+}
+
+/**
+ * How an API entity maps to a table row. Field names may be dotted paths
+ * into the entity, e.g. `address.city`.
+ *
+ * @example
+ * const userEntity: EntityMapping = {
+ *   table: "users",
+ *   key: "id",
+ *   naming: "snake_case",
+ *   fields: {
+ *     name: "full_name",
+ *     email: { transform: transforms.caseInsensitive() },
+ *     createdAt: { transform: transforms.date() }, // column created_at
+ *     balance: { transform: transforms.decimal(2) },
+ *   },
+ * };
+ */
+export interface EntityMapping {
+  table: string;
+  /** Dotted path to the entity, or list of entities, in the response body. */
+  path?: string;
+  /** Field that identifies the entity, and its column when they differ. */
+  key: string | { field: string; column: string };
+  /** How field names become column names when no column is given. Defaults to `same`. */
+  naming?: "same" | "snake_case";
+  /** Fields to compare: names, or names mapped to a column or a `FieldMapping`. */
+  fields: string[] | Record<string, string | FieldMapping>;
+}
+
+export interface ReconcileOptions {
+  /**
+   * For whole-list comparisons: rows matching this filter that the API did
+   * not return are reported in `missingInApi`.
+   */
+  scope?: RowFilter;
+}
+
+export interface FieldMismatch {
+  key: unknown;
+  field: string;
+  column: string;
+  api: unknown;
+  db: unknown;
+}
+
+export interface ReconciliationReport {
+  table: string;
+  /** Number of API entities compared. */
+  compared: number;
+  mismatches: FieldMismatch[];
+  /** Keys of API entities that have no row. */
+  missingInDb: unknown[];
+  /** Keys of rows in `scope` that the API did not return. */
+  missingInApi: unknown[];
+}
+
+interface ResolvedField {
+  field: string;
+  column: string;
+  mapping: FieldMapping;
+}
+
+function valueAt(value: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (current, key) =>
+        current !== null && typeof current === "object"
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      value
+    );
+}
+
+function columnFor(field: string, mapping: EntityMapping): string {
+  return mapping.naming === "snake_case"
+    ? snakeCase(field.replace(/\./g, "_"))
+    : field;
+}
+
+function resolveFields(mapping: EntityMapping): ResolvedField[] {
+  const entries: [string, string | FieldMapping][] = Array.isArray(
+    mapping.fields
+  )
+    ? mapping.fields.map((field) => [field, {}])
+    : Object.entries(mapping.fields);
+
+  return entries.map(([field, spec]) => {
+    const fieldMapping = typeof spec === "string" ? { column: spec } : spec;
+    return {
+      field,
+      column: fieldMapping.column ?? columnFor(field, mapping),
+      mapping: fieldMapping,
+    };
+  });
+}
+
+function resolveKey(mapping: EntityMapping): { field: string; column: string } {
+  return typeof mapping.key === "string"
+    ? { field: mapping.key, column: columnFor(mapping.key, mapping) }
+    : mapping.key;
+}
+
+/**
+ * Compares an API value with a column value, tolerating driver
+ * representations: numbers as strings, booleans as 0/1, dates as `Date`s and
+ * JSON as text.
+ */
+function compareField(
+  { mapping }: ResolvedField,
+  api: unknown,
+  db: unknown
+): boolean {
+  const apiValue = mapping.api ? mapping.api(api) : api;
+  const dbValue = mapping.db ? mapping.db(db) : db;
+  if (!mapping.transform) return valuesMatch(dbValue, apiValue);
+  return isDeepStrictEqual(
+    mapping.transform(apiValue),
+    mapping.transform(dbValue)
+  );
+}
+
+/**
+ * Compares the entity, or list of entities, in an API response with their
+ * rows, field by field. Rows are looked up by key in one query.
+ *
+ * @example
+ * const report = await reconcile(response, db, userEntity);
+ * expect(report.mismatches).toEqual([]);
+ * // or, in one assertion with a readable diff:
+ * await expect(response).toMatchDatabase(db, userEntity);
+ */
+export async function reconcile(
+  source: ApiResponse | unknown,
+  db: DatabaseClient,
+  mapping: EntityMapping,
+  options: ReconcileOptions = {}
+): Promise<ReconciliationReport> {
+  const body = source instanceof ApiResponse ? await source.json() : source;
+  const found = mapping.path ? valueAt(body, mapping.path) : body;
+  if (found === null || typeof found !== "object") {
+    throw new Error(
+      `Expected an entity or a list at ${mapping.path ?? "the response body"}, got: ${JSON.stringify(found)}`
+    );
+  }
+  const entities = (Array.isArray(found) ? found : [found]) as unknown[];
+
+  const key = resolveKey(mapping);
+  const fields = resolveFields(mapping);
+  const keys = entities.map((entity) => valueAt(entity, key.field));
+  const rows = await selectRows(db, mapping.table, {
+    [key.column]: keys.filter((k) => k !== null && k !== undefined),
+  });
+  const rowsByKey = new Map(rows.map((row) => [String(row[key.column]), row]));
+
+  const report: ReconciliationReport = {
+    table: mapping.table,
+    compared: entities.length,
+    mismatches: [],
+    missingInDb: [],
+    missingInApi: [],
+  };
+
+  entities.forEach((entity, i) => {
+    const row = rowsByKey.get(String(keys[i]));
+    if (!row) {
+      report.missingInDb.push(keys[i]);
+      return;
+    }
+    for (const field of fields) {
+      if (!(field.column in row)) {
+        throw new Error(
+          `Column ${field.column} (mapped from ${field.field}) does not exist in ${mapping.table}`
+        );
+      }
+      const api = valueAt(entity, field.field);
+      const db = row[field.column];
+      if (!compareField(field, api, db)) {
+        report.mismatches.push({
+          key: keys[i],
+          field: field.field,
+          column: field.column,
+          api,
+          db,
+        });
+      }
+    }
+  });
+
+  if (options.scope) {
+    const returned = new Set(keys.map(String));
+    const scoped = await selectRows(db, mapping.table, options.scope);
+    report.missingInApi = scoped
+      .map((row) => row[key.column])
+      .filter((k) => !returned.has(String(k)));
+  }
+
+  return report;
+}
+
+/** Whether a report found no differences. */
+export function isReconciled(report: ReconciliationReport): boolean {
+  return (
+    report.mismatches.length === 0 &&
+    report.missingInDb.length === 0 &&
+    report.missingInApi.length === 0
+  );
+}
+
+function printValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value) ?? String(value);
+}
+
+/** One line per difference, grouped by entity key. */
+export function formatReconciliation(report: ReconciliationReport): string {
+  const lines = [
+    ...report.mismatches.map(
+      (m) =>
+        `  ${printValue(m.key)} ${m.field}: API ${printValue(m.api)} != DB ${printValue(m.db)}` +
+        (m.column === m.field ? "" : ` (column ${m.column})`)
+    ),
+    ...report.missingInDb.map(
+      (k) => `  ${printValue(k)}: no row in ${report.table}`
+    ),
+    ...report.missingInApi.map(
+      (k) => `  ${printValue(k)}: row in ${report.table} missing from the API`
+    ),
+  ];
+  const differing = new Set([
+    ...report.mismatches.map((m) => String(m.key)),
+    ...report.missingInDb.map(String),
+  ]).size;
+
+  return (
+    `${report.table}: ${differing} of ${report.compared} API entities differ` +
+    (report.missingInApi.length > 0
+      ? `, ${report.missingInApi.length} row(s) not returned`
+      : "") +
+    (lines.length > 0 ? `\n${lines.join("\n")}` : "")
+  );
+}
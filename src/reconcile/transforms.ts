@@ -0,0 +1,79 @@
+import { toDate } from "../db/index.js";
+
+/**
+ * Normalizes a field value before the API and database sides are compared.
+ * It is applied to both sides.
+ */
+export type FieldTransform = (value: unknown) => unknown;
+
+/** `createdAt` -> `created_at`, `userID` -> `user_id`. */
+export function snakeCase(name: string): string {
+  return name
+    .replace(/([a-z\d])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .replace(/[-\s]+/g, "_")
+    .toLowerCase();
+}
+
+/** Built-in transforms for `FieldMapping.transform`. */
+export const transforms = {
+  /**
+   * Compares instants, so `2024-01-31T10:00:00.000Z`, a `Date` and a
+   * zone-less `2024-01-31 10:00:00` are equal. With `"day"`, only the
+   * calendar date is compared.
+   */
+  date(precision: "ms" | "s" | "day" = "ms"): FieldTransform {
+    return (value) => {
+      if (value === null || value === undefined) return null;
+      const date = toDate(value);
+      if (Number.isNaN(date.getTime())) return String(value);
+
+      const iso = date.toISOString();
+      return precision === "day"
+        ? iso.slice(0, 10)
+        : precision === "s"
+          ? iso.slice(0, 19)
+          : iso;
+    };
+  },
+
+  /**
+   * Compares numbers rounded to `scale` decimals, so `"49.90"`, `49.9` and
+   * `49.899999` (scale 2) are equal. DECIMAL columns usually arrive as
+   * strings.
+   */
+  decimal(scale = 2): FieldTransform {
+    return (value) =>
+      value === null || value === undefined || value === ""
+        ? null
+        : Number(value).toFixed(scale);
+  },
+
+  /** Compares `true`/`false` with 1/0 and `"true"`/`"false"`. */
+  boolean(): FieldTransform {
+    return (value) =>
+      value === null || value === undefined
+        ? null
+        : value === true || value === 1 || value === "1" || value === "true";
+  },
+
+  /** Parses JSON text, for JSON stored in text columns. */
+  json(): FieldTransform {
+    return (value) => {
+      if (typeof value !== "string") return value ?? null;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    };
+  },
+
+  /** Compares strings ignoring case and surrounding whitespace. */
+  caseInsensitive(): FieldTransform {
+    return (value) =>
+      value === null || value === undefined
+        ? null
+        : String(value).trim().toLowerCase();
+  },
+};
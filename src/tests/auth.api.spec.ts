@@ -0,0 +1,187 @@
+import { createHmac } from "node:crypto";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { test, expect } from "../fixtures/index.js";
+import {
+  ApiClient,
+  ApiKeyAuth,
+  BasicAuth,
+  BearerAuth,
+  HmacSigner,
+  OAuth2ClientCredentials,
+  authFromEnv,
+} from "../api/index.js";
+
+interface SentRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  data?: unknown;
+}
+
+function fakeResponse(status: number, body: unknown = {}): APIResponse {
+  return {
+    status: () => status,
+    ok: () => status >= 200 && status < 300,
+    url: () => "http://localhost",
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  } as unknown as APIResponse;
+}
+
+/**
+ * A request context that records sent requests and answers token requests
+ * with `token-1`, `token-2`, ... in turn.
+ */
+function fakeContext(status: (request: SentRequest) => number = () => 200) {
+  const sent: SentRequest[] = [];
+  const tokenForms: Record<string, string>[] = [];
+
+  const request = {
+    fetch: async (url: string, options: Omit<SentRequest, "url">) => {
+      const entry = { url, ...options };
+      sent.push(entry);
+      return fakeResponse(status(entry));
+    },
+    post: async (_url: string, options: { form: Record<string, string> }) => {
+      tokenForms.push(options.form);
+      // Lets concurrent callers pile up on the pending token request
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return fakeResponse(200, {
+        access_token: `token-${tokenForms.length}`,
+        expires_in: 3600,
+      });
+    },
+  } as unknown as APIRequestContext;
+
+  return { request, sent, tokenForms };
+}
+
+const BASE_URL = "http://localhost";
+
+/**
+ * ApiClient auth strategies and their selection from environment variables.
+ */
+test.describe("API Authentication @api @mock", () => {
+  test("sends no Authorization header without credentials", async () => {
+    const { request, sent } = fakeContext();
+    const client = new ApiClient(request, {
+      baseURL: BASE_URL,
+      auth: authFromEnv({}),
+    });
+
+    await client.get("/users");
+
+    expect(sent[0].headers).not.toHaveProperty("Authorization");
+  });
+
+  test("applies bearer, basic and API key credentials", async () => {
+    const { request, sent } = fakeContext();
+
+    await new ApiClient(request, {
+      baseURL: BASE_URL,
+      auth: new BearerAuth("abc"),
+    }).get("/users");
+    await new ApiClient(request, {
+      baseURL: BASE_URL,
+      auth: new BasicAuth("ann", "s3cret"),
+    }).get("/users");
+    await new ApiClient(request, {
+      baseURL: BASE_URL,
+      auth: new ApiKeyAuth({ key: "k1" }),
+    }).get("/users");
+    await new ApiClient(request, {
+      baseURL: BASE_URL,
+      auth: new ApiKeyAuth({ key: "k 2", name: "api_key", in: "query" }),
+    }).get("/users", { params: { page: "2" } });
+
+    expect(sent[0].headers.Authorization).toBe("Bearer abc");
+    expect(sent[1].headers.Authorization).toBe(
+      `Basic ${Buffer.from("ann:s3cret").toString("base64")}`
+    );
+    expect(sent[2].headers["X-API-Key"]).toBe("k1");
+    expect(sent[3].url).toBe("http://localhost/users?page=2&api_key=k+2");
+  });
+
+  test("caches OAuth2 tokens and refreshes them after a 401", async () => {
+    const { request, sent, tokenForms } = fakeContext((r) =>
+      r.headers.Authorization === "Bearer token-1" && r.url.endsWith("/expired")
+        ? 401
+        : 200
+    );
+    const client = new ApiClient(request, {
+      baseURL: BASE_URL,
+      auth: new OAuth2ClientCredentials({
+        tokenUrl: "http://auth.local/token",
+        clientId: "client",
+        clientSecret: "secret",
+        scope: "users:read",
+      }),
+    });
+
+    await Promise.all([client.get("/a"), client.get("/b")]);
+    const response = await client.get("/expired");
+
+    expect(response.status).toBe(200);
+    expect(tokenForms).toHaveLength(2);
+    expect(tokenForms[0]).toEqual({
+      grant_type: "client_credentials",
+      client_id: "client",
+      client_secret: "secret",
+      scope: "users:read",
+    });
+    expect(sent.map((r) => r.headers.Authorization)).toEqual([
+      "Bearer token-1",
+      "Bearer token-1",
+      "Bearer token-1",
+      "Bearer token-2",
+    ]);
+  });
+
+  test("signs requests with an HMAC alongside other credentials", async () => {
+    const { request, sent } = fakeContext();
+    const client = new ApiClient(request, {
+      baseURL: BASE_URL,
+      auth: [new BearerAuth("abc"), new HmacSigner({ secret: "key" })],
+    });
+
+    await client.post("/orders?dry_run=1", { sku: "A-1" });
+
+    const { headers } = sent[0];
+    const expected = createHmac("sha256", "key")
+      .update(
+        `POST\n/orders?dry_run=1\n${headers["X-Timestamp"]}\n{"sku":"A-1"}`
+      )
+      .digest("hex");
+    expect(headers.Authorization).toBe("Bearer abc");
+    expect(headers["X-Signature"]).toBe(expected);
+  });
+
+  test("picks the strategy from environment variables", () => {
+    expect(authFromEnv({})).toEqual([]);
+    expect(authFromEnv({ API_TOKEN: "t" })[0]).toBeInstanceOf(BearerAuth);
+    expect(authFromEnv({ API_USERNAME: "u" })[0]).toBeInstanceOf(BasicAuth);
+    expect(authFromEnv({ API_KEY: "k", API_TOKEN: "t" })[0]).toBeInstanceOf(
+      ApiKeyAuth
+    );
+    expect(
+      authFromEnv({
+        OAUTH_TOKEN_URL: "http://auth.local/token",
+        OAUTH_CLIENT_ID: "c",
+        OAUTH_CLIENT_SECRET: "s",
+      })[0]
+    ).toBeInstanceOf(OAuth2ClientCredentials);
+    expect(authFromEnv({ API_AUTH: "none", API_TOKEN: "t" })).toEqual([]);
+    expect(
+      authFromEnv({ API_TOKEN: "t", API_HMAC_SECRET: "h" }).map(
+        (s) => s.constructor
+      )
+    ).toEqual([BearerAuth, HmacSigner]);
+
+    expect(() => authFromEnv({ API_AUTH: "oauth2" })).toThrow(
+      "API_AUTH=oauth2 requires OAUTH_TOKEN_URL to be set"
+    );
+    expect(() => authFromEnv({ API_AUTH: "digest" })).toThrow(
+      "Unsupported API_AUTH: digest"
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { writeFile } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { test, expect } from "../fixtures/index.js";
+import {
+  RequestBody,
+  parseCsv,
+  parseEventStream,
+  parseNdjson,
+} from "../api/index.js";
+
+/**
+ * Non-JSON request bodies and response parsers in ApiClient.
+ */
+test.describe("API Content Types @api @mock", () => {
+  test("uploads multipart files from paths and buffers", async ({
+    api,
+    mockServer,
+  }) => {
+    const avatar = test.info().outputPath("avatar.png");
+    await writeFile(avatar, "PNG-BYTES");
+    mockServer.on("POST", "/uploads").reply(201);
+
+    await api.post(
+      "/uploads",
+      RequestBody.multipart({
+        userId: 42,
+        avatar: { path: avatar },
+        notes: [
+          { buffer: Buffer.from("a,b"), filename: "notes.csv" },
+          Buffer.from("raw"),
+        ],
+      })
+    );
+
+    const [request] = mockServer.received("POST", "/uploads");
+    const boundary = /^multipart\/form-data; boundary=(\S+)$/.exec(
+      request.headers["content-type"]
+    )?.[1];
+    expect(boundary).toBeDefined();
+    expect(request.text).toBe(
+      [
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="userId"',
+        "",
+        "42",
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="avatar"; filename="avatar.png"',
+        "Content-Type: image/png",
+        "",
+        "PNG-BYTES",
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="notes"; filename="notes.csv"',
+        "Content-Type: text/csv",
+        "",
+        "a,b",
+        `--${boundary}`,
+        'Content-Disposition: form-data; name="notes"; filename="blob"',
+        "Content-Type: application/octet-stream",
+        "",
+        "raw",
+        `--${boundary}--`,
+        "",
+      ].join("\r\n")
+    );
+  });
+
+  test("sends url-encoded forms and binary bodies", async ({
+    api,
+    mockServer,
+  }) => {
+    mockServer.on("*", "/*").reply(204);
+
+    await api.post(
+      "/login",
+      RequestBody.form({ user: "ann", remember: true, scope: ["a", "b"] })
+    );
+    await api.put(
+      "/files/1",
+      RequestBody.binary(Readable.from([Buffer.from("chunk-1,"), "chunk-2"]))
+    );
+    await api.put("/files/2", RequestBody.binary(Buffer.from("x")), {
+      headers: { "content-type": "image/x-icon" },
+    });
+
+    expect(
+      mockServer.requests.map((r) => [r.headers["content-type"], r.text])
+    ).toEqual([
+      [
+        "application/x-www-form-urlencoded",
+        "user=ann&remember=true&scope=a&scope=b",
+      ],
+      ["application/octet-stream", "chunk-1,chunk-2"],
+      ["image/x-icon", "x"],
+    ]);
+  });
+
+  test("parses XML, CSV, NDJSON and event streams", async ({
+    api,
+    mockServer,
+  }) => {
+    mockServer
+      .on("GET", "/users.xml")
+      .reply(
+        200,
+        '<users><user id="1"><name>Ann</name></user><user id="2"><name>Bob</name></user></users>',
+        { "Content-Type": "application/xml" }
+      );
+    mockServer
+      .on("GET", "/users.csv")
+      .reply(200, 'id,name\r\n1,"Smith, Ann"\r\n2,"Bob ""B"""\r\n');
+    mockServer.on("GET", "/users.ndjson").reply(200, '{"id":1}\n\n{"id":2}\n');
+    mockServer
+      .on("GET", "/events")
+      .reply(
+        200,
+        ': ping\nevent: created\nid: 1\ndata: {"id":1}\n\ndata: line 1\ndata: line 2\n\n'
+      );
+
+    expect(await (await api.get("/users.xml")).xml()).toEqual({
+      users: {
+        user: [
+          { "@_id": 1, name: "Ann" },
+          { "@_id": 2, name: "Bob" },
+        ],
+      },
+    });
+    expect(await (await api.get("/users.csv")).csv()).toEqual([
+      { id: "1", name: "Smith, Ann" },
+      { id: "2", name: 'Bob "B"' },
+    ]);
+    expect(await (await api.get("/users.ndjson")).ndjson()).toEqual([
+      { id: 1 },
+      { id: 2 },
+    ]);
+    expect(await (await api.get("/events")).events()).toEqual([
+      { event: "created", id: "1", data: '{"id":1}' },
+      { event: "message", data: "line 1\nline 2" },
+    ]);
+  });
+
+  test("parsers handle edge cases", () => {
+    expect(parseCsv("a;b\n1;\n", ";")).toEqual([
+      ["a", "b"],
+      ["1", ""],
+    ]);
+    expect(parseCsv('"multi\nline",x')).toEqual([["multi\nline", "x"]]);
+    expect(parseCsv('a,"",\n"",b"c"')).toEqual([
+      ["a", "", ""],
+      ["", 'b"c"'],
+    ]);
+    expect(() => parseNdjson('{"a":1}\n{oops}')).toThrow(
+      "Invalid NDJSON on line 2"
+    );
+    expect(parseEventStream("retry: 500\ndata: last")).toEqual([
+      { event: "message", retry: 500, data: "last" },
+    ]);
+  });
+});
@@ -0,0 +1,214 @@
+import { readFile } from "node:fs/promises";
+import type { APIRequestContext } from "@playwright/test";
+import { test, expect } from "../fixtures/index.js";
+import {
+  ApiClient,
+  BearerAuth,
+  Cassette,
+  CassetteMismatchError,
+  RecordedResponse,
+  cassettePathFor,
+} from "../api/index.js";
+
+/**
+ * A request context that echoes requests back and counts them. Responses
+ * carry a session cookie and token, as a login would.
+ */
+function echoContext() {
+  let calls = 0;
+  const request = {
+    fetch: async (url: string, options: { method: string; data?: unknown }) => {
+      calls++;
+      return new RecordedResponse({
+        url,
+        status: options.method === "POST" ? 201 : 200,
+        statusText: "OK",
+        headers: {
+          "content-type": "application/json",
+          "set-cookie": "session=abc",
+        },
+        body: JSON.stringify({
+          method: options.method,
+          url,
+          n: calls,
+          access_token: "xyz",
+        }),
+      });
+    },
+  } as unknown as APIRequestContext;
+
+  return { request, calls: () => calls };
+}
+
+/** A request context that fails the test if anything reaches the network. */
+const offline = {
+  fetch: async (url: string) => {
+    throw new Error(`Unexpected network request to ${url}`);
+  },
+} as unknown as APIRequestContext;
+
+const BASE_URL = "http://localhost";
+
+async function recordCassette(path: string) {
+  const { request } = echoContext();
+  const cassette = await Cassette.open({ path, mode: "record" });
+  const client = new ApiClient(request, {
+    baseURL: BASE_URL,
+    auth: new BearerAuth("secret-token"),
+    cassette,
+  });
+
+  await client.get("/users", { params: { page: "1", limit: "10" } });
+  await client.post("/users", { name: "Ann", email: "ann@example.com" });
+  await cassette.save();
+}
+
+/**
+ * Record-and-replay of ApiClient exchanges with cassette files.
+ */
+test.describe("API Cassettes @api @mock", () => {
+  test("replays recorded exchanges without the network", async () => {
+    const path = test.info().outputPath("users.json");
+    await recordCassette(path);
+
+    const client = new ApiClient(offline, {
+      baseURL: BASE_URL,
+      cassette: await Cassette.open({ path, mode: "replay" }),
+    });
+    // Query and JSON key order do not matter
+    const list = await client.get("/users", {
+      params: { limit: "10", page: "1" },
+    });
+    const created = await client.post("/users", {
+      email: "ann@example.com",
+      name: "Ann",
+    });
+
+    expect(list.status).toBe(200);
+    expect(await list.json()).toMatchObject({ method: "GET", n: 1 });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({ method: "POST", n: 2 });
+    expect(await readFile(path, "utf8")).not.toContain("secret-token");
+  });
+
+  test("masks credentials and secret fields on disk", async () => {
+    const path = test.info().outputPath("login.json");
+    const { request } = echoContext();
+    const recording = await Cassette.open({ path, mode: "record" });
+    await new ApiClient(request, {
+      baseURL: BASE_URL,
+      cassette: recording,
+    }).post("/login", { user: "ann", password: "hunter2" });
+    await recording.save();
+
+    const file = await readFile(path, "utf8");
+    expect(file).not.toContain("hunter2");
+    expect(file).not.toContain("session=abc");
+    expect(file).not.toContain("xyz");
+
+    // The live request is masked the same way before matching
+    const client = new ApiClient(offline, {
+      baseURL: BASE_URL,
+      cassette: await Cassette.open({ path, mode: "replay" }),
+    });
+    const response = await client.post("/login", {
+      user: "ann",
+      password: "hunter2",
+    });
+    expect(await response.json()).toMatchObject({
+      access_token: "[REDACTED]",
+    });
+    expect(response.headers).toEqual({ "content-type": "application/json" });
+  });
+
+  test("fails loudly on requests that were not recorded", async () => {
+    const path = test.info().outputPath("users.json");
+    await recordCassette(path);
+    const client = new ApiClient(offline, {
+      baseURL: BASE_URL,
+      cassette: await Cassette.open({ path, mode: "replay" }),
+    });
+
+    const error = await client
+      .post("/users", { name: "Bob", email: "bob@example.com" })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(CassetteMismatchError);
+    expect((error as Error).message).toContain(
+      "matches POST http://localhost/users (matching on method, path, query, body)"
+    );
+    expect((error as Error).message).toContain(
+      "GET http://localhost/users?page=1&limit=10"
+    );
+  });
+
+  test("serves each recording once unless matching is relaxed", async () => {
+    const path = test.info().outputPath("users.json");
+    await recordCassette(path);
+
+    const strict = new ApiClient(offline, {
+      baseURL: BASE_URL,
+      cassette: await Cassette.open({ path, mode: "replay" }),
+    });
+    await strict.get("/users", { params: { page: "1", limit: "10" } });
+    await expect(
+      strict.get("/users", { params: { page: "1", limit: "10" } })
+    ).rejects.toThrow("(used) GET http://localhost/users?page=1&limit=10");
+
+    const relaxed = new ApiClient(offline, {
+      baseURL: BASE_URL,
+      cassette: await Cassette.open({
+        path,
+        mode: "replay",
+        match: ["method", "path"],
+      }),
+    });
+    const response = await relaxed.get("/users", { params: { page: "9" } });
+    expect(response.status).toBe(200);
+  });
+
+  test("auto mode records once and then replays", async () => {
+    const path = test.info().outputPath("auto.json");
+    const { request, calls } = echoContext();
+
+    for (let run = 0; run < 2; run++) {
+      const cassette = await Cassette.open({ path, mode: "auto" });
+      const client = new ApiClient(request, { baseURL: BASE_URL, cassette });
+      expect(cassette.mode).toBe(run === 0 ? "record" : "replay");
+      expect((await client.get("/health")).status).toBe(200);
+      await cassette.save();
+    }
+
+    expect(calls()).toBe(1);
+  });
+
+  test("replay mode requires a cassette", async () => {
+    await expect(
+      Cassette.open({
+        path: test.info().outputPath("none.json"),
+        mode: "replay",
+      })
+    ).rejects.toThrow("record it with API_VCR_MODE=record");
+  });
+
+  test("names cassettes after the spec file and test title", () => {
+    expect(cassettePathFor(test.info(), "cassettes")).toBe(
+      "cassettes/cassette.api/api-cassettes-api-mock-names-cassettes-after-the-spec-file-and-test-title.json"
+    );
+  });
+
+  test.describe("api fixture", () => {
+    test.use({ apiVcrMode: "replay" });
+
+    test("replays from the committed cassette", async ({ api }) => {
+      const response = await api.get("http://localhost:3000/users/1");
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        id: 1,
+        name: "Ann",
+        email: "ann@example.com",
+      });
+    });
+  });
+});
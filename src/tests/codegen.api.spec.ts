@@ -0,0 +1,188 @@
+import { readFile } from "node:fs/promises";
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { test, expect } from "../fixtures/index.js";
+import {
+  ApiClient,
+  OpenApiSpec,
+  generateClient,
+  toPath,
+  toQueryParams,
+} from "../api/index.js";
+import { UsersApi } from "./data/generated/users-api.js";
+import type { User } from "./data/generated/users-api.js";
+
+const SPEC_PATH = "src/tests/data/openapi.yaml";
+const GENERATED_PATH = "src/tests/data/generated/users-api.ts";
+
+interface SentRequest {
+  method: string;
+  url: string;
+  data?: unknown;
+}
+
+/**
+ * A request context that records what it is asked to send and answers every
+ * request with the same canned response.
+ */
+function fakeRequestContext(status: number, body: unknown) {
+  const sent: SentRequest[] = [];
+  const request = {
+    fetch: async (url: string, options: { method: string; data?: unknown }) => {
+      sent.push({ method: options.method, url, data: options.data });
+      return {
+        status: () => status,
+        url: () => url,
+        json: async () => body,
+      } as unknown as APIResponse;
+    },
+  } as unknown as APIRequestContext;
+
+  return { request, sent };
+}
+
+/**
+ * Typed client generation from a local OpenAPI document.
+ */
+test.describe("OpenAPI Client Generation @api @mock", () => {
+  test("committed client matches the OpenAPI document", async () => {
+    const spec = await OpenApiSpec.load(SPEC_PATH);
+    const source = await generateClient(spec, {
+      importPath: "../../../api/index.js",
+      source: SPEC_PATH,
+    });
+
+    expect(
+      source,
+      "Run `npm run generate:api -- src/tests/data/openapi.yaml src/tests/data/generated/users-api.ts`"
+    ).toBe(await readFile(GENERATED_PATH, "utf8"));
+  });
+
+  test("sends typed path params, query params and bodies", async () => {
+    const { request, sent } = fakeRequestContext(200, {});
+    const users = new UsersApi(
+      new ApiClient(request, { baseURL: "http://localhost" })
+    );
+
+    await users.listUsers({ query: { page: 2, limit: 10 } });
+    await users.listUsers();
+    await users.getUser({ path: { id: 42 } });
+    await users.createUser({ body: { name: "Ann", email: "ann@example.com" } });
+    await users.deleteUser({ path: { id: 7 } });
+
+    expect(sent).toEqual([
+      { method: "GET", url: "http://localhost/users?page=2&limit=10" },
+      { method: "GET", url: "http://localhost/users" },
+      { method: "GET", url: "http://localhost/users/42" },
+      {
+        method: "POST",
+        url: "http://localhost/users",
+        data: { name: "Ann", email: "ann@example.com" },
+      },
+      { method: "DELETE", url: "http://localhost/users/7" },
+    ]);
+
+    // Contract violations fail `npm run typecheck`
+    // @ts-expect-error id is an integer in the spec
+    await users.getUser({ path: { id: "42" } });
+    // @ts-expect-error email is required by NewUser
+    await users.createUser({ body: { name: "Ann" } });
+  });
+
+  test("status checks narrow the response body type", async () => {
+    const user = { id: 1, name: "Ann", email: "ann@example.com" };
+    const { request } = fakeRequestContext(200, user);
+    const users = new UsersApi(
+      new ApiClient(request, { baseURL: "http://localhost" })
+    );
+
+    const response = await users.getUser({ path: { id: 1 } });
+
+    expect(response.status).toBe(200);
+    if (response.status === 200) {
+      const body: User = await response.json();
+      expect(body.email).toBe("ann@example.com");
+    } else {
+      const problem = await response.json();
+      expect(problem.title).toBeDefined();
+    }
+  });
+
+  test("renders schema keywords as TypeScript types", async () => {
+    const spec = new OpenApiSpec({
+      openapi: "3.1.0",
+      info: { title: "Orders" },
+      paths: {
+        "/orders/{order-id}": {
+          parameters: [
+            { name: "order-id", in: "path", schema: { type: "string" } },
+          ],
+          patch: {
+            parameters: [
+              {
+                name: "X-Request-Id",
+                in: "header",
+                required: true,
+                schema: { type: "string" },
+              },
+            ],
+            requestBody: {
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/order-patch" },
+                },
+              },
+            },
+            responses: { default: { description: "Anything" } },
+          },
+        },
+      },
+      components: {
+        schemas: {
+          "order-patch": {
+            type: "object",
+            description: "Fields to change",
+            properties: {
+              status: { enum: ["open", "paid"] },
+              note: { type: ["string", "null"] },
+              lines: {
+                type: "array",
+                items: { oneOf: [{ type: "integer" }, { type: "string" }] },
+              },
+              "meta-data": {
+                type: "object",
+                additionalProperties: { type: "number" },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const source = await generateClient(spec);
+
+    expect(source).toContain("/** Fields to change */");
+    expect(source).toContain("export interface OrderPatch {");
+    expect(source).toContain('status?: "open" | "paid";');
+    expect(source).toContain("note?: string | null;");
+    expect(source).toContain("lines?: (number | string)[];");
+    expect(source).toContain('"meta-data"?: Record<string, number>;');
+    expect(source).toContain('"order-id": string;');
+    expect(source).toContain('"X-Request-Id": string;');
+    expect(source).toContain("body?: OrderPatch;");
+    expect(source).toContain(
+      "export type PatchOrdersByOrderIdResponses = ResponseMap;"
+    );
+    expect(source).toContain("export class OrdersApi {");
+    expect(source).toContain("async patchOrdersByOrderId(");
+  });
+
+  test("runtime helpers encode path and query parameters", () => {
+    expect(toPath("/files/{name}", { name: "a b/c" })).toBe("/files/a%20b%2Fc");
+    expect(() => toPath("/users/{id}", {})).toThrow(
+      'Missing path parameter "id" for /users/{id}'
+    );
+    expect(
+      toQueryParams({ tag: ["a", "b"], page: 1, draft: false, q: undefined })
+    ).toEqual({ tag: ["a", "b"], page: "1", draft: "false" });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Typed client for Users API 1.0.0, generated from src/tests/data/openapi.yaml.
+ * Do not edit by hand; regenerate it with `npm run generate:api`.
+ */
+import { toPath, toQueryParams } from "../../../api/index.js";
+import type {
+  ApiClient,
+  RequestOptions,
+  TypedApiResponse,
+} from "../../../api/index.js";
+
+export interface NewUser {
+  name: string;
+  email: string;
+}
+
+export type User = NewUser & {
+  id: number;
+  nickname?: string | null;
+};
+
+export interface Problem {
+  type?: string;
+  title: string;
+  status: number;
+  detail?: string;
+}
+
+export interface ListUsersRequest {
+  query?: {
+    page?: number;
+    limit?: number;
+  };
+}
+
+export interface ListUsersResponses {
+  /** A page of users */
+  200: User[];
+}
+
+export interface CreateUserRequest {
+  body: NewUser;
+}
+
+export interface CreateUserResponses {
+  /** Created */
+  201: User;
+  /** Error */
+  400: Problem;
+}
+
+export interface GetUserRequest {
+  path: {
+    id: number;
+  };
+}
+
+export interface GetUserResponses {
+  /** A user */
+  200: User;
+  /** Error */
+  404: Problem;
+}
+
+export interface DeleteUserRequest {
+  path: {
+    id: number;
+  };
+}
+
+export interface DeleteUserResponses {
+  /** Deleted */
+  204: void;
+}
+
+/** Wraps an `ApiClient` with one typed method per operation of Users API 1.0.0. */
+export class UsersApi {
+  private client: ApiClient;
+
+  constructor(client: ApiClient) {
+    this.client = client;
+  }
+
+  /** `GET /users` */
+  async listUsers(
+    request: ListUsersRequest = {},
+    options: RequestOptions = {}
+  ): Promise<TypedApiResponse<ListUsersResponses>> {
+    const response = await this.client.get("/users", {
+      ...options,
+      params: { ...options.params, ...toQueryParams(request.query) },
+    });
+    return response as TypedApiResponse<ListUsersResponses>;
+  }
+
+  /** `POST /users` */
+  async createUser(
+    request: CreateUserRequest,
+    options: RequestOptions = {}
+  ): Promise<TypedApiResponse<CreateUserResponses>> {
+    const response = await this.client.post("/users", request.body, options);
+    return response as TypedApiResponse<CreateUserResponses>;
+  }
+
+  /** `GET /users/{id}` */
+  async getUser(
+    request: GetUserRequest,
+    options: RequestOptions = {}
+  ): Promise<TypedApiResponse<GetUserResponses>> {
+    const response = await this.client.get(
+      toPath("/users/{id}", request.path),
+      options
+    );
+    return response as TypedApiResponse<GetUserResponses>;
+  }
+
+  /** `DELETE /users/{id}` */
+  async deleteUser(
+    request: DeleteUserRequest,
+    options: RequestOptions = {}
+  ): Promise<TypedApiResponse<DeleteUserResponses>> {
+    const response = await this.client.delete(
+      toPath("/users/{id}", request.path),
+      options
+    );
+    return response as TypedApiResponse<DeleteUserResponses>;
+  }
+}
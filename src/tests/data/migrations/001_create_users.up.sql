@@ -0,0 +1,8 @@
+CREATE TABLE users (
+  id INTEGER PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  email VARCHAR(255) NOT NULL UNIQUE
+);
+
+-- Semicolons in literals and comments do not split statements;
+INSERT INTO users (id, name, email) VALUES (1, 'Admin; root', 'admin@example.com');
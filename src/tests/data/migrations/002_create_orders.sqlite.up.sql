@@ -0,0 +1,5 @@
+CREATE TABLE orders (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  total DECIMAL(10, 2) NOT NULL
+);
@@ -0,0 +1,11 @@
+import type { DatabaseClient } from "../../../db/index.js";
+
+export async function up(client: DatabaseClient): Promise<void> {
+  await client.execute(
+    "ALTER TABLE users ADD COLUMN status VARCHAR(20) DEFAULT 'active'"
+  );
+}
+
+export async function down(client: DatabaseClient): Promise<void> {
+  await client.execute("ALTER TABLE users DROP COLUMN status");
+}
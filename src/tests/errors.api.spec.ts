@@ -0,0 +1,86 @@
+import { test, expect } from "../fixtures/index.js";
+import { ApiError } from "../api/index.js";
+import type { ProblemDetails } from "../api/index.js";
+
+const NOT_FOUND: ProblemDetails = {
+  type: "https://example.com/problems/not-found",
+  title: "User not found",
+  status: 404,
+  detail: "No user with id 42",
+  instance: "/users/42",
+  userId: 42,
+};
+
+/**
+ * Problem details, status expectations and result types on ApiResponse.
+ */
+test.describe("API Error Responses @api @mock", () => {
+  test.beforeEach(({ mockServer }) => {
+    mockServer.on("GET", "/users/1").reply(200, { id: 1, name: "Ann" });
+    mockServer
+      .on("GET", "/users/42")
+      .reply(404, NOT_FOUND, { "Content-Type": "application/problem+json" });
+    mockServer.on("DELETE", "/users/1").reply(204);
+    mockServer.on("POST", "/users").reply(400, "name is required");
+  });
+
+  test("parses problem details", async ({ api }) => {
+    const missing = await api.get("/users/42");
+    const found = await api.get("/users/1");
+
+    expect(await missing.problem()).toEqual(NOT_FOUND);
+    expect(await found.problem()).toBeUndefined();
+  });
+
+  test("expectStatus throws an ApiError with context", async ({
+    api,
+    mockServer,
+  }) => {
+    const found = await api.get("/users/1");
+    expect(await found.expectStatus(200, 304)).toBe(found);
+
+    const error = await (await api.get("/users/42"))
+      .expectStatus(200)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    const apiError = error as ApiError;
+    expect(apiError.message).toBe(
+      `GET ${mockServer.url}/users/42 -> 404 Not Found (expected 200)\n` +
+        "User not found: No user with id 42"
+    );
+    expect(apiError.status).toBe(404);
+    expect(apiError.request).toEqual({
+      method: "GET",
+      url: `${mockServer.url}/users/42`,
+    });
+    expect(apiError.problem?.userId).toBe(42);
+    expect(apiError.expected).toEqual([200]);
+  });
+
+  test("orThrow passes 2xx responses and reports others", async ({ api }) => {
+    const deleted = await api.delete("/users/1");
+    expect(await deleted.orThrow()).toBe(deleted);
+
+    await expect((await api.post("/users", {})).orThrow()).rejects.toThrow(
+      /^POST \S+\/users -> 400 Bad Request\nname is required$/
+    );
+  });
+
+  test("result narrows to data or error", async ({ api }) => {
+    const found = await (
+      await api.get<{ id: number; name: string }>("/users/1")
+    ).result();
+    const missing = await (await api.get("/users/42")).result();
+    const deleted = await (await api.delete("/users/1")).result();
+    const invalid = await (await api.post("/users", {})).result<string>();
+
+    if (!found.ok) throw new Error("expected a 2xx result");
+    expect(found.data.name).toBe("Ann");
+    expect(missing).toMatchObject({ ok: false, status: 404 });
+    if (missing.ok) throw new Error("expected an error result");
+    expect(missing.error.title).toBe("User not found");
+    expect(deleted).toMatchObject({ ok: true, status: 204, data: undefined });
+    expect(invalid).toMatchObject({ ok: false, error: "name is required" });
+  });
+});
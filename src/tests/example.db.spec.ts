@@ -9,9 +9,8 @@ test.describe("Example Database Tests @db", () => {
   });
 
   test("Query with parameters", async ({ db }) => {
-    // Note: Parameter syntax varies by provider
-    // PostgreSQL/MySQL: $1, $2 or ?
-    // MSSQL: @p0, @p1 (converted from ?)
+    // ?, $1 and :name placeholders are rewritten for every provider
+    // (e.g. $1 for PostgreSQL, @p0 for MSSQL), so one SQL string works everywhere
     const result = await db.query(
       "SELECT * FROM users WHERE id = ?",
       [1]
@@ -8,7 +8,10 @@ interface User {
 }
 
 test.describe("Integration Tests @integration", () => {
-  test("Create user via API and verify in database", async ({ api, db }) => {
+  test("Create user via API and verify in database", async ({
+    api,
+    dbPoll,
+  }) => {
     const email = generateRandomEmail();
     const payload = {
       name: "Integration Test User",
@@ -22,15 +25,11 @@ test.describe("Integration Tests @integration", () => {
     const apiUser = await response.json();
     expect(apiUser.id).toBeDefined();
 
-    // Verify user exists in database
-    const dbResult = await db.query<User>(
-      "SELECT id, name, email FROM users WHERE email = ?",
-      [email]
-    );
+    // Wait for the user to appear in the database (writes may be async)
+    const dbUser = await dbPoll.waitForRow<User>("users", { email });
 
-    expect(dbResult.rows).toHaveLength(1);
-    expect(dbResult.rows[0].name).toBe(payload.name);
-    expect(dbResult.rows[0].email).toBe(email);
+    expect(dbUser.name).toBe(payload.name);
+    expect(dbUser.email).toBe(email);
   });
 
   test("Update user via API and verify in database", async ({ api, db }) => {
@@ -0,0 +1,159 @@
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { test, expect } from "../fixtures/index.js";
+import {
+  ApiClient,
+  ApiKeyAuth,
+  BearerAuth,
+  ExchangeRecorder,
+  RequestBody,
+  toCurl,
+} from "../api/index.js";
+
+/** A request context that answers with a JSON body, or fails for `/down`. */
+function fakeContext(body: unknown) {
+  const request = {
+    fetch: async (url: string) => {
+      if (url.includes("/down")) throw new Error("connect ECONNREFUSED");
+      const text = JSON.stringify(body);
+      return {
+        status: () => 201,
+        statusText: () => "Created",
+        url: () => url,
+        headers: () => ({
+          "content-type": "application/json",
+          "set-cookie": "session=abc",
+        }),
+        body: async () => Buffer.from(text),
+        json: async () => body,
+      } as unknown as APIResponse;
+    },
+  } as unknown as APIRequestContext;
+
+  return request;
+}
+
+function createClient(recorder: ExchangeRecorder) {
+  return new ApiClient(fakeContext({ id: 1, access_token: "xyz" }), {
+    baseURL: "http://localhost",
+    headers: { "X-Trace": "t-1" },
+    auth: [
+      new BearerAuth("secret-token"),
+      new ApiKeyAuth({ key: "k1", name: "api_key", in: "query" }),
+    ],
+    recorder,
+  });
+}
+
+/**
+ * Recording of HTTP exchanges for report attachments.
+ */
+test.describe("API Exchange Logging @api @mock", () => {
+  test("records exchanges with secrets redacted", async () => {
+    const recorder = new ExchangeRecorder({ redactHeaders: ["X-Trace"] });
+    const client = createClient(recorder);
+
+    await client.post("/login", { user: "ann", password: "hunter2" });
+
+    const [exchange] = recorder.exchanges;
+    expect(exchange.request).toEqual({
+      method: "POST",
+      url: "http://localhost/login?api_key=%5BREDACTED%5D",
+      headers: {
+        "X-Trace": "[REDACTED]",
+        Authorization: "[REDACTED]",
+        "Content-Type": "application/json",
+      },
+      body: '{"user":"ann","password":"[REDACTED]"}',
+    });
+    expect(exchange.response).toEqual({
+      status: 201,
+      statusText: "Created",
+      headers: {
+        "content-type": "application/json",
+        "set-cookie": "[REDACTED]",
+      },
+      body: '{"id":1,"access_token":"[REDACTED]"}',
+    });
+    expect(exchange.duration).toBeGreaterThanOrEqual(0);
+    expect(JSON.stringify(recorder.exchanges)).not.toContain("hunter2");
+    expect(JSON.stringify(recorder.exchanges)).not.toContain("secret-token");
+  });
+
+  test("redacts secret fields of form bodies", async () => {
+    const recorder = new ExchangeRecorder();
+    const client = createClient(recorder);
+
+    await client.post(
+      "/token",
+      RequestBody.form({ grant_type: "password", password: "hunter2" })
+    );
+
+    const [exchange] = recorder.exchanges;
+    expect(exchange.request.body).toBe(
+      "grant_type=password&password=%5BREDACTED%5D"
+    );
+    expect(toCurl(exchange)).toContain(
+      "-H 'Content-Type: application/x-www-form-urlencoded'"
+    );
+    expect(toCurl(exchange)).not.toContain("application/json");
+  });
+
+  test("records requests that fail without a response", async () => {
+    const recorder = new ExchangeRecorder();
+    const client = createClient(recorder);
+
+    await expect(client.get("/down")).rejects.toThrow("ECONNREFUSED");
+
+    expect(recorder.exchanges).toHaveLength(1);
+    expect(recorder.exchanges[0].response).toBeUndefined();
+    expect(recorder.exchanges[0].error).toContain("ECONNREFUSED");
+  });
+
+  test("renders HAR entries and cURL snippets", async () => {
+    const recorder = new ExchangeRecorder();
+    await createClient(recorder).post("/notes", { text: "it's here" });
+
+    const har = recorder.toHar() as {
+      log: {
+        version: string;
+        entries: {
+          request: { method: string; postData?: { text: string } };
+          response: { status: number; content: { text: string } };
+        }[];
+      };
+    };
+    expect(har.log.version).toBe("1.2");
+    expect(har.log.entries[0].request.method).toBe("POST");
+    expect(har.log.entries[0].request.postData?.text).toBe(
+      `{"text":"it's here"}`
+    );
+    expect(har.log.entries[0].response.status).toBe(201);
+
+    expect(toCurl(recorder.exchanges[0])).toBe(
+      [
+        "curl -X POST 'http://localhost/notes?api_key=%5BREDACTED%5D'",
+        "-H 'X-Trace: t-1'",
+        "-H 'Authorization: [REDACTED]'",
+        "-H 'Content-Type: application/json'",
+        `--data-raw '{"text":"it'\\''s here"}'`,
+      ].join(" \\\n  ")
+    );
+    expect(recorder.toCurl()).toMatch(
+      /^# POST http:\/\/localhost\/notes\?api_key=\S+ -> 201 Created\ncurl /
+    );
+  });
+
+  test("attaches HAR and cURL files to the test", async () => {
+    const recorder = new ExchangeRecorder();
+    await recorder.attach(test.info());
+    expect(test.info().attachments).toHaveLength(0);
+
+    await createClient(recorder).get("/users");
+    await recorder.attach(test.info());
+
+    expect(test.info().attachments.map((a) => a.name)).toEqual([
+      "api-exchanges.har",
+      "api-exchanges.curl.sh",
+    ]);
+  });
+});
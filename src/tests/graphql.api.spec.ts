@@ -0,0 +1,155 @@
+import { createHash } from "node:crypto";
+import { test, expect } from "../fixtures/index.js";
+import {
+  GraphQLClient,
+  GraphQLResponseError,
+  typedDocument,
+} from "../api/index.js";
+import type { MockRequest } from "../api/index.js";
+
+interface User {
+  id: string;
+  name: string;
+}
+
+const GetUser = typedDocument<{ user: User | null }, { id: string }>(
+  "query GetUser($id: ID!) { user(id: $id) { id name } }"
+);
+
+const RenameUser = typedDocument<
+  { renameUser: User },
+  { id: string; name: string }
+>(
+  "mutation RenameUser($id: ID!, $name: String!) { renameUser(id: $id, name: $name) { id name } }"
+);
+
+/** A tiny GraphQL server: `GetUser`, `RenameUser`, and an error for anything else. */
+function resolve({ body }: MockRequest) {
+  const { query, variables } = body as {
+    query: string;
+    variables: Record<string, string>;
+  };
+  if (query.includes("GetUser")) {
+    return { body: { data: { user: { id: variables.id, name: "Ann" } } } };
+  }
+  if (query.includes("RenameUser")) {
+    return { body: { data: { renameUser: { ...variables } } } };
+  }
+  return {
+    body: {
+      data: null,
+      errors: [
+        {
+          message: 'Cannot query field "nope" on type "Query".',
+          path: ["nope"],
+          extensions: { code: "GRAPHQL_VALIDATION_FAILED" },
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * GraphQLClient and the gql fixture.
+ */
+test.describe("GraphQL Client @api @mock", () => {
+  test.beforeEach(({ mockServer }) => {
+    mockServer.on("POST", "/graphql").reply(resolve);
+  });
+
+  test("runs typed queries and mutations", async ({ gql, mockServer }) => {
+    const { user } = await gql.query(GetUser, { id: "1" });
+    const { renameUser } = await gql.mutate(RenameUser, {
+      id: "1",
+      name: "Bob",
+    });
+
+    expect(user).toEqual({ id: "1", name: "Ann" });
+    expect(renameUser).toEqual({ id: "1", name: "Bob" });
+    expect(mockServer).toHaveReceived("POST", "/graphql", {
+      body: { query: GetUser, variables: { id: "1" } },
+      headers: { "content-type": "application/json" },
+    });
+  });
+
+  test("fails with the errors of the response", async ({ gql }) => {
+    const error = await gql
+      .query("query Broken { nope }")
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(GraphQLResponseError);
+    expect((error as GraphQLResponseError).message).toMatch(
+      /^GraphQL errors for Broken from \S+\/graphql \(200\):\n {2}- Cannot query field "nope" on type "Query"\. \(path: nope\) \[GRAPHQL_VALIDATION_FAILED\]$/
+    );
+  });
+
+  test("execute returns errors without throwing", async ({ gql }) => {
+    const result = await gql.execute("{ nope }");
+
+    expect(result.data).toBeNull();
+    expect(result.errors?.[0].extensions?.code).toBe(
+      "GRAPHQL_VALIDATION_FAILED"
+    );
+    expect(result.response.status).toBe(200);
+  });
+
+  test("sends persisted queries by hash", async ({ api, mockServer }) => {
+    const known = new Map<string, string>();
+    const hash = createHash("sha256").update(GetUser).digest("hex");
+    mockServer.on("POST", "/apq").reply((request) => {
+      const { query, extensions } = request.body as {
+        query?: string;
+        extensions: { persistedQuery: { sha256Hash: string } };
+      };
+      const { sha256Hash } = extensions.persistedQuery;
+      if (query) known.set(sha256Hash, query);
+      if (!known.has(sha256Hash)) {
+        return {
+          body: {
+            errors: [
+              {
+                message: "PersistedQueryNotFound",
+                extensions: { code: "PERSISTED_QUERY_NOT_FOUND" },
+              },
+            ],
+          },
+        };
+      }
+      return resolve({
+        ...request,
+        body: { ...(request.body as object), query: known.get(sha256Hash) },
+      });
+    });
+    const gql = new GraphQLClient(api, {
+      endpoint: "/apq",
+      persistedQueries: true,
+    });
+
+    await gql.query(GetUser, { id: "1" });
+    const { user } = await gql.query(GetUser, { id: "2" });
+
+    expect(user?.id).toBe("2");
+    expect(
+      mockServer.received("POST", "/apq").map((r) => {
+        const body = r.body as { query?: string; extensions: object };
+        return [body.query !== undefined, body.extensions];
+      })
+    ).toEqual([
+      [false, { persistedQuery: { version: 1, sha256Hash: hash } }],
+      [true, { persistedQuery: { version: 1, sha256Hash: hash } }],
+      [false, { persistedQuery: { version: 1, sha256Hash: hash } }],
+    ]);
+  });
+
+  test("reports transport failures as ApiErrors", async ({
+    api,
+    mockServer,
+  }) => {
+    mockServer.on("POST", "/down").reply(502, "Bad Gateway");
+    const gql = new GraphQLClient(api, { endpoint: "/down" });
+
+    await expect(
+      gql.query(GetUser, { id: "1" }, { retry: false })
+    ).rejects.toThrow(/-> 502 Bad Gateway\nBad Gateway$/);
+  });
+});
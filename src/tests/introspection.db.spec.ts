@@ -0,0 +1,539 @@
+import { test, expect } from "../fixtures/index.js";
+import {
+  DatabaseFactory,
+  DatabaseClient,
+  QueryBuilder,
+  columnKind,
+  findTable,
+  introspect,
+  snapshot,
+} from "../db/index.js";
+import type {
+  DatabaseProvider,
+  DbSnapshot,
+  QueryParams,
+  QueryResult,
+  SchemaModel,
+} from "../db/index.js";
+
+/** Words each provider rejects as bare column aliases. */
+const RESERVED: Record<DatabaseProvider, string[]> = {
+  postgres: ["column", "default", "primary", "table", "unique"],
+  mysql: ["column", "default", "primary", "table", "unique"],
+  mssql: [
+    "column",
+    "default",
+    "identity",
+    "precision",
+    "primary",
+    "table",
+    "unique",
+  ],
+  sqlite: ["column", "default", "primary", "table", "unique"],
+};
+
+/**
+ * A client that answers catalog queries with canned rows, picked by the
+ * first pattern the SQL matches, to check the catalog readers of providers
+ * that are not available here. Like the server, it rejects reserved words
+ * used as bare aliases.
+ */
+class CatalogClient implements DatabaseClient {
+  readonly provider: DatabaseProvider;
+  readonly statements: { sql: string; params?: QueryParams }[] = [];
+  private answers: [RegExp, Record<string, unknown>[]][];
+
+  constructor(
+    provider: DatabaseProvider,
+    answers: [RegExp, Record<string, unknown>[]][]
+  ) {
+    this.provider = provider;
+    this.answers = answers;
+  }
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async query<T>(sql: string, params?: QueryParams): Promise<QueryResult<T>> {
+    this.statements.push({ sql, params });
+    const reserved = [...sql.matchAll(/\bAS\s+(\w+)/gi)]
+      .map((match) => match[1])
+      .find((alias) => RESERVED[this.provider].includes(alias.toLowerCase()));
+    if (reserved) throw new Error(`Incorrect syntax near '${reserved}'`);
+
+    const answer = this.answers.find(([pattern]) => pattern.test(sql));
+    if (!answer) throw new Error(`No canned rows for: ${sql}`);
+    return { rows: answer[1] as T[], rowCount: answer[1].length };
+  }
+
+  async execute(sql: string, params?: QueryParams): Promise<number> {
+    return (await this.query(sql, params)).rowCount;
+  }
+
+  async introspect(): Promise<SchemaModel> {
+    return introspect(this);
+  }
+
+  from<T extends object>(table: string): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, table);
+  }
+
+  async snapshot(tables: string[]): Promise<DbSnapshot> {
+    return snapshot(this, tables);
+  }
+
+  async transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T> {
+    return fn(this);
+  }
+}
+
+/**
+ * Schema introspection against an in-memory SQLite database.
+ */
+test.describe("Schema Introspection @db @mock", () => {
+  let db: DatabaseClient;
+
+  test.beforeEach(async () => {
+    db = DatabaseFactory.create({ provider: "sqlite", database: ":memory:" });
+    await db.connect();
+    await db.execute(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        email VARCHAR(255) NOT NULL UNIQUE,
+        name TEXT,
+        status TEXT NOT NULL DEFAULT 'active',
+        created_at DATETIME
+      )`);
+    await db.execute("CREATE INDEX idx_users_status ON users (status, name)");
+    await db.execute(`
+      CREATE TABLE teams (
+        org TEXT NOT NULL,
+        slug TEXT NOT NULL,
+        PRIMARY KEY (org, slug)
+      )`);
+    await db.execute(`
+      CREATE TABLE memberships (
+        user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        org TEXT NOT NULL,
+        team TEXT NOT NULL,
+        is_admin BOOLEAN NOT NULL DEFAULT 0,
+        FOREIGN KEY (org, team) REFERENCES teams
+      )`);
+  });
+
+  test.afterEach(async () => {
+    await db.disconnect();
+  });
+
+  test("reads tables, columns and keys", async () => {
+    const schema = await db.introspect();
+
+    expect(schema.provider).toBe("sqlite");
+    expect(schema.schema).toBe("main");
+    expect(schema.tables.map((table) => table.name)).toEqual([
+      "memberships",
+      "teams",
+      "users",
+    ]);
+
+    const users = findTable(schema, "users");
+    expect(users?.primaryKey).toEqual(["id"]);
+    expect(users?.columns[0]).toEqual({
+      name: "id",
+      type: "integer",
+      kind: "integer",
+      nullable: false,
+      default: null,
+      autoIncrement: true,
+      unique: true,
+    });
+    expect(users?.columns[1]).toMatchObject({
+      name: "email",
+      type: "varchar(255)",
+      kind: "string",
+      nullable: false,
+      unique: true,
+    });
+    expect(users?.columns[3].default).toBe("'active'");
+    expect(users?.indexes).toEqual([
+      { name: "idx_users_status", columns: ["status", "name"], unique: false },
+      { name: "sqlite_autoindex_users_1", columns: ["email"], unique: true },
+    ]);
+    expect(findTable(schema, "teams")?.primaryKey).toEqual(["org", "slug"]);
+  });
+
+  test("reads foreign keys", async () => {
+    const schema = await db.introspect({ tables: ["memberships"] });
+
+    expect(schema.tables).toHaveLength(1);
+    expect(schema.tables[0].foreignKeys).toEqual([
+      {
+        name: null,
+        columns: ["org", "team"],
+        referencedTable: "teams",
+        referencedColumns: ["org", "slug"],
+        onDelete: "NO ACTION",
+        onUpdate: "NO ACTION",
+      },
+      {
+        name: null,
+        columns: ["user_id"],
+        referencedTable: "users",
+        referencedColumns: ["id"],
+        onDelete: "CASCADE",
+        onUpdate: "NO ACTION",
+      },
+    ]);
+  });
+
+  test("rejects unknown tables", async () => {
+    await expect(db.introspect({ tables: ["nope"] })).rejects.toThrow(
+      "Table(s) not found in schema main: nope"
+    );
+  });
+
+  test("toHaveColumn asserts column contracts", async () => {
+    await expect(db).toHaveColumn("users", "email", {
+      kind: "string",
+      nullable: false,
+      unique: true,
+    });
+    await expect(db).not.toHaveColumn("users", "name", { nullable: false });
+
+    const error = await expect(db)
+      .toHaveColumn("users", "nickname")
+      .catch((e: Error) => e);
+    expect(error?.message).toContain(
+      "Columns: id, email, name, status, created_at"
+    );
+    await expect(db).not.toHaveColumn("missing_table", "id");
+    const missing = await expect(db)
+      .toHaveColumn("missing_table", "id")
+      .catch((e: Error) => e);
+    expect(missing?.message).toContain("there is no table missing_table");
+  });
+
+  test("maps declared types to portable kinds", () => {
+    expect(columnKind("character varying(40)")).toBe("string");
+    expect(columnKind("nvarchar(max)")).toBe("text");
+    expect(columnKind("tinyint(1)")).toBe("boolean");
+    expect(columnKind("bigint unsigned")).toBe("integer");
+    expect(columnKind("numeric(10,2)")).toBe("decimal");
+    expect(columnKind("double precision")).toBe("float");
+    expect(columnKind("timestamp with time zone")).toBe("datetime");
+    expect(columnKind("time(7)")).toBe("time");
+    expect(columnKind("uniqueidentifier")).toBe("uuid");
+    expect(columnKind("jsonb")).toBe("json");
+    expect(columnKind("varbinary(max)")).toBe("binary");
+    expect(columnKind("point")).toBe("other");
+  });
+});
+
+/**
+ * The PostgreSQL, MySQL and SQL Server catalog readers, against canned rows
+ * of a `users` table and an `orders` table that references it.
+ */
+test.describe("Catalog Readers @db @mock", () => {
+  const users = {
+    name: "users",
+    primaryKey: ["id"],
+    indexes: [{ name: "users_email_key", columns: ["email"], unique: true }],
+    foreignKeys: [],
+  };
+
+  test("reads pg_catalog on PostgreSQL", async () => {
+    const db = new CatalogClient("postgres", [
+      [/current_schema\(\)/, [{ name: "public" }]],
+      [
+        /format_type/,
+        [
+          {
+            table: "orders",
+            name: "user_id",
+            type: "integer",
+            nullable: false,
+            default: null,
+            autoIncrement: false,
+          },
+          {
+            table: "users",
+            name: "id",
+            type: "integer",
+            nullable: false,
+            default: "nextval('users_id_seq'::regclass)",
+            autoIncrement: true,
+          },
+          {
+            table: "users",
+            name: "email",
+            type: "character varying(255)",
+            nullable: true,
+            default: null,
+            autoIncrement: false,
+          },
+        ],
+      ],
+      [
+        /pg_get_indexdef/,
+        [
+          {
+            table: "users",
+            name: "users_email_key",
+            unique: true,
+            primary: false,
+            column: "email",
+          },
+          {
+            table: "users",
+            name: "users_pkey",
+            unique: true,
+            primary: true,
+            column: "id",
+          },
+        ],
+      ],
+      [
+        /pg_constraint/,
+        [
+          {
+            table: "orders",
+            name: "orders_user_id_fkey",
+            column: "user_id",
+            referencedTable: "users",
+            referencedColumn: "id",
+            onDelete: "c",
+            onUpdate: "a",
+          },
+        ],
+      ],
+    ]);
+
+    const schema = await db.introspect();
+
+    expect(schema.schema).toBe("public");
+    expect(db.statements.slice(1).map((s) => s.params)).toEqual([
+      ["public"],
+      ["public"],
+      ["public"],
+    ]);
+    expect(findTable(schema, "orders")?.foreignKeys).toEqual([
+      {
+        name: "orders_user_id_fkey",
+        columns: ["user_id"],
+        referencedTable: "users",
+        referencedColumns: ["id"],
+        onDelete: "CASCADE",
+        onUpdate: "NO ACTION",
+      },
+    ]);
+    expect(findTable(schema, "users")).toMatchObject(users);
+    expect(findTable(schema, "users")?.columns[1]).toEqual({
+      name: "email",
+      type: "character varying(255)",
+      kind: "string",
+      nullable: true,
+      default: null,
+      autoIncrement: false,
+      unique: true,
+    });
+  });
+
+  test("reads information_schema on MySQL", async () => {
+    const db = new CatalogClient("mysql", [
+      [/DATABASE\(\)/, [{ name: "shop" }]],
+      [
+        /information_schema\.COLUMNS/,
+        [
+          {
+            table: "orders",
+            name: "user_id",
+            type: "INT",
+            nullable: "NO",
+            default: null,
+            extra: "",
+          },
+          {
+            table: "users",
+            name: "id",
+            type: "int unsigned",
+            nullable: "NO",
+            default: null,
+            extra: "auto_increment",
+          },
+          {
+            table: "users",
+            name: "email",
+            type: "varchar(255)",
+            nullable: "YES",
+            default: null,
+            extra: "",
+          },
+        ],
+      ],
+      [
+        /information_schema\.STATISTICS/,
+        [
+          {
+            table: "orders",
+            name: "orders_user_id_fkey",
+            nonUnique: "1",
+            column: "user_id",
+          },
+          { table: "users", name: "PRIMARY", nonUnique: 0, column: "id" },
+          {
+            table: "users",
+            name: "users_email_key",
+            nonUnique: "0",
+            column: "email",
+          },
+        ],
+      ],
+      [
+        /KEY_COLUMN_USAGE/,
+        [
+          {
+            table: "orders",
+            name: "orders_user_id_fkey",
+            column: "user_id",
+            referencedTable: "users",
+            referencedColumn: "id",
+            onDelete: "CASCADE",
+            onUpdate: "RESTRICT",
+          },
+        ],
+      ],
+    ]);
+
+    const schema = await db.introspect();
+
+    expect(schema.schema).toBe("shop");
+    expect(findTable(schema, "orders")).toMatchObject({
+      primaryKey: [],
+      indexes: [
+        { name: "orders_user_id_fkey", columns: ["user_id"], unique: false },
+      ],
+      foreignKeys: [{ onDelete: "CASCADE", onUpdate: "RESTRICT" }],
+    });
+    expect(findTable(schema, "orders")?.columns[0].type).toBe("int");
+    expect(findTable(schema, "users")).toMatchObject(users);
+    expect(findTable(schema, "users")?.columns[0]).toEqual({
+      name: "id",
+      type: "int unsigned",
+      kind: "integer",
+      nullable: false,
+      default: null,
+      autoIncrement: true,
+      unique: true,
+    });
+  });
+
+  test("reads the sys views on SQL Server", async () => {
+    const db = new CatalogClient("mssql", [
+      [/SCHEMA_NAME\(\)/, [{ name: "dbo" }]],
+      [
+        /sys\.types/,
+        [
+          {
+            table: "orders",
+            name: "total",
+            typeName: "decimal",
+            maxLength: 9,
+            precision: 10,
+            scale: 2,
+            nullable: false,
+            identity: false,
+            default: "((0))",
+          },
+          {
+            table: "orders",
+            name: "user_id",
+            typeName: "int",
+            maxLength: 4,
+            precision: 10,
+            scale: 0,
+            nullable: true,
+            identity: false,
+            default: null,
+          },
+          {
+            table: "users",
+            name: "id",
+            typeName: "int",
+            maxLength: 4,
+            precision: 10,
+            scale: 0,
+            nullable: false,
+            identity: true,
+            default: null,
+          },
+          {
+            table: "users",
+            name: "email",
+            typeName: "nvarchar",
+            maxLength: 510,
+            precision: 0,
+            scale: 0,
+            nullable: true,
+            identity: false,
+            default: null,
+          },
+        ],
+      ],
+      [
+        /sys\.indexes/,
+        [
+          {
+            table: "users",
+            name: "PK_users",
+            unique: true,
+            primary: true,
+            column: "id",
+          },
+          {
+            table: "users",
+            name: "users_email_key",
+            unique: true,
+            primary: false,
+            column: "email",
+          },
+        ],
+      ],
+      [
+        /sys\.foreign_keys/,
+        [
+          {
+            table: "orders",
+            name: "FK_orders_users",
+            column: "user_id",
+            referencedTable: "users",
+            referencedColumn: "id",
+            onDelete: "SET_NULL",
+            onUpdate: "NO_ACTION",
+          },
+        ],
+      ],
+    ]);
+
+    const schema = await db.introspect();
+
+    expect(schema.schema).toBe("dbo");
+    expect(findTable(schema, "orders")?.columns).toMatchObject([
+      { name: "total", type: "decimal(10,2)", kind: "decimal" },
+      { name: "user_id", type: "int", nullable: true },
+    ]);
+    expect(findTable(schema, "orders")?.foreignKeys).toMatchObject([
+      { name: "FK_orders_users", onDelete: "SET NULL", onUpdate: "NO ACTION" },
+    ]);
+    expect(findTable(schema, "users")).toMatchObject(users);
+    expect(findTable(schema, "users")?.columns[1]).toEqual({
+      name: "email",
+      type: "nvarchar(255)",
+      kind: "string",
+      nullable: true,
+      default: null,
+      autoIncrement: false,
+      unique: true,
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { test, expect } from "../fixtures/index.js";
+import { DatabaseFactory } from "../db/index.js";
+
+/**
+ * `dbIsolation: "rollback"` on the `db` fixture, pointed at a temporary
+ * SQLite file. The tests run in order: the second checks that the first
+ * test's write was rolled back in its teardown.
+ */
+test.describe.serial("Rollback isolation @db @mock", () => {
+  const saved = {
+    provider: process.env.DB_PROVIDER,
+    filePath: process.env.DB_FILE_PATH,
+  };
+  let dir: string;
+  let file: string;
+
+  test.use({ dbIsolation: "rollback" });
+
+  test.beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "db-isolation-"));
+    file = path.join(dir, "test.db");
+
+    const setup = DatabaseFactory.create({
+      provider: "sqlite",
+      database: file,
+    });
+    await setup.connect();
+    await setup.execute(
+      "CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL)"
+    );
+    await setup.disconnect();
+
+    process.env.DB_PROVIDER = "sqlite";
+    process.env.DB_FILE_PATH = file;
+  });
+
+  test.afterAll(async () => {
+    for (const [name, value] of [
+      ["DB_PROVIDER", saved.provider],
+      ["DB_FILE_PATH", saved.filePath],
+    ] as const) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("a write through db is visible within the test", async ({ db }) => {
+    await db.execute("INSERT INTO notes (body) VALUES (?)", ["temporary"]);
+
+    await expect(db).toHaveRowCount("notes", 1);
+  });
+
+  test("the write is gone after the previous test's teardown", async ({
+    db,
+  }) => {
+    await expect(db).toHaveRowCount("notes", 0);
+
+    const reader = DatabaseFactory.create({
+      provider: "sqlite",
+      database: file,
+    });
+    await reader.connect();
+    try {
+      const result = await reader.query<{ count: number }>(
+        "SELECT COUNT(*) as count FROM notes"
+      );
+      expect(result.rows[0].count).toBe(0);
+    } finally {
+      await reader.disconnect();
+    }
+  });
+});
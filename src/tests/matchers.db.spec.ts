@@ -0,0 +1,79 @@
+import { test, expect } from "../fixtures/index.js";
+import { DatabaseFactory, DatabaseClient, valuesMatch } from "../db/index.js";
+
+/**
+ * Database assertion matchers against an in-memory SQLite database.
+ */
+test.describe("Database Matchers @db @mock", () => {
+  let db: DatabaseClient;
+
+  test.beforeEach(async () => {
+    db = DatabaseFactory.create({ provider: "sqlite", database: ":memory:" });
+    await db.connect();
+    await db.execute(`
+      CREATE TABLE orders (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        total DECIMAL(10, 2) NOT NULL,
+        status TEXT,
+        shipped BOOLEAN DEFAULT 0
+      )`);
+    await db.execute(`
+      INSERT INTO orders (id, user_id, total, status, shipped) VALUES
+        (1, 1, 49.98, 'completed', 1),
+        (2, 1, 99.99, 'pending', 0),
+        (3, 2, 29.99, NULL, 0)`);
+  });
+
+  test.afterEach(async () => {
+    await db.disconnect();
+  });
+
+  test("toHaveRow and toNotHaveRow", async () => {
+    await expect(db).toHaveRow("orders", { user_id: 1, status: "pending" });
+    await expect(db).toHaveRow("orders", { status: null });
+    await expect(db).toNotHaveRow("orders", { user_id: 3 });
+    await expect(db).not.toHaveRow("orders", { status: ["refunded", "void"] });
+  });
+
+  test("toHaveRowCount with and without a filter", async () => {
+    await expect(db).toHaveRowCount("orders", 3);
+    await expect(db).toHaveRowCount("orders", 2, { user_id: 1 });
+    await expect(db).not.toHaveRowCount("orders", 1, { user_id: 1 });
+  });
+
+  test("toMatchRows compares partial rows in any order", async () => {
+    await expect(db).toMatchRows("orders", { user_id: 1 }, [
+      { status: "pending", total: 99.99, shipped: false },
+      { status: "completed", shipped: true },
+    ]);
+    await expect(db).toMatchRows("orders", { user_id: 2 }, [
+      { id: expect.any(Number), status: null },
+    ]);
+  });
+
+  test("only numeric values match numbers and booleans", async () => {
+    expect(valuesMatch("12.50", 12.5)).toBe(true);
+    expect(valuesMatch(1n, 1)).toBe(true);
+    expect(valuesMatch("0", false)).toBe(true);
+    expect(valuesMatch("", 0)).toBe(false);
+    expect(valuesMatch(" ", false)).toBe(false);
+    expect(valuesMatch([], 0)).toBe(false);
+
+    await db.execute("UPDATE orders SET status = '' WHERE id = 3");
+    await expect(db).not.toMatchRows("orders", { id: 3 }, [{ status: 0 }]);
+  });
+
+  test("failures print the observed rows", async () => {
+    await expect(
+      expect(db).toHaveRow("orders", { status: "refunded" })
+    ).rejects.toThrow(/All rows in orders \(3\)/);
+
+    await expect(
+      expect(db).toMatchRows("orders", { user_id: 1 }, [
+        { status: "pending" },
+        { status: "refunded" },
+      ])
+    ).rejects.toThrow(/Unmatched expectations/);
+  });
+});
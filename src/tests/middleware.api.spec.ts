@@ -0,0 +1,145 @@
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { test, expect } from "../fixtures/index.js";
+import {
+  ApiClient,
+  BearerAuth,
+  correlationId,
+  responseTime,
+} from "../api/index.js";
+import type { RequestTiming } from "../api/index.js";
+
+interface SentRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  data?: unknown;
+}
+
+function fakeResponse(status: number, body: unknown = {}): APIResponse {
+  return {
+    status: () => status,
+    url: () => "http://localhost",
+    json: async () => body,
+  } as unknown as APIResponse;
+}
+
+/** A request context that records sent requests and answers with `status`. */
+function fakeContext(status = 200) {
+  const sent: SentRequest[] = [];
+  const request = {
+    fetch: async (url: string, options: Omit<SentRequest, "url">) => {
+      sent.push({ url, ...options });
+      return fakeResponse(status, { path: new URL(url).pathname });
+    },
+  } as unknown as APIRequestContext;
+
+  return { request, sent };
+}
+
+/**
+ * Request/response middleware in ApiClient.
+ */
+test.describe("API Middleware @api @mock", () => {
+  test("runs middleware in order around every verb", async () => {
+    const { request, sent } = fakeContext();
+    const calls: string[] = [];
+    const client = new ApiClient(request, { baseURL: "http://localhost" })
+      .use(async (req, next) => {
+        calls.push(`outer ${req.method}`);
+        const response = await next(req);
+        calls.push(`outer ${response.status()}`);
+        return response;
+      })
+      .use(async (req, next) => {
+        calls.push("inner");
+        req.headers["X-Tenant"] = "acme";
+        return next(req);
+      });
+
+    await client.get("/users");
+    await client.post("/users", { name: "Ann" });
+    await client.send("HEAD", "/users");
+
+    expect(calls).toEqual([
+      "outer GET",
+      "inner",
+      "outer 200",
+      "outer POST",
+      "inner",
+      "outer 200",
+      "outer HEAD",
+      "inner",
+      "outer 200",
+    ]);
+    expect(sent.map((r) => [r.method, r.headers["X-Tenant"]])).toEqual([
+      ["GET", "acme"],
+      ["POST", "acme"],
+      ["HEAD", "acme"],
+    ]);
+    expect(sent[1].data).toEqual({ name: "Ann" });
+  });
+
+  test("can replace responses and map errors", async () => {
+    const { request, sent } = fakeContext(503);
+    const client = new ApiClient(request, { baseURL: "http://localhost" });
+    client.use(async (req, next) => {
+      if (req.url.pathname === "/health") return fakeResponse(200, "stub");
+      const response = await next(req);
+      if (response.status() === 503) {
+        throw new Error(`${req.method} ${req.url.pathname} is unavailable`);
+      }
+      return response;
+    });
+
+    const health = await client.get("/health");
+
+    expect(await health.json()).toBe("stub");
+    expect(sent).toHaveLength(0);
+    await expect(client.get("/users")).rejects.toThrow(
+      "GET /users is unavailable"
+    );
+  });
+
+  test("applies auth after middleware", async () => {
+    const { request, sent } = fakeContext();
+    const seen: Record<string, string>[] = [];
+    const client = new ApiClient(request, {
+      baseURL: "http://localhost",
+      auth: new BearerAuth("abc"),
+    }).use(async (req, next) => {
+      seen.push({ ...req.headers });
+      return next(req);
+    });
+
+    await client.get("/users");
+
+    expect(seen[0]).not.toHaveProperty("Authorization");
+    expect(sent[0].headers.Authorization).toBe("Bearer abc");
+  });
+
+  test("built-in correlation ID and timing middleware", async () => {
+    const { request, sent } = fakeContext();
+    const timings: RequestTiming[] = [];
+    const client = new ApiClient(request, { baseURL: "http://localhost" }).use(
+      correlationId("X-Request-Id", () => "req-1"),
+      responseTime((timing) => timings.push(timing))
+    );
+
+    await client.get("/users");
+    await client.get("/users", { headers: { "X-Request-Id": "mine" } });
+
+    expect(sent.map((r) => r.headers["X-Request-Id"])).toEqual([
+      "req-1",
+      "mine",
+    ]);
+    expect(timings).toEqual([
+      expect.objectContaining({
+        method: "GET",
+        url: "http://localhost/users",
+        status: 200,
+      }),
+      expect.objectContaining({ status: 200 }),
+    ]);
+    expect(timings[0].duration).toBeGreaterThanOrEqual(0);
+  });
+});
@@ -0,0 +1,91 @@
+import { test, expect } from "@playwright/test";
+import {
+  DatabaseFactory,
+  DatabaseClient,
+  MigrationRunner,
+  splitStatements,
+} from "../db/index.js";
+
+const MIGRATIONS_DIR = "src/tests/data/migrations";
+
+/**
+ * Migration runner tests against an in-memory SQLite database.
+ */
+test.describe("Schema Migrations @db @mock", () => {
+  let db: DatabaseClient;
+  let runner: MigrationRunner;
+
+  const tables = async () => {
+    const result = await db.query<{ name: string }>(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+    );
+    return result.rows.map((r) => r.name);
+  };
+
+  test.beforeEach(async () => {
+    db = DatabaseFactory.create({ provider: "sqlite", database: ":memory:" });
+    await db.connect();
+    runner = new MigrationRunner(db, { directory: MIGRATIONS_DIR });
+  });
+
+  test.afterEach(async () => {
+    await db.disconnect();
+  });
+
+  test("applies SQL and TS migrations in order and records them", async () => {
+    const applied = await runner.up();
+
+    expect(applied.map((m) => m.version)).toEqual(["001", "002", "003"]);
+    expect(await tables()).toEqual(["orders", "schema_migrations", "users"]);
+
+    const admin = await db.query<{ name: string; status: string }>(
+      "SELECT name, status FROM users WHERE id = ?",
+      [1]
+    );
+    expect(admin.rows[0]).toEqual({ name: "Admin; root", status: "active" });
+
+    const status = await runner.status();
+    expect(status.every((s) => s.appliedAt !== null)).toBe(true);
+    expect(await runner.up()).toEqual([]);
+  });
+
+  test("uses the provider-specific variant when present", async () => {
+    await runner.up({ to: "002" });
+
+    const sql = await db.query<{ sql: string }>(
+      "SELECT sql FROM sqlite_master WHERE name = 'orders'"
+    );
+    expect(sql.rows[0].sql).toContain("AUTOINCREMENT");
+  });
+
+  test("down reverts the latest migrations", async () => {
+    await runner.up();
+
+    const reverted = await runner.down({ to: "001" });
+
+    expect(reverted.map((m) => m.version)).toEqual(["003", "002"]);
+    expect(await tables()).toEqual(["schema_migrations", "users"]);
+
+    const status = await runner.status();
+    expect(status.map((s) => s.appliedAt !== null)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  test("splitStatements ignores semicolons in literals and bodies", () => {
+    const script = `
+      INSERT INTO t VALUES ('a;b'); -- trailing; comment
+      CREATE FUNCTION f() RETURNS int AS $$ SELECT 1; $$ LANGUAGE sql;
+    `;
+
+    expect(splitStatements(script, "postgres")).toEqual([
+      "INSERT INTO t VALUES ('a;b')",
+      "-- trailing; comment\n      CREATE FUNCTION f() RETURNS int AS $$ SELECT 1; $$ LANGUAGE sql",
+    ]);
+    expect(
+      splitStatements("CREATE TABLE a (x int)\nGO\nSELECT 1;\ngo", "mssql")
+    ).toEqual(["CREATE TABLE a (x int)", "SELECT 1;"]);
+  });
+});
@@ -0,0 +1,102 @@
+import { test, expect } from "../fixtures/index.js";
+import { MockServer } from "../api/index.js";
+
+/**
+ * Local mock HTTP server and the `mockServer` fixture.
+ */
+test.describe("API Mock Server @api @mock", () => {
+  test("points api at stubbed routes", async ({ api, mockServer }) => {
+    mockServer.on("POST", "/users").reply(201, { id: 7, name: "Ann" });
+
+    const response = await api.post("/users", { name: "Ann" });
+
+    expect(response.status).toBe(201);
+    expect(response.url).toBe(`${mockServer.url}/users`);
+    expect(await response.json()).toEqual({ id: 7, name: "Ann" });
+    expect(mockServer).toHaveReceived("POST", "/users", {
+      body: { name: "Ann" },
+      headers: { "content-type": "application/json" },
+      times: 1,
+    });
+    expect(mockServer).not.toHaveReceived("GET", "/users");
+  });
+
+  test("answers from handlers with route params", async ({
+    api,
+    mockServer,
+  }) => {
+    mockServer.on("GET", "/users/:id").reply(({ params, query }) => ({
+      body: { id: Number(params.id), fields: query.fields },
+      headers: { "X-Total": "1" },
+    }));
+
+    const response = await api.get("/users/42", {
+      params: { fields: "name" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers["x-total"]).toBe("1");
+    expect(await response.json()).toEqual({ id: 42, fields: "name" });
+    expect(mockServer).toHaveReceived("GET", "/users/:id", {
+      query: { fields: "name" },
+    });
+  });
+
+  test("later routes override earlier ones until they run out", async ({
+    api,
+    mockServer,
+  }) => {
+    mockServer.on("GET", "/health").reply(200, "ok");
+    mockServer.on("GET", "/health").reply(503, "down").times(2);
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await api.get("/health", { retry: false })).status);
+    }
+
+    expect(statuses).toEqual([503, 503, 200]);
+    expect(await (await api.get("/health")).text()).toBe("ok");
+  });
+
+  test("answers unstubbed requests with 501", async () => {
+    const server = await MockServer.start();
+    try {
+      const response = await fetch(`${server.url}/missing?x=1`, {
+        method: "DELETE",
+      });
+
+      expect(response.status).toBe(501);
+      expect(await response.json()).toEqual({
+        error: "No mock route for DELETE /missing",
+      });
+      expect(server.unmatched.map((r) => r.query)).toEqual([{ x: "1" }]);
+    } finally {
+      await server.stop();
+    }
+  });
+
+  test("wildcards, delays and reset", async () => {
+    const server = await MockServer.start();
+    try {
+      const route = server.on("*", "/files/*").reply(204).delay(20);
+
+      const started = Date.now();
+      const response = await fetch(`${server.url}/files/a/b.txt`, {
+        method: "PUT",
+        body: "hello",
+      });
+
+      expect(response.status).toBe(204);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(20);
+      expect(route.calls.map((r) => [r.method, r.path, r.body])).toEqual([
+        ["PUT", "/files/a/b.txt", "hello"],
+      ]);
+
+      server.reset();
+      expect(server.requests).toHaveLength(0);
+      expect((await fetch(`${server.url}/files/a`)).status).toBe(501);
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -1,55 +1,73 @@
-import { test, expect } from "@playwright/test";
+import { test, expect } from "../fixtures/index.js";
+import type { MockRequest } from "../api/index.js";
 
 /**
- * Mock API tests that don't require a real API server.
- * These tests use httpbin.org as a mock API endpoint.
+ * Mock API tests that don't require a real API server. The `mockServer`
+ * fixture answers like httpbin.org, echoing what it received.
  */
 test.describe("Mock API Tests @api @mock", () => {
-  test("GET request returns 200", async ({ request }) => {
-    const response = await request.get("https://httpbin.org/get");
-    expect(response.status()).toBe(200);
+  const echo = ({ path, query, headers, body }: MockRequest) => ({
+    body: { url: path, args: query, headers, json: body },
+  });
+
+  test.beforeEach(({ mockServer }) => {
+    for (const method of ["GET", "POST", "PUT", "DELETE"]) {
+      mockServer.on(method, `/${method.toLowerCase()}`).reply(echo);
+    }
+    mockServer.on("GET", "/headers").reply(echo);
+    mockServer
+      .on("GET", "/status/:code")
+      .reply(({ params }) => ({ status: Number(params.code) }));
+    mockServer.on("GET", "/json").reply(200, {
+      slideshow: { title: "Sample Slide Show", slides: [] },
+    });
+    mockServer
+      .on("GET", "/response-headers")
+      .reply(({ query }) => ({ body: JSON.stringify(query), headers: query }));
+  });
+
+  test("GET request returns 200", async ({ api }) => {
+    const response = await api.get<{ url: string }>("/get");
+    expect(response.status).toBe(200);
 
     const body = await response.json();
     expect(body).toHaveProperty("url");
-    expect(body.url).toBe("https://httpbin.org/get");
+    expect(body.url).toBe("/get");
   });
 
-  test("POST request with JSON body", async ({ request }) => {
+  test("POST request with JSON body", async ({ api }) => {
     const payload = {
       name: "Test User",
       email: "test@example.com",
     };
 
-    const response = await request.post("https://httpbin.org/post", {
-      data: payload,
-    });
+    const response = await api.post<{ json: unknown }>("/post", payload);
 
-    expect(response.status()).toBe(200);
+    expect(response.status).toBe(200);
 
     const body = await response.json();
     expect(body.json).toEqual(payload);
   });
 
-  test("PUT request with data", async ({ request }) => {
+  test("PUT request with data", async ({ api }) => {
     const payload = { updated: true, value: 42 };
 
-    const response = await request.put("https://httpbin.org/put", {
-      data: payload,
-    });
+    const response = await api.put<{ json: unknown }>("/put", payload);
 
-    expect(response.status()).toBe(200);
+    expect(response.status).toBe(200);
 
     const body = await response.json();
     expect(body.json).toEqual(payload);
   });
 
-  test("DELETE request", async ({ request }) => {
-    const response = await request.delete("https://httpbin.org/delete");
-    expect(response.status()).toBe(200);
+  test("DELETE request", async ({ api, mockServer }) => {
+    const response = await api.delete("/delete");
+    expect(response.status).toBe(200);
+    expect(mockServer).toHaveReceived("DELETE", "/delete", { times: 1 });
   });
 
-  test("Request with query parameters", async ({ request }) => {
-    const response = await request.get("https://httpbin.org/get", {
+  test("Request with query parameters", async ({ api }) => {
+    const response = await api.get<{ args: Record<string, string> }>("/get", {
       params: {
         page: "1",
         limit: "10",
@@ -57,7 +75,7 @@ test.describe("Mock API Tests @api @mock", () => {
       },
     });
 
-    expect(response.status()).toBe(200);
+    expect(response.status).toBe(200);
 
     const body = await response.json();
     expect(body.args).toEqual({
@@ -67,47 +85,51 @@ test.describe("Mock API Tests @api @mock", () => {
     });
   });
 
-  test("Request with custom headers", async ({ request }) => {
-    const response = await request.get("https://httpbin.org/headers", {
-      headers: {
-        "X-Custom-Header": "custom-value",
-        "X-Test-Id": "12345",
-      },
-    });
+  test("Request with custom headers", async ({ api }) => {
+    const response = await api.get<{ headers: Record<string, string> }>(
+      "/headers",
+      {
+        headers: {
+          "X-Custom-Header": "custom-value",
+          "X-Test-Id": "12345",
+        },
+      }
+    );
 
-    expect(response.status()).toBe(200);
+    expect(response.status).toBe(200);
 
+    // Node lower-cases the names of received headers
     const body = await response.json();
-    expect(body.headers["X-Custom-Header"]).toBe("custom-value");
-    expect(body.headers["X-Test-Id"]).toBe("12345");
+    expect(body.headers["x-custom-header"]).toBe("custom-value");
+    expect(body.headers["x-test-id"]).toBe("12345");
   });
 
-  test("Response status codes - 201 Created", async ({ request }) => {
-    const response = await request.get("https://httpbin.org/status/201");
-    expect(response.status()).toBe(201);
+  test("Response status codes - 201 Created", async ({ api }) => {
+    const response = await api.get("/status/201");
+    expect(response.status).toBe(201);
   });
 
-  test("Response status codes - 404 Not Found", async ({ request }) => {
-    const response = await request.get("https://httpbin.org/status/404");
-    expect(response.status()).toBe(404);
-    expect(response.ok()).toBe(false);
+  test("Response status codes - 404 Not Found", async ({ api }) => {
+    const response = await api.get("/status/404");
+    expect(response.status).toBe(404);
+    expect(response.ok).toBe(false);
   });
 
-  test("JSON response parsing", async ({ request }) => {
-    const response = await request.get("https://httpbin.org/json");
-    expect(response.status()).toBe(200);
+  test("JSON response parsing", async ({ api }) => {
+    const response = await api.get<{ slideshow: { title: string } }>("/json");
+    expect(response.status).toBe(200);
 
     const body = await response.json();
     expect(body).toHaveProperty("slideshow");
     expect(body.slideshow).toHaveProperty("title");
   });
 
-  test("Response headers validation", async ({ request }) => {
-    const response = await request.get(
-      "https://httpbin.org/response-headers?Content-Type=application/json"
+  test("Response headers validation", async ({ api }) => {
+    const response = await api.get(
+      "/response-headers?Content-Type=application/json"
     );
 
-    expect(response.status()).toBe(200);
-    expect(response.headers()["content-type"]).toContain("application/json");
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toContain("application/json");
   });
 });
@@ -1,9 +1,12 @@
-import { test, expect } from "@playwright/test";
+import { test, expect } from "../fixtures/index.js";
 import Database from "better-sqlite3";
+import { randomUUID } from "node:crypto";
+import { validateSchema } from "../api/index.js";
 
 /**
  * Mock integration tests combining API calls and database operations.
- * Uses httpbin.org for API and SQLite in-memory for database.
+ * The `mockServer` fixture answers like httpbin.org, and the database is
+ * SQLite in-memory.
  */
 test.describe("Mock Integration Tests @integration @mock", () => {
   let db: Database.Database;
@@ -33,9 +36,26 @@ test.describe("Mock Integration Tests @integration @mock", () => {
     db.close();
   });
 
-  test("API call result stored in database", async ({ request }) => {
+  test.beforeEach(({ mockServer }) => {
+    for (const path of ["/get", "/headers", "/user-agent"]) {
+      mockServer.on("GET", path).reply(({ headers }) => ({
+        body: { headers },
+      }));
+    }
+    mockServer.on("GET", "/uuid").reply(() => ({
+      body: { uuid: randomUUID() },
+    }));
+    mockServer
+      .on("POST", "/post")
+      .reply(({ body }) => ({ body: { json: body } }));
+    mockServer
+      .on("GET", "/status/:code")
+      .reply(({ params }) => ({ status: Number(params.code) }));
+  });
+
+  test("API call result stored in database", async ({ api }) => {
     const startTime = Date.now();
-    const response = await request.get("https://httpbin.org/get");
+    const response = await api.get("/get");
     const responseTime = Date.now() - startTime;
 
     // Store API call in database
@@ -43,33 +63,36 @@ test.describe("Mock Integration Tests @integration @mock", () => {
       .prepare(
         "INSERT INTO api_logs (endpoint, method, status_code, response_time_ms) VALUES (?, ?, ?, ?)"
       )
-      .run("/get", "GET", response.status(), responseTime);
+      .run("/get", "GET", response.status, responseTime);
 
     expect(result.changes).toBe(1);
 
     // Verify the log was stored
-    const log = db.prepare("SELECT * FROM api_logs WHERE id = ?").get(
-      result.lastInsertRowid
-    ) as { endpoint: string; method: string; status_code: number };
+    const log = db
+      .prepare("SELECT * FROM api_logs WHERE id = ?")
+      .get(result.lastInsertRowid) as {
+      endpoint: string;
+      method: string;
+      status_code: number;
+    };
 
     expect(log.endpoint).toBe("/get");
     expect(log.method).toBe("GET");
     expect(log.status_code).toBe(200);
   });
 
-  test("Sync API data to database", async ({ request }) => {
+  test("Sync API data to database", async ({ api }) => {
     // Fetch data from API
-    const response = await request.get("https://httpbin.org/uuid");
-    expect(response.status()).toBe(200);
+    const response = await api.get<{ uuid: string }>("/uuid");
+    expect(response.status).toBe(200);
 
     const body = await response.json();
     const uuid = body.uuid;
 
     // Store in database
-    db.prepare("INSERT INTO sync_records (external_id, data) VALUES (?, ?)").run(
-      uuid,
-      JSON.stringify(body)
-    );
+    db.prepare(
+      "INSERT INTO sync_records (external_id, data) VALUES (?, ?)"
+    ).run(uuid, JSON.stringify(body));
 
     // Verify sync
     const record = db
@@ -81,17 +104,17 @@ test.describe("Mock Integration Tests @integration @mock", () => {
     expect(JSON.parse(record.data)).toHaveProperty("uuid");
   });
 
-  test("Batch API calls with database tracking", async ({ request }) => {
+  test("Batch API calls with database tracking", async ({ api }) => {
     const endpoints = ["/get", "/headers", "/user-agent"];
     const results: Array<{ endpoint: string; status: number }> = [];
 
     for (const endpoint of endpoints) {
-      const response = await request.get(`https://httpbin.org${endpoint}`);
-      results.push({ endpoint, status: response.status() });
+      const response = await api.get(endpoint);
+      results.push({ endpoint, status: response.status });
 
       db.prepare(
         "INSERT INTO api_logs (endpoint, method, status_code, response_time_ms) VALUES (?, ?, ?, ?)"
-      ).run(endpoint, "GET", response.status(), 0);
+      ).run(endpoint, "GET", response.status, 0);
     }
 
     // Verify all calls succeeded
@@ -107,41 +130,41 @@ test.describe("Mock Integration Tests @integration @mock", () => {
     }
   });
 
-  test("API response validation against database schema", async ({ request }) => {
-    const response = await request.post("https://httpbin.org/post", {
-      data: {
-        id: 1,
-        name: "Test Item",
-        price: 29.99,
-        active: true,
-      },
+  test("API response validation against database schema", async ({ api }) => {
+    const response = await api.post<{ json: unknown }>("/post", {
+      id: 1,
+      name: "Test Item",
+      price: 29.99,
+      active: true,
     });
 
     const body = await response.json();
     const postedData = body.json;
 
-    // Validate required fields
-    expect(postedData).toHaveProperty("id");
-    expect(postedData).toHaveProperty("name");
-    expect(postedData).toHaveProperty("price");
-
-    // Validate types
-    expect(typeof postedData.id).toBe("number");
-    expect(typeof postedData.name).toBe("string");
-    expect(typeof postedData.price).toBe("number");
-    expect(typeof postedData.active).toBe("boolean");
+    // Validate required fields and types in one pass
+    const violations = validateSchema(postedData, {
+      type: "object",
+      required: ["id", "name", "price"],
+      properties: {
+        id: { type: "integer" },
+        name: { type: "string" },
+        price: { type: "number" },
+        active: { type: "boolean" },
+      },
+    });
+    expect(violations).toEqual([]);
   });
 
-  test("Error handling - API failure logged to database", async ({ request }) => {
-    const response = await request.get("https://httpbin.org/status/500");
+  test("Error handling - API failure logged to database", async ({ api }) => {
+    const response = await api.get("/status/500");
 
     // Log the error
     db.prepare(
       "INSERT INTO api_logs (endpoint, method, status_code, response_time_ms) VALUES (?, ?, ?, ?)"
-    ).run("/status/500", "GET", response.status(), 0);
+    ).run("/status/500", "GET", response.status, 0);
 
-    expect(response.status()).toBe(500);
-    expect(response.ok()).toBe(false);
+    expect(response.status).toBe(500);
+    expect(response.ok).toBe(false);
 
     // Verify error was logged
     const errorLog = db
@@ -152,21 +175,20 @@ test.describe("Mock Integration Tests @integration @mock", () => {
     expect(errorLog.status_code).toBe(500);
   });
 
-  test("Data consistency between API and DB", async ({ request }) => {
-    // Create a unique identifier
+  test("Data consistency between API and DB", async ({ api }) => {
     const testId = `test-${Date.now()}`;
 
     // Simulate posting data via API
-    const postResponse = await request.post("https://httpbin.org/post", {
-      data: { testId, value: 42 },
+    const postResponse = await api.post<{ json: unknown }>("/post", {
+      testId,
+      value: 42,
     });
     const postBody = await postResponse.json();
 
     // Store in database
-    db.prepare("INSERT INTO sync_records (external_id, data) VALUES (?, ?)").run(
-      testId,
-      JSON.stringify(postBody.json)
-    );
+    db.prepare(
+      "INSERT INTO sync_records (external_id, data) VALUES (?, ?)"
+    ).run(testId, JSON.stringify(postBody.json));
 
     // Fetch from database and verify
     const dbRecord = db
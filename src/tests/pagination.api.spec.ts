@@ -0,0 +1,156 @@
+import { test, expect } from "../fixtures/index.js";
+import {
+  CursorPagination,
+  LinkHeaderPagination,
+  OffsetPagination,
+  PagePagination,
+  parseLinkHeader,
+} from "../api/index.js";
+
+interface User {
+  id: number;
+}
+
+const USERS: User[] = Array.from({ length: 7 }, (_, i) => ({ id: i + 1 }));
+
+/**
+ * Pagination strategies and the paginate() iterator on ApiClient.
+ */
+test.describe("API Pagination @api @mock", () => {
+  test("follows cursors", async ({ api, mockServer }) => {
+    mockServer.on("GET", "/users").reply(({ query }) => {
+      const start = Number(query.cursor ?? 0);
+      const next = start + 3 < USERS.length ? String(start + 3) : null;
+      return {
+        body: { data: USERS.slice(start, start + 3), meta: { next } },
+      };
+    });
+
+    const users = await api
+      .paginate<User>("/users", new CursorPagination({ cursor: "meta.next" }), {
+        params: { status: "active" },
+      })
+      .all();
+
+    expect(users).toEqual(USERS);
+    expect(mockServer.requests.map((r) => r.query)).toEqual([
+      { status: "active" },
+      { status: "active", cursor: "3" },
+      { status: "active", cursor: "6" },
+    ]);
+  });
+
+  test("walks numbered pages page by page", async ({ api, mockServer }) => {
+    mockServer.on("GET", "/users").reply(({ query }) => {
+      const page = Number(query.page);
+      const size = Number(query.per_page);
+      return {
+        body: {
+          items: USERS.slice((page - 1) * size, page * size),
+          total_pages: Math.ceil(USERS.length / size),
+        },
+      };
+    });
+
+    const pages = [];
+    for await (const page of api
+      .paginate<User>(
+        "/users",
+        new PagePagination({
+          pageSize: 4,
+          pageSizeParam: "per_page",
+          items: "items",
+          totalPages: "total_pages",
+        })
+      )
+      .pages()) {
+      pages.push([page.number, page.items.map((u) => u.id)]);
+    }
+
+    expect(pages).toEqual([
+      [1, [1, 2, 3, 4]],
+      [2, [5, 6, 7]],
+    ]);
+  });
+
+  test("steps offsets until a short page", async ({ api, mockServer }) => {
+    mockServer.on("GET", "/users").reply(({ query }) => {
+      const offset = Number(query.offset);
+      return {
+        body: USERS.slice(offset, offset + Number(query.limit)),
+      };
+    });
+
+    const ids: number[] = [];
+    for await (const user of api.paginate<User>(
+      "/users",
+      new OffsetPagination({ limit: 5 })
+    )) {
+      ids.push(user.id);
+    }
+
+    expect(ids).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(mockServer.requests).toHaveLength(2);
+  });
+
+  test("follows Link headers", async ({ api, mockServer }) => {
+    mockServer.on("GET", "/users").reply(({ query }) => {
+      const page = Number(query.page ?? 1);
+      return {
+        body: USERS.slice((page - 1) * 5, page * 5),
+        headers:
+          page === 1
+            ? {
+                Link: '</users?page=2>; rel="next", </users?page=2>; rel="last"',
+              }
+            : { Link: '</users?page=1>; rel="first prev"' },
+      };
+    });
+
+    const users = await api
+      .paginate<User>("/users", new LinkHeaderPagination())
+      .all();
+
+    expect(users).toEqual(USERS);
+    expect(
+      parseLinkHeader(
+        '<https://api.example.com/x?page=3>; rel="next", <https://api.example.com/x?page=1>; rel="first prev"'
+      )
+    ).toEqual({
+      next: "https://api.example.com/x?page=3",
+      first: "https://api.example.com/x?page=1",
+      prev: "https://api.example.com/x?page=1",
+    });
+  });
+
+  test("caps the number of pages", async ({ api, mockServer }) => {
+    mockServer.on("GET", "/users").reply(({ query }) => ({
+      body: {
+        data: [{ id: 1 }],
+        meta: { next: Number(query.cursor ?? 0) + 1 },
+      },
+    }));
+
+    await expect(
+      api
+        .paginate("/users", new CursorPagination({ cursor: "meta.next" }), {
+          maxPages: 3,
+        })
+        .all()
+    ).rejects.toThrow(
+      "Pagination of /users did not finish within maxPages (3)"
+    );
+  });
+
+  test("fails when a strategy stops advancing", async ({ api, mockServer }) => {
+    mockServer
+      .on("GET", "/users")
+      .reply(200, { data: [{ id: 1 }], meta: { next: "same" } });
+
+    await expect(
+      api
+        .paginate("/users", new CursorPagination({ cursor: "meta.next" }))
+        .all()
+    ).rejects.toThrow("the strategy is not advancing");
+  });
+});
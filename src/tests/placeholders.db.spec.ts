@@ -0,0 +1,67 @@
+import { test, expect } from "@playwright/test";
+import { rewritePlaceholders } from "../db/index.js";
+
+/**
+ * Placeholder rewriting tests. Pure string transformations, so no database
+ * server is required.
+ */
+test.describe("SQL Placeholder Rewriting @db @mock", () => {
+  test("? placeholders become numbered for Postgres and MSSQL", () => {
+    const sql = "SELECT * FROM users WHERE id = ? AND email = ?";
+
+    expect(rewritePlaceholders(sql, [1, "a@b.c"], "postgres")).toEqual({
+      sql: "SELECT * FROM users WHERE id = $1 AND email = $2",
+      params: [1, "a@b.c"],
+    });
+    expect(rewritePlaceholders(sql, [1, "a@b.c"], "mssql").sql).toBe(
+      "SELECT * FROM users WHERE id = @p0 AND email = @p1"
+    );
+    expect(rewritePlaceholders(sql, [1, "a@b.c"], "mysql").sql).toBe(sql);
+  });
+
+  test("$n placeholders are reordered for ? drivers", () => {
+    const result = rewritePlaceholders(
+      "SELECT * FROM t WHERE a = $2 OR b = $1 OR c = $2",
+      ["one", "two"],
+      "sqlite"
+    );
+
+    expect(result.sql).toBe("SELECT * FROM t WHERE a = ? OR b = ? OR c = ?");
+    expect(result.params).toEqual(["two", "one", "two"]);
+  });
+
+  test("named placeholders reuse a single slot on numbered drivers", () => {
+    const result = rewritePlaceholders(
+      "UPDATE users SET name = :name WHERE name <> :name AND id = :id",
+      { id: 7, name: "Jane" },
+      "postgres"
+    );
+
+    expect(result.sql).toBe(
+      "UPDATE users SET name = $1 WHERE name <> $1 AND id = $2"
+    );
+    expect(result.params).toEqual(["Jane", 7]);
+  });
+
+  test("literals, identifiers, comments and casts are left alone", () => {
+    const sql = `SELECT 'what?' AS "col?", [x?], id::text -- why?
+      FROM t /* :skip ? */ WHERE a = ? AND b = $$ :no ? $$`;
+
+    const result = rewritePlaceholders(sql, [1], "mssql");
+
+    expect(result.sql).toBe(sql.replace("a = ?", "a = @p0"));
+    expect(result.params).toEqual([1]);
+  });
+
+  test("mismatched parameters fail loudly", () => {
+    expect(() => rewritePlaceholders("SELECT ?, ?", [1], "mysql")).toThrow(
+      /Expected 2/
+    );
+    expect(() =>
+      rewritePlaceholders("SELECT ?, :a", { a: 1 }, "mysql")
+    ).toThrow(/Cannot mix/);
+    expect(() =>
+      rewritePlaceholders("SELECT :missing", {}, "postgres")
+    ).toThrow(/:missing/);
+  });
+});
@@ -0,0 +1,74 @@
+import { test, expect } from "@playwright/test";
+import {
+  DatabaseFactory,
+  DatabaseClient,
+  DbPoller,
+  DbPollTimeoutError,
+} from "../db/index.js";
+
+/**
+ * Polling helpers against an in-memory SQLite database, with writes that
+ * land after a delay to simulate a queue-driven service.
+ */
+test.describe("Database Polling @db @mock", () => {
+  let db: DatabaseClient;
+  let poll: DbPoller;
+
+  const insertLater = (ms: number, email: string) =>
+    setTimeout(() => {
+      void db.execute("INSERT INTO users (email, status) VALUES (?, ?)", [
+        email,
+        "active",
+      ]);
+    }, ms);
+
+  test.beforeEach(async () => {
+    db = DatabaseFactory.create({ provider: "sqlite", database: ":memory:" });
+    await db.connect();
+    await db.execute(
+      "CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT, status TEXT)"
+    );
+    poll = new DbPoller(db, { interval: 20, timeout: 2000 });
+  });
+
+  test.afterEach(async () => {
+    await db.disconnect();
+  });
+
+  test("waitForRow resolves once the row appears", async () => {
+    insertLater(100, "late@example.com");
+
+    const row = await poll.waitForRow<{ email: string; status: string }>(
+      "users",
+      { email: "late@example.com" },
+      { match: (r) => r.status === "active" }
+    );
+
+    expect(row.status).toBe("active");
+  });
+
+  test("waitForRowCount and waitForNoRow", async () => {
+    insertLater(50, "a@example.com");
+    insertLater(120, "b@example.com");
+
+    await poll.waitForRowCount("users", 2);
+
+    setTimeout(() => void db.execute("DELETE FROM users"), 50);
+    await poll.waitForNoRow("users", { status: "active" });
+  });
+
+  test("timeout reports the last observed rows", async () => {
+    await db.execute("INSERT INTO users (email, status) VALUES (?, ?)", [
+      "other@example.com",
+      "pending",
+    ]);
+
+    const error = await poll
+      .waitForRowCount("users", 5, undefined, { timeout: 200 })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(DbPollTimeoutError);
+    expect((error as DbPollTimeoutError).attempts).toBeGreaterThan(1);
+    expect((error as Error).message).toContain("other@example.com");
+  });
+});
@@ -0,0 +1,321 @@
+import { test, expect } from "@playwright/test";
+import sql from "mssql";
+import { DatabaseFactory, DatabaseClient } from "../db/index.js";
+import { sleep } from "../utils/index.js";
+
+/**
+ * Transactions of the pooled providers, against fake pools that record which
+ * connection ran each statement: `pool` for statements the pool ran itself,
+ * `conn1`, `conn2`, ... for connections checked out of it.
+ */
+
+type Log = string[];
+
+/** Replaces the driver pool a connected client would have created. */
+function usePool(db: DatabaseClient, pool: unknown): void {
+  (db as unknown as { pool: unknown }).pool = pool;
+}
+
+/** Statements run on one connection, without the connection prefix. */
+function statementsOf(log: Log, connection: string): string[] {
+  return log
+    .filter((entry) => entry.startsWith(`${connection}: `))
+    .map((entry) => entry.slice(connection.length + 2));
+}
+
+/** Throws for statements that contain `failOn`, e.g. `"ROLLBACK"`. */
+function run(
+  log: Log,
+  connection: string,
+  statement: string,
+  failOn: string[]
+) {
+  log.push(`${connection}: ${statement}`);
+  const failure = failOn.find((text) => statement.includes(text));
+  if (failure) throw new Error(`${failure} failed`);
+}
+
+function fakePgPool(log: Log, failOn: string[] = []) {
+  let connections = 0;
+  const released: unknown[] = [];
+  const result = { rows: [], rowCount: 1, fields: [] };
+
+  return {
+    released,
+    async query(statement: string) {
+      run(log, "pool", statement, failOn);
+      return result;
+    },
+    async connect() {
+      const name = `conn${++connections}`;
+      return {
+        async query(statement: string) {
+          run(log, name, statement, failOn);
+          return result;
+        },
+        release(error?: unknown) {
+          released.push(error);
+        },
+      };
+    },
+  };
+}
+
+function fakeMySqlPool(log: Log, failOn: string[] = []) {
+  let connections = 0;
+  const finished: string[] = [];
+  const result = [{ affectedRows: 1 }, undefined];
+
+  return {
+    finished,
+    async execute(statement: string) {
+      run(log, "pool", statement, failOn);
+      return result;
+    },
+    async getConnection() {
+      const name = `conn${++connections}`;
+      const statement = async (text: string) => {
+        run(log, name, text, failOn);
+        return result;
+      };
+      return {
+        execute: statement,
+        query: statement,
+        beginTransaction: () => statement("BEGIN"),
+        commit: () => statement("COMMIT"),
+        rollback: () => statement("ROLLBACK"),
+        release: () => finished.push(`${name} released`),
+        destroy: () => finished.push(`${name} destroyed`),
+      };
+    },
+  };
+}
+
+const INSERT = "INSERT INTO products (name) VALUES ('A')";
+const SELECT = "SELECT COUNT(*) AS count FROM products";
+
+test.describe("Pooled Transactions @db @mock", () => {
+  let log: Log;
+
+  test.beforeEach(() => {
+    log = [];
+  });
+
+  test.describe("PostgreSQL", () => {
+    let db: DatabaseClient;
+
+    test.beforeEach(() => {
+      db = DatabaseFactory.create({ provider: "postgres", database: "test" });
+    });
+
+    test("a pool query during a transaction runs outside it", async () => {
+      usePool(db, fakePgPool(log));
+
+      await db.transaction(async (tx) => {
+        await tx.execute(INSERT);
+        await db.query(SELECT);
+      });
+
+      expect(statementsOf(log, "conn1")).toEqual(["BEGIN", INSERT, "COMMIT"]);
+      expect(statementsOf(log, "pool")).toEqual([SELECT]);
+    });
+
+    test("overlapping transactions use separate connections", async () => {
+      usePool(db, fakePgPool(log));
+
+      await Promise.all(
+        ["A", "B"].map((name) =>
+          db.transaction(async (tx) => {
+            await sleep(10);
+            await tx.execute(`INSERT ${name}`);
+          })
+        )
+      );
+
+      expect(statementsOf(log, "conn1")).toEqual([
+        "BEGIN",
+        "INSERT A",
+        "COMMIT",
+      ]);
+      expect(statementsOf(log, "conn2")).toEqual([
+        "BEGIN",
+        "INSERT B",
+        "COMMIT",
+      ]);
+    });
+
+    test("a failing ROLLBACK keeps the original error", async () => {
+      const pool = fakePgPool(log, ["INSERT", "ROLLBACK"]);
+      usePool(db, pool);
+
+      await expect(db.transaction((tx) => tx.execute(INSERT))).rejects.toThrow(
+        "INSERT failed"
+      );
+      expect(pool.released).toEqual([new Error("ROLLBACK failed")]);
+    });
+  });
+
+  test.describe("MySQL", () => {
+    let db: DatabaseClient;
+
+    test.beforeEach(() => {
+      db = DatabaseFactory.create({ provider: "mysql", database: "test" });
+    });
+
+    test("a pool query during a transaction runs outside it", async () => {
+      usePool(db, fakeMySqlPool(log));
+
+      await db.transaction(async (tx) => {
+        await tx.execute(INSERT);
+        await db.query(SELECT);
+      });
+
+      expect(statementsOf(log, "conn1")).toEqual(["BEGIN", INSERT, "COMMIT"]);
+      expect(statementsOf(log, "pool")).toEqual([SELECT]);
+    });
+
+    test("overlapping transactions use separate connections", async () => {
+      usePool(db, fakeMySqlPool(log));
+
+      await Promise.all(
+        ["A", "B"].map((name) =>
+          db.transaction(async (tx) => {
+            await sleep(10);
+            await tx.execute(`INSERT ${name}`);
+          })
+        )
+      );
+
+      expect(statementsOf(log, "conn1")).toEqual([
+        "BEGIN",
+        "INSERT A",
+        "COMMIT",
+      ]);
+      expect(statementsOf(log, "conn2")).toEqual([
+        "BEGIN",
+        "INSERT B",
+        "COMMIT",
+      ]);
+    });
+
+    test("a failing ROLLBACK keeps the original error", async () => {
+      const pool = fakeMySqlPool(log, ["INSERT", "ROLLBACK"]);
+      usePool(db, pool);
+
+      await expect(db.transaction((tx) => tx.execute(INSERT))).rejects.toThrow(
+        "INSERT failed"
+      );
+      expect(pool.finished).toEqual(["conn1 destroyed"]);
+    });
+  });
+
+  test.describe("SQL Server", () => {
+    const original = {
+      begin: sql.Transaction.prototype.begin,
+      commit: sql.Transaction.prototype.commit,
+      rollback: sql.Transaction.prototype.rollback,
+      query: sql.Request.prototype.query,
+    };
+    const pool = {};
+    let db: DatabaseClient;
+    let connections: Map<unknown, string>;
+    let failOn: string[];
+
+    const nameOf = (parent: unknown) => connections.get(parent) ?? "unknown";
+
+    test.beforeAll(() => {
+      // mssql opens connections inside Transaction and Request, so those are
+      // faked instead of the pool
+      Object.assign(sql.Transaction.prototype, {
+        async begin(this: sql.Transaction) {
+          const name = `conn${connections.size}`;
+          connections.set(this, name);
+          run(log, name, "BEGIN", failOn);
+          return this;
+        },
+        async commit(this: sql.Transaction) {
+          run(log, nameOf(this), "COMMIT", failOn);
+        },
+        async rollback(this: sql.Transaction) {
+          run(log, nameOf(this), "ROLLBACK", failOn);
+        },
+      });
+      Object.assign(sql.Request.prototype, {
+        async query(this: { parent: unknown }, statement: string) {
+          run(log, nameOf(this.parent), statement, failOn);
+          return { recordset: [], rowsAffected: [1] };
+        },
+      });
+    });
+
+    test.afterAll(() => {
+      Object.assign(sql.Transaction.prototype, {
+        begin: original.begin,
+        commit: original.commit,
+        rollback: original.rollback,
+      });
+      Object.assign(sql.Request.prototype, { query: original.query });
+    });
+
+    test.beforeEach(() => {
+      connections = new Map([[pool, "pool"]]);
+      failOn = [];
+      db = DatabaseFactory.create({ provider: "mssql", database: "test" });
+      usePool(db, pool);
+    });
+
+    test("a pool query during a transaction runs outside it", async () => {
+      await db.transaction(async (tx) => {
+        await tx.execute(INSERT);
+        await db.query(SELECT);
+      });
+
+      expect(statementsOf(log, "conn1")).toEqual(["BEGIN", INSERT, "COMMIT"]);
+      expect(statementsOf(log, "pool")).toEqual([SELECT]);
+    });
+
+    test("overlapping transactions use separate connections", async () => {
+      await Promise.all(
+        ["A", "B"].map((name) =>
+          db.transaction(async (tx) => {
+            await sleep(10);
+            await tx.execute(`INSERT ${name}`);
+          })
+        )
+      );
+
+      expect(statementsOf(log, "conn1")).toEqual([
+        "BEGIN",
+        "INSERT A",
+        "COMMIT",
+      ]);
+      expect(statementsOf(log, "conn2")).toEqual([
+        "BEGIN",
+        "INSERT B",
+        "COMMIT",
+      ]);
+    });
+
+    test("a failing ROLLBACK keeps the original error", async () => {
+      failOn = ["INSERT", "ROLLBACK"];
+
+      await expect(db.transaction((tx) => tx.execute(INSERT))).rejects.toThrow(
+        "INSERT failed"
+      );
+      expect(statementsOf(log, "conn1")).toEqual(["BEGIN", INSERT, "ROLLBACK"]);
+    });
+
+    test("a failed BEGIN is not rolled back", async () => {
+      failOn = ["BEGIN"];
+      let called = false;
+
+      await expect(
+        db.transaction(async () => {
+          called = true;
+        })
+      ).rejects.toThrow("BEGIN failed");
+      expect(called).toBe(false);
+      expect(log).toEqual(["conn1: BEGIN"]);
+    });
+  });
+});
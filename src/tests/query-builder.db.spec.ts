@@ -0,0 +1,286 @@
+import { test, expect } from "../fixtures/index.js";
+import {
+  DatabaseFactory,
+  DatabaseClient,
+  QueryBuilder,
+  snapshot,
+} from "../db/index.js";
+import type {
+  DatabaseProvider,
+  DbSnapshot,
+  QueryParams,
+  QueryResult,
+  SchemaModel,
+} from "../db/index.js";
+
+interface User {
+  id: number;
+  email: string;
+  name: string;
+  active: boolean;
+}
+
+/**
+ * A client that records statements instead of running them, to check what
+ * the builder compiles for providers that are not available here.
+ */
+class RecordingClient implements DatabaseClient {
+  readonly provider: DatabaseProvider;
+  readonly statements: { sql: string; params?: QueryParams }[] = [];
+  private result: Record<string, unknown>[];
+
+  constructor(
+    provider: DatabaseProvider,
+    result: Record<string, unknown>[] = []
+  ) {
+    this.provider = provider;
+    this.result = result;
+  }
+
+  async connect(): Promise<void> {}
+
+  async disconnect(): Promise<void> {}
+
+  async query<T>(sql: string, params?: QueryParams): Promise<QueryResult<T>> {
+    this.statements.push({ sql, params });
+    return { rows: this.result as T[], rowCount: this.result.length };
+  }
+
+  async execute(sql: string, params?: QueryParams): Promise<number> {
+    this.statements.push({ sql, params });
+    return 1;
+  }
+
+  async introspect(): Promise<SchemaModel> {
+    return {
+      provider: this.provider,
+      schema: "test",
+      tables: [
+        {
+          name: "users",
+          columns: [],
+          primaryKey: ["id"],
+          indexes: [],
+          foreignKeys: [],
+        },
+      ],
+    };
+  }
+
+  from<T extends object>(table: string): QueryBuilder<T> {
+    return new QueryBuilder<T>(this, table);
+  }
+
+  async snapshot(tables: string[]): Promise<DbSnapshot> {
+    return snapshot(this, tables);
+  }
+
+  async transaction<T>(fn: (client: DatabaseClient) => Promise<T>): Promise<T> {
+    return fn(this);
+  }
+}
+
+/**
+ * The query builder against an in-memory SQLite database, and the SQL it
+ * compiles for each provider.
+ */
+test.describe("Query Builder @db @mock", () => {
+  let db: DatabaseClient;
+
+  test.beforeEach(async () => {
+    db = DatabaseFactory.create({ provider: "sqlite", database: ":memory:" });
+    await db.connect();
+    await db.execute(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE,
+        name TEXT NOT NULL,
+        active BOOLEAN NOT NULL DEFAULT 1
+      )`);
+    await db.from<User>("users").insert([
+      { email: "ann@example.com", name: "Ann", active: true },
+      { email: "bob@example.com", name: "Bob", active: false },
+      { email: "cy@example.com", name: "Cy", active: true },
+    ]);
+  });
+
+  test.afterEach(async () => {
+    await db.disconnect();
+  });
+
+  test("selects, filters, orders and pages", async () => {
+    const users = db.from<User>("users");
+
+    expect(
+      await users
+        .where({ email: "bob@example.com" })
+        .select("id", "name")
+        .first()
+    ).toEqual({ id: 2, name: "Bob" });
+    expect(
+      await db
+        .from<User>("users")
+        .where({ active: true })
+        .orderBy("name", "desc")
+        .select("name")
+        .all()
+    ).toEqual([{ name: "Cy" }, { name: "Ann" }]);
+    expect(
+      await db.from<User>("users").orderBy("id").offset(1).limit(1).all()
+    ).toMatchObject([{ id: 2 }]);
+    expect(
+      await db
+        .from<User>("users")
+        .where({ id: [1, 3] })
+        .count()
+    ).toBe(2);
+    expect(
+      await db.from<User>("users").where({ id: 9 }).first()
+    ).toBeUndefined();
+  });
+
+  test("inserts, updates and deletes with returning", async () => {
+    const users = () => db.from<User>("users");
+
+    const created = await users().insert(
+      { email: "dee@example.com", name: "Dee", active: true },
+      ["id", "email"]
+    );
+    const updated = await users()
+      .where({ active: false })
+      .update({ active: true, name: "Bobby" }, "*");
+    const deleted = await users()
+      .where({ id: [1, 3] })
+      .delete(["id"]);
+
+    expect(created).toEqual([{ id: 4, email: "dee@example.com" }]);
+    expect(updated).toEqual([
+      { id: 2, email: "bob@example.com", name: "Bobby", active: 1 },
+    ]);
+    expect(deleted).toEqual([{ id: 1 }, { id: 3 }]);
+    expect(await users().count()).toBe(2);
+    expect(await users().where({ name: "Dee" }).update({ active: false })).toBe(
+      1
+    );
+  });
+
+  test("rejects inconsistent inserts", async () => {
+    await expect(
+      db
+        .from<User>("users")
+        .insert([
+          { email: "x@example.com", name: "X" },
+          { email: "y@example.com" },
+        ])
+    ).rejects.toThrow(
+      "Rows inserted into users together must have the same columns: email, name"
+    );
+  });
+
+  test("select() leaves the original builder unchanged", () => {
+    const users = new RecordingClient("postgres")
+      .from<User>("users")
+      .where({ active: true });
+    const names = users.select("name").limit(1);
+
+    expect(names.toSQL().sql).toBe(
+      'SELECT "name" FROM "users" WHERE "active" = ? LIMIT 1'
+    );
+    expect(users.toSQL().sql).toBe('SELECT * FROM "users" WHERE "active" = ?');
+  });
+
+  test("compiles limits for each provider", () => {
+    const select = (provider: DatabaseProvider) =>
+      new RecordingClient(provider)
+        .from<User>("users")
+        .where({ email: "ann@example.com", active: true })
+        .select("id", "name")
+        .limit(10)
+        .toSQL().sql;
+
+    expect(select("postgres")).toBe(
+      'SELECT "id", "name" FROM "users" WHERE "email" = ? AND "active" = ? LIMIT 10'
+    );
+    expect(select("sqlite")).toBe(select("postgres"));
+    expect(select("mysql")).toBe(
+      "SELECT `id`, `name` FROM `users` WHERE `email` = ? AND `active` = ? LIMIT 10"
+    );
+    expect(select("mssql")).toBe(
+      "SELECT TOP (10) [id], [name] FROM [users] WHERE [email] = ? AND [active] = ?"
+    );
+    expect(
+      new RecordingClient("mssql").from("users").offset(20).limit(10).toSQL()
+    ).toEqual({
+      sql: "SELECT * FROM [users] ORDER BY (SELECT NULL) OFFSET 20 ROWS FETCH NEXT 10 ROWS ONLY",
+      params: [],
+    });
+    expect(
+      new RecordingClient("mysql").from("users").offset(5).toSQL().sql
+    ).toBe("SELECT * FROM `users` LIMIT 18446744073709551615 OFFSET 5");
+  });
+
+  test("compiles returning for each provider", async () => {
+    const postgres = new RecordingClient("postgres");
+    await postgres.from<User>("users").insert({ name: "Ann" }, ["id"]);
+    await postgres.from<User>("users").where({ id: 1 }).delete("*");
+    expect(postgres.statements.map((s) => s.sql)).toEqual([
+      'INSERT INTO "users" ("name") VALUES (?) RETURNING "id"',
+      'DELETE FROM "users" WHERE "id" = ? RETURNING *',
+    ]);
+
+    const mssql = new RecordingClient("mssql");
+    await mssql.from<User>("users").insert({ name: "Ann" }, ["id"]);
+    await mssql
+      .from<User>("users")
+      .where({ id: 1 })
+      .update({ name: "Bo" }, "*");
+    await mssql.from<User>("users").where({ id: 1 }).delete(["id"]);
+    expect(mssql.statements).toEqual([
+      {
+        sql: "INSERT INTO [users] ([name]) OUTPUT INSERTED.[id] VALUES (?)",
+        params: ["Ann"],
+      },
+      {
+        sql: "UPDATE [users] SET [name] = ? OUTPUT INSERTED.* WHERE [id] = ?",
+        params: ["Bo", 1],
+      },
+      {
+        sql: "DELETE FROM [users] OUTPUT DELETED.[id] WHERE [id] = ?",
+        params: [1],
+      },
+    ]);
+  });
+
+  test("reads inserted rows back by LAST_INSERT_ID on MySQL", async () => {
+    const mysql = new RecordingClient("mysql", [{ id: 7, step: 1 }]);
+
+    await mysql
+      .from<User>("users")
+      .insert([{ name: "Ann" }, { name: "Bob" }], ["id", "name"]);
+
+    expect(mysql.statements).toEqual([
+      {
+        sql: "INSERT INTO `users` (`name`) VALUES (?), (?)",
+        params: ["Ann", "Bob"],
+      },
+      {
+        sql: "SELECT LAST_INSERT_ID() AS id, @@auto_increment_increment AS step",
+        params: undefined,
+      },
+      {
+        sql: "SELECT `id`, `name` FROM `users` WHERE `id` IN (?, ?)",
+        params: [7, 8],
+      },
+    ]);
+  });
+
+  test("steps inserted MySQL ids by auto_increment_increment", async () => {
+    const mysql = new RecordingClient("mysql", [{ id: 7, step: 2 }]);
+
+    await mysql
+      .from<User>("users")
+      .insert([{ name: "Ann" }, { name: "Bob" }], ["id"]);
+
+    expect(mysql.statements.at(-1)?.params).toEqual([7, 9]);
+  });
+});
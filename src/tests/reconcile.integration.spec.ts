@@ -0,0 +1,143 @@
+import { test, expect } from "../fixtures/index.js";
+import { DatabaseFactory, DatabaseClient } from "../db/index.js";
+import { reconcile, snakeCase, transforms } from "../reconcile/index.js";
+import type { EntityMapping } from "../reconcile/index.js";
+
+const userEntity: EntityMapping = {
+  table: "users",
+  key: "id",
+  naming: "snake_case",
+  fields: {
+    fullName: "name",
+    email: { transform: transforms.caseInsensitive() },
+    createdAt: { transform: transforms.date() },
+    balance: { transform: transforms.decimal(2) },
+    isActive: {},
+    "address.city": { column: "city" },
+  },
+};
+
+const ANN = {
+  id: 1,
+  fullName: "Ann Smith",
+  email: "Ann@Example.com",
+  createdAt: "2026-01-31T10:00:00.000Z",
+  balance: 49.9,
+  isActive: true,
+  address: { city: "Oslo" },
+};
+
+const BOB = {
+  id: 2,
+  fullName: "Bob Jones",
+  email: "bob@example.com",
+  createdAt: "2026-02-01T08:30:00.000Z",
+  balance: 0,
+  isActive: false,
+  address: { city: "Bergen" },
+};
+
+/**
+ * Reconciliation of API entities with their database rows, against a mock
+ * server and an in-memory SQLite database.
+ */
+test.describe("API/DB Reconciliation @integration @mock", () => {
+  let db: DatabaseClient;
+
+  test.beforeEach(async () => {
+    db = DatabaseFactory.create({ provider: "sqlite", database: ":memory:" });
+    await db.connect();
+    await db.execute(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        email TEXT NOT NULL,
+        created_at DATETIME NOT NULL,
+        balance DECIMAL(10, 2) NOT NULL,
+        is_active BOOLEAN NOT NULL,
+        city TEXT
+      )`);
+    await db.execute(`
+      INSERT INTO users (id, name, email, created_at, balance, is_active, city) VALUES
+        (1, 'Ann Smith', 'ann@example.com', '2026-01-31 10:00:00', '49.90', 1, 'Oslo'),
+        (2, 'Bob Jones', 'bob@example.com', '2026-02-01 08:30:00', 0, 0, 'Bergen'),
+        (3, 'Cy Young', 'cy@example.com', '2026-02-02 00:00:00', 5, 1, NULL)`);
+  });
+
+  test.afterEach(async () => {
+    await db.disconnect();
+  });
+
+  test("matches an entity with its row", async ({ api, mockServer }) => {
+    mockServer.on("GET", "/users/1").reply(200, ANN);
+
+    await expect(await api.get("/users/1")).toMatchDatabase(db, userEntity);
+  });
+
+  test("reports every field-level mismatch in one assertion", async ({
+    api,
+    mockServer,
+  }) => {
+    mockServer.on("GET", "/users").reply(200, {
+      data: [
+        { ...ANN, fullName: "Ann Smyth", balance: 49.95 },
+        { ...BOB, isActive: true },
+        { ...BOB, id: 9 },
+      ],
+    });
+    const list = { ...userEntity, path: "data" };
+
+    const error = await expect(await api.get("/users"))
+      .toMatchDatabase(db, list, { scope: {} })
+      .catch((e: Error) => e);
+
+    expect(error?.message).toContain(
+      [
+        "users: 3 of 3 API entities differ, 1 row(s) not returned",
+        '  1 fullName: API "Ann Smyth" != DB "Ann Smith" (column name)',
+        "  1 balance: API 49.95 != DB 49.9",
+        "  2 isActive: API true != DB 0 (column is_active)",
+        "  9: no row in users",
+        "  3: row in users missing from the API",
+      ].join("\n")
+    );
+  });
+
+  test("returns a report for custom assertions", async () => {
+    const report = await reconcile(
+      { items: [ANN, BOB] },
+      db,
+      { ...userEntity, path: "items" },
+      { scope: { is_active: 1 } }
+    );
+
+    expect(report).toEqual({
+      table: "users",
+      compared: 2,
+      mismatches: [],
+      missingInDb: [],
+      missingInApi: [3],
+    });
+  });
+
+  test("names unknown columns", async () => {
+    await expect(
+      reconcile(ANN, db, { table: "users", key: "id", fields: ["nickname"] })
+    ).rejects.toThrow("Column nickname (mapped from nickname) does not exist");
+  });
+
+  test("transforms normalize both sides", () => {
+    expect(snakeCase("createdAt")).toBe("created_at");
+    expect(snakeCase("userID")).toBe("user_id");
+    expect(snakeCase("HTTPStatusCode")).toBe("http_status_code");
+
+    const date = transforms.date();
+    expect(date("2026-01-31 10:00:00")).toBe(
+      date(new Date(Date.UTC(2026, 0, 31, 10)))
+    );
+    expect(transforms.date("day")("2026-01-31T23:00:00Z")).toBe("2026-01-31");
+    expect(transforms.decimal(2)("49.90")).toBe(transforms.decimal(2)(49.9));
+    expect(transforms.boolean()(1)).toBe(true);
+    expect(transforms.json()('{"a":1}')).toEqual({ a: 1 });
+  });
+});
@@ -0,0 +1,147 @@
+import type { APIRequestContext, APIResponse } from "@playwright/test";
+import { test, expect } from "../fixtures/index.js";
+import { ApiClient, parseRetryAfter } from "../api/index.js";
+import type { RetryAttempt } from "../api/index.js";
+
+type Outcome = number | { status: number; retryAfter?: string } | Error;
+
+/**
+ * A request context that answers with `outcomes` in turn (a status, a status
+ * with `Retry-After`, or a thrown network error), repeating the last one.
+ */
+function scriptedContext(...outcomes: Outcome[]) {
+  const methods: string[] = [];
+  const request = {
+    fetch: async (url: string, options: { method: string }) => {
+      const outcome = outcomes[Math.min(methods.length, outcomes.length - 1)];
+      methods.push(options.method);
+      if (outcome instanceof Error) throw outcome;
+
+      const { status, retryAfter } =
+        typeof outcome === "number" ? { status: outcome } : outcome;
+      return {
+        status: () => status,
+        url: () => url,
+        headers: () => (retryAfter ? { "retry-after": retryAfter } : {}),
+      } as unknown as APIResponse;
+    },
+  } as unknown as APIRequestContext;
+
+  return { request, methods };
+}
+
+const BASE_URL = "http://localhost";
+
+/**
+ * Request-level retry policy in ApiClient.
+ */
+test.describe("API Retry Policy @api @mock", () => {
+  test("retries transient statuses and records every attempt", async () => {
+    const { request, methods } = scriptedContext(503, 502, 200);
+    const retries: RetryAttempt[] = [];
+    const client = new ApiClient(request, {
+      baseURL: BASE_URL,
+      retry: { baseDelay: 1, onRetry: (a) => retries.push(a) },
+    });
+
+    const response = await client.get("/users");
+
+    expect(response.status).toBe(200);
+    expect(methods).toEqual(["GET", "GET", "GET"]);
+    expect(response.attempts.map((a) => [a.attempt, a.status])).toEqual([
+      [1, 503],
+      [2, 502],
+      [3, 200],
+    ]);
+    expect(retries.map((a) => a.status)).toEqual([503, 502]);
+    expect(retries.every((a) => a.delay !== undefined)).toBe(true);
+  });
+
+  test("gives up after maxAttempts", async () => {
+    const { request, methods } = scriptedContext(503);
+    const client = new ApiClient(request, {
+      baseURL: BASE_URL,
+      retry: { baseDelay: 1, maxAttempts: 2 },
+    });
+
+    const response = await client.get("/users");
+
+    expect(response.status).toBe(503);
+    expect(methods).toHaveLength(2);
+  });
+
+  test("retries non-idempotent methods only with an idempotency key", async () => {
+    const { request, methods } = scriptedContext(503, 503, 201);
+    const client = new ApiClient(request, {
+      baseURL: BASE_URL,
+      retry: { baseDelay: 1 },
+    });
+
+    const plain = await client.post("/orders", { sku: "A-1" });
+    const keyed = await client.post(
+      "/orders",
+      { sku: "A-1" },
+      { headers: { "Idempotency-Key": "order-1" } }
+    );
+
+    expect(plain.status).toBe(503);
+    expect(keyed.status).toBe(201);
+    expect(methods).toEqual(["POST", "POST", "POST"]);
+  });
+
+  test("waits as long as Retry-After asks within maxElapsed", async () => {
+    const { request, methods } = scriptedContext(
+      { status: 429, retryAfter: "0" },
+      { status: 429, retryAfter: "120" },
+      200
+    );
+    const client = new ApiClient(request, {
+      baseURL: BASE_URL,
+      retry: { baseDelay: 1, maxElapsed: 5000 },
+    });
+
+    const response = await client.get("/users");
+
+    expect(response.status).toBe(429);
+    expect(methods).toHaveLength(2);
+    expect(response.attempts[0].delay).toBe(0);
+    expect(response.attempts[1].delay).toBeUndefined();
+  });
+
+  test("retries network errors and rethrows the last one", async () => {
+    const { request, methods } = scriptedContext(
+      new Error("socket hang up"),
+      new Error("ECONNRESET")
+    );
+    const client = new ApiClient(request, {
+      baseURL: BASE_URL,
+      retry: { baseDelay: 1 },
+    });
+
+    await expect(client.get("/users")).rejects.toThrow("ECONNRESET");
+    expect(methods).toHaveLength(3);
+  });
+
+  test("per-request options override the client policy", async () => {
+    const { request, methods } = scriptedContext(503);
+    const client = new ApiClient(request, {
+      baseURL: BASE_URL,
+      retry: { baseDelay: 1 },
+    });
+
+    await client.get("/users", { retry: false });
+    await client.get("/users", { retry: { maxAttempts: 4 } });
+
+    expect(methods).toHaveLength(5);
+  });
+
+  test("parses Retry-After seconds and HTTP dates", () => {
+    const now = Date.parse("Mon, 19 Oct 2026 10:00:00 GMT");
+
+    expect(parseRetryAfter("3", now)).toBe(3000);
+    expect(parseRetryAfter("Mon, 19 Oct 2026 10:00:05 GMT", now)).toBe(5000);
+    expect(parseRetryAfter("Mon, 19 Oct 2026 09:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import { readFile } from "node:fs/promises";
+import { test, expect } from "../fixtures/index.js";
+import {
+  DatabaseFactory,
+  DatabaseClient,
+  checkSchemaDrift,
+  diffSchemas,
+  formatSchemaChanges,
+  writeSchemaBaseline,
+} from "../db/index.js";
+
+/**
+ * Schema drift detection against baselines of an in-memory SQLite database.
+ */
+test.describe("Schema Drift @db @mock", () => {
+  let db: DatabaseClient;
+
+  test.beforeEach(async () => {
+    db = DatabaseFactory.create({ provider: "sqlite", database: ":memory:" });
+    await db.connect();
+    await db.execute(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        email VARCHAR(255) NOT NULL,
+        name TEXT
+      )`);
+    await db.execute("CREATE UNIQUE INDEX idx_users_email ON users (email)");
+    await db.execute(`
+      CREATE TABLE orders (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users (id),
+        total DECIMAL(10, 2) NOT NULL
+      )`);
+  });
+
+  test.afterEach(async () => {
+    await db.disconnect();
+  });
+
+  /** Applies a migration that changes types, keys and indexes. */
+  async function migrate(): Promise<void> {
+    await db.execute("DROP TABLE orders");
+    await db.execute(`
+      CREATE TABLE orders (
+        id INTEGER PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+        total TEXT,
+        status TEXT NOT NULL DEFAULT 'new'
+      )`);
+    await db.execute("DROP INDEX idx_users_email");
+    await db.execute("CREATE INDEX idx_users_email ON users (email, name)");
+    await db.execute("CREATE TABLE audit_log (id INTEGER PRIMARY KEY)");
+  }
+
+  test("reports added, removed and changed objects", async () => {
+    const baseline = await db.introspect();
+    await migrate();
+
+    const changes = diffSchemas(baseline, await db.introspect());
+
+    expect(formatSchemaChanges(changes)).toBe(
+      [
+        "+ table audit_log",
+        '~ column orders.total: type "decimal(10, 2)" -> "text", nullable false -> true',
+        "+ column orders.status",
+        '~ foreign key orders.(user_id): onDelete "NO ACTION" -> "CASCADE"',
+        '~ index users.idx_users_email: columns ["email"] -> ["email","name"], unique true -> false',
+      ].join("\n")
+    );
+  });
+
+  test("ignores listed tables", async () => {
+    const baseline = await db.introspect();
+    await migrate();
+
+    const changes = diffSchemas(baseline, await db.introspect(), {
+      ignoreTables: ["orders", "users", "audit_log"],
+    });
+
+    expect(changes).toEqual([]);
+  });
+
+  test("writes a missing baseline and updates on request", async () => {
+    const file = test.info().outputPath("schema.json");
+
+    const first = await checkSchemaDrift(db, file);
+    expect(first).toEqual({ changes: [], written: true, existed: false });
+
+    await migrate();
+    const drifted = await checkSchemaDrift(db, file);
+    expect(drifted.written).toBe(false);
+    expect(drifted.changes).toHaveLength(5);
+
+    const updated = await checkSchemaDrift(db, file, { update: true });
+    expect(updated.written).toBe(true);
+    expect((await checkSchemaDrift(db, file)).changes).toEqual([]);
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual(
+      await db.introspect()
+    );
+  });
+
+  test("ignores the migration history table by default", async () => {
+    const file = test.info().outputPath("schema.json");
+    await checkSchemaDrift(db, file);
+
+    await db.execute(
+      "CREATE TABLE schema_migrations (version TEXT PRIMARY KEY)"
+    );
+
+    expect((await checkSchemaDrift(db, file)).changes).toEqual([]);
+    await expect(db).toMatchSchemaBaseline(file);
+  });
+
+  test("toMatchSchemaBaseline fails on drift", async () => {
+    const file = test.info().outputPath("schema.json");
+    await writeSchemaBaseline(file, await db.introspect());
+
+    await expect(db).toMatchSchemaBaseline(file);
+
+    await db.execute("ALTER TABLE users ADD COLUMN nickname TEXT");
+    const error = await expect(db)
+      .toMatchSchemaBaseline(file)
+      .catch((e: Error) => e);
+
+    expect(error?.message).toContain(
+      `Schema differs from ${file}:\n+ column users.nickname\n\n` +
+        "Run with --update-snapshots to accept these changes."
+    );
+  });
+
+  test("toMatchSchemaBaseline fails when the baseline is missing", async () => {
+    const file = test.info().outputPath("missing.json");
+
+    const error = await expect(db)
+      .toMatchSchemaBaseline(file)
+      .catch((e: Error) => e);
+
+    expect(error?.message).toContain(
+      `Schema baseline ${file} did not exist; wrote the live schema to it`
+    );
+    await expect(db).toMatchSchemaBaseline(file);
+  });
+
+  test("refuses baselines from another provider", async () => {
+    const actual = await db.introspect();
+    const baseline = { ...actual, provider: "mysql" as const };
+
+    expect(() => diffSchemas(baseline, actual)).toThrow(
+      "Schema baseline was taken from mysql, but the database is sqlite"
+    );
+  });
+});
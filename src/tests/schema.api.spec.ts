@@ -0,0 +1,98 @@
+import type { APIResponse } from "@playwright/test";
+import { test, expect } from "../fixtures/index.js";
+import {
+  ApiResponse,
+  OpenApiSpec,
+  SchemaValidationError,
+  validateSchema,
+} from "../api/index.js";
+
+const SPEC_PATH = "src/tests/data/openapi.yaml";
+
+/** Wraps a canned JSON body so schema checks run without a server. */
+function fakeResponse(body: unknown, status = 200): ApiResponse {
+  return new ApiResponse({
+    status: () => status,
+    url: () => "http://localhost/users/1",
+    json: async () => body,
+  } as unknown as APIResponse);
+}
+
+/**
+ * Response schema validation against JSON Schema and a local OpenAPI file.
+ */
+test.describe("Response Schema Validation @api @mock", () => {
+  let spec: OpenApiSpec;
+
+  test.beforeAll(async () => {
+    spec = await OpenApiSpec.load(SPEC_PATH);
+  });
+
+  test("reports every violating JSON pointer", () => {
+    const schema = {
+      type: "object",
+      required: ["id", "name"],
+      properties: {
+        id: { type: "integer" },
+        tags: { type: "array", items: { type: "string" } },
+      },
+    };
+
+    const violations = validateSchema({ id: "1", tags: ["a", 2] }, schema);
+
+    expect(violations.map((v) => v.pointer)).toEqual([
+      "/id",
+      "/name",
+      "/tags/1",
+    ]);
+  });
+
+  test("resolves response schemas by operationId and by path", () => {
+    const byId = spec.responseSchema({ operationId: "getUser" }, 200);
+    const byPath = spec.responseSchema(
+      { method: "GET", path: "/users/42" },
+      200
+    );
+
+    expect(byPath).toBe(byId);
+    expect(validateSchema({ id: 1, name: "A", email: "a@b.io" }, byId)).toEqual(
+      []
+    );
+    expect(() => spec.responseSchema({ operationId: "getUser" }, 500)).toThrow(
+      /no 500 response/
+    );
+  });
+
+  test("ApiResponse.validate returns the body or throws", async () => {
+    const schema = spec.responseSchema({ operationId: "getUser" }, 200);
+
+    const user = await fakeResponse({
+      id: 1,
+      name: "Jane",
+      email: "jane@example.com",
+      nickname: null,
+    }).validate(schema);
+    expect(user).toHaveProperty("id", 1);
+
+    const error = await fakeResponse({ id: "x", email: "nope" })
+      .validate(schema)
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(
+      (error as SchemaValidationError).violations.map((v) => v.pointer)
+    ).toEqual(expect.arrayContaining(["/id", "/email", "/name"]));
+  });
+
+  test("toMatchSchema matcher", async () => {
+    const problem = spec.responseSchema(
+      { operationId: "getUser" },
+      404,
+      "application/problem+json"
+    );
+
+    await expect(
+      fakeResponse({ title: "Not Found", status: 404 }, 404)
+    ).toMatchSchema(problem);
+    await expect(fakeResponse({ title: 1 }, 404)).not.toMatchSchema(problem);
+  });
+});
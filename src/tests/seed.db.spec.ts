@@ -0,0 +1,125 @@
+import { test, expect } from "@playwright/test";
+import {
+  DatabaseFactory,
+  DatabaseClient,
+  Seeder,
+  parseCsv,
+  ref,
+} from "../db/index.js";
+
+const SEED_DIR = "src/tests/data/seed";
+
+/**
+ * Seeder tests against an in-memory SQLite database.
+ */
+test.describe("Database Seeding @db @mock", () => {
+  let db: DatabaseClient;
+
+  const count = async (table: string) => {
+    const result = await db.query<{ count: number }>(
+      `SELECT COUNT(*) as count FROM ${table}`
+    );
+    return result.rows[0].count;
+  };
+
+  test.beforeEach(async () => {
+    db = DatabaseFactory.create({ provider: "sqlite", database: ":memory:" });
+    await db.connect();
+    await db.execute(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        email TEXT UNIQUE NOT NULL
+      )`);
+    await db.execute(`
+      CREATE TABLE orders (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        total DECIMAL(10, 2) NOT NULL,
+        status TEXT DEFAULT 'pending'
+      )`);
+    await db.execute(`
+      CREATE TABLE products (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        price DECIMAL(10, 2) NOT NULL,
+        stock INTEGER DEFAULT 0
+      )`);
+    await db.execute("PRAGMA foreign_keys = ON");
+  });
+
+  test.afterEach(async () => {
+    await db.disconnect();
+  });
+
+  test("loads YAML and CSV files in foreign-key order", async () => {
+    const seed = await new Seeder(db).seed(SEED_DIR);
+
+    expect(seed.users.john.id).toEqual(expect.any(Number));
+    expect(seed.orders.john_pending.user_id).toBe(seed.users.john.id);
+    expect(seed.products.gadget_x.name).toBe("Gadget X, deluxe");
+    expect(seed.products.gadget_x.stock).toBeNull();
+
+    const order = await db.query<{ email: string }>(
+      `SELECT u.email FROM orders o JOIN users u ON u.id = o.user_id
+       WHERE o.id = ?`,
+      [seed.orders.john_pending.id]
+    );
+    expect(order.rows[0].email).toBe("john@example.com");
+  });
+
+  test("builders can reference rows from earlier seeds", async () => {
+    const seeder = new Seeder(db);
+    await seeder.seed({ users: { bob: { name: "Bob", email: "b@x.io" } } });
+
+    const seed = await seeder.seed(() => ({
+      orders: { first: { user_id: ref("users", "bob"), total: 5 } },
+    }));
+
+    expect(seed.orders.first.user_id).toBe(seed.users.bob.id);
+  });
+
+  test("teardown removes exactly the seeded rows", async () => {
+    await db.execute("INSERT INTO users (name, email) VALUES (?, ?)", [
+      "Existing",
+      "existing@example.com",
+    ]);
+
+    const seeder = new Seeder(db);
+    await seeder.seed(SEED_DIR);
+    expect(await count("users")).toBe(3);
+
+    await seeder.teardown();
+
+    expect(await count("users")).toBe(1);
+    expect(await count("orders")).toBe(0);
+    expect(await count("products")).toBe(0);
+  });
+
+  test("CSV reads empty unquoted cells as null", () => {
+    expect(parseCsv('name,status\nAnn,\n"",""\n')).toEqual([
+      ["name", "status"],
+      ["Ann", null],
+      ["", ""],
+    ]);
+  });
+
+  test("unknown and circular references fail before inserting", async () => {
+    const seeder = new Seeder(db);
+
+    await expect(
+      seeder.seed({ orders: { o: { user_id: "@users.nobody", total: 1 } } })
+    ).rejects.toThrow(/Unknown seed reference @users.nobody/);
+
+    await expect(
+      seeder.seed({
+        users: {
+          a: { name: "@users.b.name", email: "a@x.io" },
+          b: { name: "@users.a.name", email: "b@x.io" },
+        },
+      })
+    ).rejects.toThrow(/Circular seed reference/);
+
+    expect(await count("users")).toBe(0);
+  });
+});
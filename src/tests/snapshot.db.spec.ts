@@ -0,0 +1,167 @@
+import { test, expect } from "../fixtures/index.js";
+import {
+  DatabaseFactory,
+  DatabaseClient,
+  diffSnapshots,
+  formatDiff,
+  snapshot,
+} from "../db/index.js";
+
+/**
+ * Table snapshots and diffs against an in-memory SQLite database.
+ */
+test.describe("Database Snapshots @db @mock", () => {
+  let db: DatabaseClient;
+
+  test.beforeEach(async () => {
+    db = DatabaseFactory.create({ provider: "sqlite", database: ":memory:" });
+    await db.connect();
+    await db.execute(`
+      CREATE TABLE users (
+        id INTEGER PRIMARY KEY,
+        email TEXT NOT NULL,
+        status TEXT NOT NULL,
+        updated_at TEXT
+      )`);
+    await db.execute(`
+      CREATE TABLE memberships (
+        user_id INTEGER NOT NULL,
+        team TEXT NOT NULL,
+        role TEXT NOT NULL,
+        PRIMARY KEY (user_id, team)
+      )`);
+    await db.execute(`
+      INSERT INTO users (id, email, status, updated_at) VALUES
+        (1, 'ann@example.com', 'active', '2026-01-01'),
+        (2, 'bob@example.com', 'active', '2026-01-01')`);
+    await db.execute(
+      "INSERT INTO memberships (user_id, team, role) VALUES (1, 'core', 'member')"
+    );
+  });
+
+  test.afterEach(async () => {
+    await db.disconnect();
+  });
+
+  test("reports inserted, updated and deleted rows by primary key", async () => {
+    const before = await snapshot(db, ["users", "memberships"]);
+
+    await db.execute(
+      "INSERT INTO users (id, email, status) VALUES (3, 'cy@example.com', 'active')"
+    );
+    await db.execute("UPDATE users SET status = 'locked' WHERE id = 1");
+    await db.execute("DELETE FROM users WHERE id = 2");
+    await db.execute(
+      "UPDATE memberships SET role = 'owner' WHERE user_id = 1 AND team = 'core'"
+    );
+    const diff = diffSnapshots(
+      before,
+      await snapshot(db, ["users", "memberships"])
+    );
+
+    expect(before.tables.memberships.primaryKey).toEqual(["user_id", "team"]);
+    expect(diff.users.inserted).toEqual([
+      { id: 3, email: "cy@example.com", status: "active", updated_at: null },
+    ]);
+    expect(diff.users.updated).toEqual([
+      {
+        key: { id: 1 },
+        before: expect.objectContaining({ status: "active" }),
+        after: expect.objectContaining({ status: "locked" }),
+        changed: ["status"],
+      },
+    ]);
+    expect(diff.users.deleted.map((row) => row.id)).toEqual([2]);
+    expect(diff.memberships.updated[0].key).toEqual({
+      user_id: 1,
+      team: "core",
+    });
+  });
+
+  test("ignores volatile columns", async () => {
+    const before = await snapshot(db, ["users"], {
+      ignoreColumns: ["updated_at"],
+    });
+    await db.execute("UPDATE users SET updated_at = '2026-02-01'");
+
+    expect(before.tables.users.rows[0]).not.toHaveProperty("updated_at");
+    await expect(db).toHaveChanges(before, {});
+  });
+
+  test("toHaveChanges checks counts per table", async () => {
+    const before = await db.snapshot(["users", "memberships"]);
+    await db.execute(
+      "INSERT INTO users (id, email, status) VALUES (3, 'cy@example.com', 'active')"
+    );
+
+    await expect(db).toHaveChanges(before, { users: { inserted: 1 } });
+    await expect(db).not.toHaveChanges(before, {});
+  });
+
+  test("toHaveChanges reports unexpected changes", async () => {
+    const before = await snapshot(db, ["users", "memberships"], {
+      ignoreColumns: { users: ["updated_at"] },
+    });
+    await db.execute("UPDATE users SET status = 'locked' WHERE id = 1");
+    await db.execute("DELETE FROM memberships");
+
+    const error = await expect(db)
+      .toHaveChanges(before, { users: { updated: 1 } })
+      .catch((e: Error) => e);
+
+    expect(error?.message).toContain("Unexpected changes in memberships");
+    expect(error?.message).toContain(
+      [
+        "users: 0 inserted, 1 updated, 0 deleted",
+        '  ~ { id: 1 }: status "active" -> "locked"',
+        "memberships: 0 inserted, 0 updated, 1 deleted",
+        '  - { user_id: 1, team: "core", role: "member" }',
+      ].join("\n")
+    );
+  });
+
+  test("counts duplicate rows of a table without a primary key", async () => {
+    await db.execute("CREATE TABLE events (kind TEXT NOT NULL)");
+    await db.execute("INSERT INTO events (kind) VALUES ('login')");
+    const before = await snapshot(db, ["events"]);
+
+    await db.execute("INSERT INTO events (kind) VALUES ('login'), ('login')");
+    const inserted = diffSnapshots(before, await snapshot(db, ["events"]));
+    await db.execute("DELETE FROM events");
+    const deleted = diffSnapshots(before, await snapshot(db, ["events"]));
+
+    expect(inserted.events.inserted).toEqual([
+      { kind: "login" },
+      { kind: "login" },
+    ]);
+    expect(deleted.events.deleted).toEqual([{ kind: "login" }]);
+  });
+
+  test("keys and prints bigint values", () => {
+    const at = (amount: bigint) => ({
+      takenAt: new Date(),
+      tables: {
+        ledger: {
+          primaryKey: ["id"],
+          ignoredColumns: [],
+          rows: [{ id: 9007199254740993n, amount }],
+        },
+      },
+    });
+
+    expect(formatDiff(diffSnapshots(at(1n), at(2n)))).toBe(
+      [
+        "ledger: 0 inserted, 1 updated, 0 deleted",
+        "  ~ { id: 9007199254740993 }: amount 1 -> 2",
+      ].join("\n")
+    );
+  });
+
+  test("formatDiff describes an empty diff", async () => {
+    const before = await snapshot(db, ["users"]);
+
+    expect(formatDiff(diffSnapshots(before, before))).toBe(
+      "users: 0 inserted, 0 updated, 0 deleted"
+    );
+  });
+});
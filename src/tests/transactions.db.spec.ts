@@ -0,0 +1,118 @@
+import { test, expect } from "@playwright/test";
+import { DatabaseFactory, DatabaseClient, withRollback } from "../db/index.js";
+import { sleep } from "../utils/index.js";
+
+/**
+ * Transaction semantics of the SQLite provider, using an in-memory database.
+ */
+test.describe("SQLite Transactions @db @mock", () => {
+  let db: DatabaseClient;
+
+  const countProducts = async () => {
+    const result = await db.query<{ count: number }>(
+      "SELECT COUNT(*) as count FROM products"
+    );
+    return result.rows[0].count;
+  };
+
+  test.beforeEach(async () => {
+    db = DatabaseFactory.create({ provider: "sqlite", database: ":memory:" });
+    await db.connect();
+    await db.execute(
+      "CREATE TABLE products (id INTEGER PRIMARY KEY, name TEXT NOT NULL)"
+    );
+  });
+
+  test.afterEach(async () => {
+    await db.disconnect();
+  });
+
+  test("commits only after awaited work completes", async () => {
+    await db.transaction(async (client) => {
+      await sleep(10);
+      await client.execute("INSERT INTO products (name) VALUES (?)", ["A"]);
+      await sleep(10);
+      await client.execute("INSERT INTO products (name) VALUES (?)", ["B"]);
+    });
+
+    expect(await countProducts()).toBe(2);
+  });
+
+  test("rejected promise rolls back", async () => {
+    await expect(
+      db.transaction(async (client) => {
+        await client.execute("INSERT INTO products (name) VALUES (?)", ["A"]);
+        await sleep(10);
+        throw new Error("Intentional error for rollback");
+      })
+    ).rejects.toThrow("Intentional error for rollback");
+
+    expect(await countProducts()).toBe(0);
+  });
+
+  test("nested transaction rolls back to its savepoint", async () => {
+    await db.transaction(async (outer) => {
+      await outer.execute("INSERT INTO products (name) VALUES (?)", ["Outer"]);
+
+      await expect(
+        outer.transaction(async (inner) => {
+          await inner.execute("INSERT INTO products (name) VALUES (?)", [
+            "Inner",
+          ]);
+          throw new Error("Inner failure");
+        })
+      ).rejects.toThrow("Inner failure");
+
+      await outer.transaction(async (inner) => {
+        await inner.execute("INSERT INTO products (name) VALUES (?)", ["Kept"]);
+      });
+    });
+
+    const result = await db.query<{ name: string }>(
+      "SELECT name FROM products ORDER BY id"
+    );
+    expect(result.rows.map((r) => r.name)).toEqual(["Outer", "Kept"]);
+  });
+
+  test("overlapping transactions run one after the other", async () => {
+    const failing = db.transaction(async (client) => {
+      await client.execute("INSERT INTO products (name) VALUES (?)", ["A"]);
+      await sleep(20);
+      throw new Error("First fails");
+    });
+    const passing = db.transaction(async (client) => {
+      await client.execute("INSERT INTO products (name) VALUES (?)", ["B"]);
+      await sleep(10);
+    });
+
+    const [first, second] = await Promise.allSettled([failing, passing]);
+
+    expect(first.status).toBe("rejected");
+    expect(second.status).toBe("fulfilled");
+    const result = await db.query<{ name: string }>(
+      "SELECT name FROM products"
+    );
+    expect(result.rows.map((r) => r.name)).toEqual(["B"]);
+  });
+
+  test("transaction client stops working after the transaction", async () => {
+    const leaked = await db.transaction(async (client) => client);
+
+    await expect(leaked.query("SELECT 1")).rejects.toThrow(
+      "Transaction has already finished."
+    );
+  });
+
+  test("withRollback discards writes from a passing callback", async () => {
+    const seen = await withRollback(db, async (tx) => {
+      await tx.execute("INSERT INTO products (name) VALUES (?)", ["Temp"]);
+      const result = await tx.query<{ count: number }>(
+        "SELECT COUNT(*) as count FROM products"
+      );
+      return result.rows[0].count;
+    });
+
+    expect(seen).toBe(1);
+    expect(await countProducts()).toBe(0);
+  });
+});
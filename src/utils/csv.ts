@@ -0,0 +1,73 @@
+export interface CsvOptions {
+  /** Field separator. Defaults to `,`. */
+  delimiter?: string;
+  /**
+   * Reads empty unquoted fields as null, so `a,,b` and `a,"",b` differ.
+   * Defaults to false, which reads both as empty strings.
+   */
+  emptyAsNull?: boolean;
+}
+
+/**
+ * Parses RFC 4180 CSV into rows of fields. Quoted fields may contain the
+ * delimiter, line breaks and doubled quotes; a quote only opens a quoted
+ * field at the start of the field.
+ */
+export function parseCsvRows(
+  text: string,
+  options?: CsvOptions & { emptyAsNull?: false }
+): string[][];
+export function parseCsvRows(
+  text: string,
+  options: CsvOptions
+): Array<Array<string | null>>;
+export function parseCsvRows(
+  text: string,
+  options: CsvOptions = {}
+): Array<Array<string | null>> {
+  const { delimiter = ",", emptyAsNull = false } = options;
+  const rows: Array<Array<string | null>> = [];
+  let row: Array<string | null> = [];
+  let field = "";
+  let quoted = false;
+  let inQuotes = false;
+
+  const endField = () => {
+    row.push(emptyAsNull && field === "" && !quoted ? null : field);
+    field = "";
+    quoted = false;
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "" && !quoted) {
+      inQuotes = true;
+      quoted = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || quoted || row.length > 0) endRow();
+  return rows;
+}
@@ -5,3 +5,5 @@ export {
   generateUUID,
   sleep,
 } from "./test-data.js";
+export { parseCsvRows } from "./csv.js";
+export type { CsvOptions } from "./csv.js";